@@ -3,6 +3,7 @@ import { ToastProvider } from './components/Toast';
 import { PriceVisibilityProvider, usePriceVisibility } from './components/PriceVisibility';
 import LoginPage from './components/LoginPage';
 import Sidebar from './components/Sidebar';
+import OfflineQueueBadge from './components/OfflineQueueBadge';
 import SalesPage from './pages/SalesPage';
 import ProductsPage from './pages/ProductsPage';
 import RepairsPage from './pages/RepairsPage';
@@ -15,18 +16,28 @@ import ExpensesPage from './pages/ExpensesPage';
 import SuppliersPage from './pages/SuppliersPage';
 import CustomersPage from './pages/CustomersPage';
 import RemindersPage from './pages/RemindersPage';
-import type { Category, Product, Sale, RepairRecord, PhoneSale, PhoneStock, Expense, CustomerRequest, Supplier, Purchase, Customer } from './types';
+import StaffPage from './pages/StaffPage';
+import AuditLogPage from './pages/AuditLogPage';
+import TrashPage from './pages/TrashPage';
+import StockCountPage from './pages/StockCountPage';
+import RepairTrackingPage from './pages/RepairTrackingPage';
+import type { Category, Product, Sale, RepairRecord, PhoneSale, PhoneStock, Expense, CustomerRequest, Supplier, Purchase, Customer, MusteriHareket, StaffMember, AuthSession } from './types';
 import * as api from './utils/api';
+import { getBackend, switchBackend } from './utils/backend';
+import { SESSION_EXPIRED_EVENT, canAccessView, clearSession, getSession } from './utils/auth';
 
 const viewLabels: Record<string, string> = {
-  sales: 'Satış & Raporlar', products: 'Ürünler', repairs: 'Tamir Kayıtları',
+  sales: 'Satış & Raporlar', products: 'Ürünler', stockCount: 'Stok Sayımı', repairs: 'Tamir Kayıtları',
   phoneSales: 'Telefon Satışları', customers: 'Müşteriler', analytics: 'Analizler', requests: 'İstek & Siparişler',
   calculator: 'Hesap Makinası', purchases: 'Alışlar', expenses: 'Giderler', suppliers: 'Tedarikçiler',
-  reminders: 'Hatırlatıcılar',
+  reminders: 'Hatırlatıcılar', staff: 'Personel', auditLog: 'İşlem Geçmişi', trash: 'Çöp Kutusu',
 };
 
 export default function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(localStorage.getItem('isAuth') === 'true');
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+  const isAuthenticated = session !== null;
+  // ?takip=CODE (the QR on the intake ticket) opens the public tracking page instead of the panel
+  const [trackingCode] = useState(() => new URLSearchParams(window.location.search).get('takip'));
   const [activeView, setActiveView] = useState('sales');
   const [loading, setLoading] = useState(false);
 
@@ -42,6 +53,8 @@ export default function App() {
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [purchases, setPurchases] = useState<Purchase[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [musteriHareketler, setMusteriHareketler] = useState<MusteriHareket[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
 
   const loadAllData = useCallback(async () => {
     setLoading(true);
@@ -58,6 +71,8 @@ export default function App() {
         api.getSuppliers().then(setSuppliers),
         api.getPurchases().then(setPurchases),
         api.getCustomers().then(setCustomers).catch(() => { }),
+        api.getMusteriHareketler().then(setMusteriHareketler).catch(() => { }),
+        api.getStaff().then(setStaff).catch(() => { }),
       ]);
       results.forEach((r, i) => {
         if (r.status === 'rejected') console.warn(`Data load ${i} failed:`, r.reason);
@@ -68,15 +83,31 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (isAuthenticated) loadAllData();
-  }, [isAuthenticated, loadAllData]);
+    if (isAuthenticated && trackingCode === null) loadAllData();
+  }, [isAuthenticated, trackingCode, loadAllData]);
 
-  const handleLogin = () => setIsAuthenticated(true);
+  // The backend rejected the stored token (expired or revoked)
+  useEffect(() => {
+    const onExpired = () => setSession(null);
+    window.addEventListener(SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
+  const handleLogin = (s: AuthSession) => setSession(s);
   const handleLogout = () => {
-    localStorage.removeItem('isAuth');
-    setIsAuthenticated(false);
+    // Revoke first; the request still needs the token attached
+    api.logout().catch(() => { }).finally(clearSession);
+    setSession(null);
   };
 
+  if (trackingCode !== null) {
+    return (
+      <ToastProvider>
+        <RepairTrackingPage initialCode={trackingCode} />
+      </ToastProvider>
+    );
+  }
+
   if (!isAuthenticated) {
     return (
       <ToastProvider>
@@ -85,6 +116,11 @@ export default function App() {
     );
   }
 
+  // A role that can't open the current view lands on its first allowed one
+  const currentView = canAccessView(session.role, activeView)
+    ? activeView
+    : Object.keys(viewLabels).find(v => canAccessView(session.role, v)) || activeView;
+
   const renderView = () => {
     if (loading) {
       return (
@@ -97,37 +133,49 @@ export default function App() {
       );
     }
 
-    switch (activeView) {
-      case 'sales': return <SalesPage sales={sales} repairs={repairs} phoneSales={phoneSales} suppliers={suppliers} products={products} setSales={setSales} onRefresh={loadAllData} customers={customers} setCustomers={setCustomers} />;
+    switch (currentView) {
+      case 'sales': return <SalesPage sales={sales} repairs={repairs} phoneSales={phoneSales} suppliers={suppliers} products={products} categories={categories} setProducts={setProducts} setSales={setSales} onRefresh={loadAllData} customers={customers} setCustomers={setCustomers} />;
       case 'products': return <ProductsPage products={products} categories={categories} setProducts={setProducts} setCategories={setCategories} />;
-      case 'repairs': return <RepairsPage repairs={repairs} setRepairs={setRepairs} suppliers={suppliers} customers={customers} setCustomers={setCustomers} />;
+      case 'stockCount': return <StockCountPage products={products} categories={categories} setProducts={setProducts} />;
+      case 'repairs': return <RepairsPage repairs={repairs} setRepairs={setRepairs} suppliers={suppliers} customers={customers} setCustomers={setCustomers} products={products} setProducts={setProducts} staff={staff} />;
       case 'phoneSales': return <PhoneSalesPage phoneStocks={phoneStocks} phoneSales={phoneSales} setPhoneStocks={setPhoneStocks} setPhoneSales={setPhoneSales} customers={customers} setCustomers={setCustomers} />;
-      case 'customers': return <CustomersPage repairs={repairs} phoneSales={phoneSales} sales={sales} customers={customers} setCustomers={setCustomers} />;
-      case 'analytics': return <AnalyticsPage sales={sales} repairs={repairs} phoneSales={phoneSales} expenses={expenses} />;
+      case 'customers': return <CustomersPage repairs={repairs} phoneSales={phoneSales} sales={sales} customers={customers} setCustomers={setCustomers} hareketler={musteriHareketler} setHareketler={setMusteriHareketler} onLinked={loadAllData} />;
+      case 'analytics': return <AnalyticsPage sales={sales} repairs={repairs} phoneSales={phoneSales} expenses={expenses} staff={staff} />;
       case 'requests': return <RequestsPage requests={requests} setRequests={setRequests} />;
       case 'calculator': return <CalculatorPage />;
       case 'purchases': return <PurchasesPage purchases={purchases} suppliers={suppliers} products={products} setPurchases={setPurchases} onRefresh={loadAllData} />;
       case 'expenses': return <ExpensesPage expenses={expenses} setExpenses={setExpenses} />;
       case 'suppliers': return <SuppliersPage suppliers={suppliers} setSuppliers={setSuppliers} repairs={repairs} />;
       case 'reminders': return <RemindersPage />;
-      default: return <SalesPage sales={sales} repairs={repairs} phoneSales={phoneSales} suppliers={suppliers} products={products} setSales={setSales} onRefresh={loadAllData} customers={customers} setCustomers={setCustomers} />;
+      case 'staff': return <StaffPage staff={staff} setStaff={setStaff} repairs={repairs} />;
+      case 'auditLog': return <AuditLogPage onRestored={loadAllData} />;
+      case 'trash': return <TrashPage onChanged={loadAllData} />;
+      default: return <SalesPage sales={sales} repairs={repairs} phoneSales={phoneSales} suppliers={suppliers} products={products} categories={categories} setProducts={setProducts} setSales={setSales} onRefresh={loadAllData} customers={customers} setCustomers={setCustomers} />;
     }
   };
 
   return (
     <ToastProvider>
       <PriceVisibilityProvider>
-        <AppShell activeView={activeView} onViewChange={setActiveView} onLogout={handleLogout} renderView={renderView} />
+        <AppShell session={session} activeView={currentView} onViewChange={setActiveView} onLogout={handleLogout} renderView={renderView} onSynced={loadAllData} />
       </PriceVisibilityProvider>
     </ToastProvider>
   );
 }
 
-function AppShell({ activeView, onViewChange, onLogout, renderView }: { activeView: string; onViewChange: (v: string) => void; onLogout: () => void; renderView: () => React.ReactNode }) {
+function AppShell({ session, activeView, onViewChange, onLogout, renderView, onSynced }: { session: AuthSession; activeView: string; onViewChange: (v: string) => void; onLogout: () => void; renderView: () => React.ReactNode; onSynced: () => void }) {
   const { visible, toggle, currency, setCurrency, usdRate, rateLoading } = usePriceVisibility();
 
   const [isLight, setIsLight] = useState(() => localStorage.getItem('theme') === 'light');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const isLocalData = getBackend().kind === 'local';
+
+  const handleBackendToggle = () => {
+    const message = isLocalData
+      ? 'Canlı veritabanına (Supabase) geçilsin mi?'
+      : 'Yerel (çevrimdışı) veri moduna geçilsin mi? Bu moddaki kayıtlar yalnızca bu cihazda tutulur.';
+    if (confirm(message)) switchBackend(isLocalData ? 'supabase' : 'local');
+  };
 
   useEffect(() => {
     if (isLight) {
@@ -142,6 +190,7 @@ function AppShell({ activeView, onViewChange, onLogout, renderView }: { activeVi
   return (
     <div className="flex h-screen overflow-hidden">
       <Sidebar
+        session={session}
         activeView={activeView}
         onViewChange={(v) => { onViewChange(v); setIsMobileMenuOpen(false); }}
         onLogout={onLogout}
@@ -169,6 +218,20 @@ function AppShell({ activeView, onViewChange, onLogout, renderView }: { activeVi
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {/* Offline Queue */}
+            <OfflineQueueBadge onSynced={onSynced} />
+            {/* Data Source Toggle */}
+            <button
+              onClick={handleBackendToggle}
+              title={isLocalData ? 'Yerel Veri (çevrimdışı)' : 'Canlı Veri (Supabase)'}
+              className={`h-9 flex items-center justify-center gap-1.5 rounded-full transition-all ${isLocalData
+                ? 'px-3 text-amber-400 bg-amber-400/10 ring-1 ring-amber-400/30'
+                : 'w-9 text-slate-400 hover:bg-surface-hover hover:text-white'
+                }`}
+            >
+              <span className="material-symbols-outlined text-xl">{isLocalData ? 'cloud_off' : 'cloud_done'}</span>
+              {isLocalData && <span className="hidden sm:inline text-xs font-semibold">Yerel</span>}
+            </button>
             {/* Theme Toggle */}
             <button
               onClick={() => setIsLight(prev => !prev)}
@@ -1,12 +1,15 @@
 import { useState, useRef, useEffect } from 'react';
 import type { Customer } from '../types';
+import { formatPhone, getPhoneError, isSamePhone, normalizePhone } from '../utils/phone';
+import PhoneInput from './PhoneInput';
 
 interface CustomerSelectorProps {
     customers: Customer[];
     selectedCustomerName: string;
     selectedCustomerPhone: string;
-    onSelect: (name: string, phone: string) => void;
-    onAddNew?: (customer: Partial<Customer>) => void;
+    // customerId is '' when cleared, and until a quick-added customer is saved
+    onSelect: (name: string, phone: string, customerId: string) => void;
+    onAddNew?: (customer: Partial<Customer>) => Promise<Customer | null>;
 }
 
 export default function CustomerSelector({ customers, selectedCustomerName, selectedCustomerPhone, onSelect, onAddNew }: CustomerSelectorProps) {
@@ -32,25 +35,27 @@ export default function CustomerSelector({ customers, selectedCustomerName, sele
     const filtered = customers.filter(c => {
         if (!search) return true;
         const q = search.toLowerCase();
-        return c.name.toLowerCase().includes(q) || c.phone?.includes(q);
+        return c.name.toLowerCase().includes(q) || c.phone?.includes(q) || isSamePhone(c.phone, search);
     });
 
     const handleSelect = (c: Customer) => {
-        onSelect(c.name, c.phone || '');
+        onSelect(c.name, c.phone || '', c.id);
         setIsOpen(false);
         setSearch('');
     };
 
     const handleClear = () => {
-        onSelect('', '');
+        onSelect('', '', '');
         setSearch('');
     };
 
     const handleQuickAdd = () => {
-        if (!quickName.trim()) return;
-        onSelect(quickName.trim(), quickPhone.trim());
+        if (!quickName.trim() || getPhoneError(quickPhone)) return;
+        const name = quickName.trim();
+        const phone = normalizePhone(quickPhone);
+        onSelect(name, phone, '');
         if (onAddNew) {
-            onAddNew({ name: quickName.trim(), phone: quickPhone.trim() });
+            onAddNew({ name, phone }).then(c => { if (c) onSelect(name, phone, c.id); });
         }
         setQuickName('');
         setQuickPhone('');
@@ -77,7 +82,7 @@ export default function CustomerSelector({ customers, selectedCustomerName, sele
                             <span className="material-symbols-outlined text-violet-400 text-xs">person</span>
                         </div>
                         <span className="text-white">{selectedCustomerName}</span>
-                        {selectedCustomerPhone && <span className="text-slate-400 text-xs">({selectedCustomerPhone})</span>}
+                        {selectedCustomerPhone && <span className="text-slate-400 text-xs">({formatPhone(selectedCustomerPhone)})</span>}
                         <button type="button" onClick={(e) => { e.stopPropagation(); handleClear(); }}
                             className="ml-auto p-0.5 rounded hover:bg-red-500/10 text-slate-500 hover:text-red-400">
                             <span className="material-symbols-outlined text-sm">close</span>
@@ -125,7 +130,7 @@ export default function CustomerSelector({ customers, selectedCustomerName, sele
                                 </div>
                                 <div className="flex-1 min-w-0">
                                     <p className="text-sm text-white truncate">{c.name}</p>
-                                    {c.phone && <p className="text-xs text-slate-400">{c.phone}</p>}
+                                    {c.phone && <p className="text-xs text-slate-400">{formatPhone(c.phone)}</p>}
                                 </div>
                             </button>
                         ))}
@@ -137,7 +142,7 @@ export default function CustomerSelector({ customers, selectedCustomerName, sele
                             <div className="p-3 space-y-2">
                                 <input type="text" value={quickName} onChange={e => setQuickName(e.target.value)} placeholder="Müşteri adı *"
                                     className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1.5 px-3 text-sm text-white focus:border-violet-500 outline-none" autoFocus />
-                                <input type="text" value={quickPhone} onChange={e => setQuickPhone(e.target.value)} placeholder="Telefon"
+                                <PhoneInput value={quickPhone} onChange={setQuickPhone} placeholder="Telefon"
                                     className="w-full bg-slate-900 border border-slate-700 rounded-lg py-1.5 px-3 text-sm text-white focus:border-violet-500 outline-none" />
                                 <div className="flex gap-2">
                                     <button type="button" onClick={() => setShowQuickAdd(false)} className="flex-1 py-1.5 text-xs text-slate-400 hover:bg-surface-hover rounded-lg">İptal</button>
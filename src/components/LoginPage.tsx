@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AuthSession } from '../types';
+import * as api from '../utils/api';
+import { MIN_PASSWORD_LENGTH, saveSession } from '../utils/auth';
 
 interface LoginPageProps {
-    onLogin: () => void;
+    onLogin: (session: AuthSession) => void;
 }
 
 export default function LoginPage({ onLogin }: LoginPageProps) {
@@ -9,21 +12,44 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
+    // First run: no accounts yet, so the form creates the owner instead
+    const [setupMode, setSetupMode] = useState(false);
+    const [ownerName, setOwnerName] = useState('');
+    const [passwordRepeat, setPasswordRepeat] = useState('');
+    // Until the backend has answered it is unknown which form applies
+    const [setupCheck, setSetupCheck] = useState<'loading' | 'failed' | 'done'>('loading');
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const checkSetup = useCallback(() => {
+        setSetupCheck('loading');
+        api.needsAccountSetup()
+            .then(needed => { setSetupMode(needed); setSetupCheck('done'); })
+            .catch(() => setSetupCheck('failed'));
+    }, []);
+
+    useEffect(() => { checkSetup(); }, [checkSetup]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (!username.trim() || !password) { setError('Kullanıcı adı ve şifre zorunlu!'); return; }
+        if (setupMode) {
+            if (!ownerName.trim()) { setError('Ad soyad zorunlu!'); return; }
+            if (password.length < MIN_PASSWORD_LENGTH) { setError(`Şifre en az ${MIN_PASSWORD_LENGTH} karakter olmalı!`); return; }
+            if (password !== passwordRepeat) { setError('Şifreler eşleşmiyor!'); return; }
+        }
         setLoading(true);
         setError('');
-
-        setTimeout(() => {
-            if (username === 'technocep' && password === 'technocep') {
-                localStorage.setItem('isAuth', 'true');
-                onLogin();
-            } else {
-                setError('Kullanıcı adı veya şifre hatalı!');
-            }
+        try {
+            const session = setupMode
+                ? await api.setupOwnerAccount(ownerName, username, password)
+                : await api.login(username, password);
+            if (!session) { setError('Kullanıcı adı veya şifre hatalı!'); return; }
+            saveSession(session);
+            onLogin(session);
+        } catch (err) {
+            setError((err as Error).message || 'Sunucuya ulaşılamadı!');
+        } finally {
             setLoading(false);
-        }, 500);
+        }
     };
 
     return (
@@ -39,63 +65,107 @@ export default function LoginPage({ onLogin }: LoginPageProps) {
                         <span className="material-symbols-outlined text-primary text-4xl">inventory_2</span>
                     </div>
                     <h1 className="text-3xl font-bold text-white">StokTakip Pro</h1>
-                    <p className="text-slate-400 mt-2">Yönetici Paneline Hoş Geldiniz</p>
+                    <p className="text-slate-400 mt-2">{setupMode ? 'İlk yönetici hesabını oluşturun' : 'Yönetici Paneline Hoş Geldiniz'}</p>
                 </div>
 
                 {/* Login Card */}
                 <div className="glass-panel rounded-2xl p-8">
-                    <form onSubmit={handleSubmit} className="space-y-5">
-                        <div>
-                            <label className="block text-sm font-medium text-slate-300 mb-2">Kullanıcı Adı</label>
-                            <div className="relative">
-                                <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">person</span>
-                                <input
-                                    type="text"
-                                    value={username}
-                                    onChange={e => setUsername(e.target.value)}
-                                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
-                                    placeholder="Kullanıcı adınızı girin"
-                                    autoFocus
-                                />
+                    {setupCheck === 'failed' ? (
+                        <div className="space-y-4 text-center">
+                            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm text-left">
+                                <span className="material-symbols-outlined text-lg">cloud_off</span>
+                                Hesap bilgileri alınamadı. Bağlantınızı kontrol edip tekrar deneyin.
                             </div>
+                            <button onClick={checkSetup} className="w-full py-2.5 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium shadow-lg shadow-primary/25 flex items-center justify-center gap-2">
+                                <span className="material-symbols-outlined text-lg">refresh</span>Tekrar Dene
+                            </button>
                         </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-5">
+                            {setupMode && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-300 mb-2">Ad Soyad</label>
+                                    <div className="relative">
+                                        <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">badge</span>
+                                        <input
+                                            type="text"
+                                            value={ownerName}
+                                            onChange={e => setOwnerName(e.target.value)}
+                                            className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                                            placeholder="İşletme sahibi"
+                                        />
+                                    </div>
+                                </div>
+                            )}
 
-                        <div>
-                            <label className="block text-sm font-medium text-slate-300 mb-2">Şifre</label>
-                            <div className="relative">
-                                <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">lock</span>
-                                <input
-                                    type="password"
-                                    value={password}
-                                    onChange={e => setPassword(e.target.value)}
-                                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
-                                    placeholder="••••••••"
-                                />
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">Kullanıcı Adı</label>
+                                <div className="relative">
+                                    <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">person</span>
+                                    <input
+                                        type="text"
+                                        value={username}
+                                        onChange={e => setUsername(e.target.value)}
+                                        className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                                        placeholder="Kullanıcı adınızı girin"
+                                        autoFocus
+                                    />
+                                </div>
                             </div>
-                        </div>
 
-                        {error && (
-                            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
-                                <span className="material-symbols-outlined text-lg">error</span>
-                                {error}
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">Şifre</label>
+                                <div className="relative">
+                                    <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">lock</span>
+                                    <input
+                                        type="password"
+                                        value={password}
+                                        onChange={e => setPassword(e.target.value)}
+                                        className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                                        placeholder="••••••••"
+                                    />
+                                </div>
                             </div>
-                        )}
 
-                        <button
-                            type="submit"
-                            disabled={loading}
-                            className="w-full py-2.5 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium shadow-lg shadow-primary/25 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
-                        >
-                            {loading ? (
-                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
-                            ) : (
-                                <>
-                                    <span className="material-symbols-outlined text-lg">login</span>
-                                    Giriş Yap
-                                </>
+                            {setupMode && (
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-300 mb-2">Şifre (Tekrar)</label>
+                                    <div className="relative">
+                                        <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">lock</span>
+                                        <input
+                                            type="password"
+                                            value={passwordRepeat}
+                                            onChange={e => setPasswordRepeat(e.target.value)}
+                                            className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+                                            placeholder="••••••••"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            {error && (
+                                <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                                    <span className="material-symbols-outlined text-lg">error</span>
+                                    {error}
+                                </div>
                             )}
-                        </button>
-                    </form>
+
+                            <button
+                                type="submit"
+                                disabled={loading || setupCheck === 'loading'}
+                                className="w-full py-2.5 bg-primary hover:bg-primary-hover text-white rounded-lg font-medium shadow-lg shadow-primary/25 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                            >
+                                {loading ? (
+                                    <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
+                                ) : (
+                                    <>
+                                        <span className="material-symbols-outlined text-lg">{setupMode ? 'person_add' : 'login'}</span>
+                                        {setupMode ? 'Hesabı Oluştur' : 'Giriş Yap'}
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    )}
                 </div>
 
                 <p className="text-center text-slate-500 text-xs mt-6">© 2024 StokTakip Pro — Tüm hakları saklıdır.</p>
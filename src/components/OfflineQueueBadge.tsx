@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useToast } from './Toast';
+import { formatDateTime } from '../utils/helpers';
+import { getQueueState, subscribeQueue, startQueueReplay, flushQueue, retryConflict, discardConflict } from '../utils/offlineQueue';
+
+export default function OfflineQueueBadge({ onSynced }: { onSynced: () => void }) {
+    const { showToast } = useToast();
+    const { pending, conflicts, syncing } = useSyncExternalStore(subscribeQueue, getQueueState);
+    const [open, setOpen] = useState(false);
+    const conflictCount = useRef(conflicts.length);
+
+    useEffect(() => startQueueReplay(() => {
+        showToast('Bekleyen işlemler senkronize edildi', 'success');
+        onSynced();
+    }), [showToast, onSynced]);
+
+    useEffect(() => {
+        if (conflicts.length > conflictCount.current) {
+            showToast(`${conflicts.length - conflictCount.current} işlem sunucuya aktarılamadı!`, 'error');
+        }
+        conflictCount.current = conflicts.length;
+    }, [conflicts.length, showToast]);
+
+    if (pending.length === 0 && conflicts.length === 0) return null;
+
+    const handleSyncNow = async () => {
+        const drained = await flushQueue();
+        if (drained) onSynced();
+        else showToast('Bağlantı yok, işlemler beklemede', 'warning');
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(o => !o)}
+                className={`h-9 px-3 flex items-center gap-1.5 rounded-full text-xs font-semibold transition-all ${conflicts.length > 0
+                    ? 'text-red-400 bg-red-400/10 ring-1 ring-red-400/30'
+                    : 'text-amber-400 bg-amber-400/10 ring-1 ring-amber-400/30'
+                    }`}
+            >
+                <span className={`material-symbols-outlined text-lg ${syncing ? 'animate-spin' : ''}`}>
+                    {conflicts.length > 0 ? 'sync_problem' : 'cloud_upload'}
+                </span>
+                {pending.length > 0 && <span>{pending.length} işlem bekliyor</span>}
+                {conflicts.length > 0 && <span>{conflicts.length} çakışma</span>}
+            </button>
+
+            {open && (
+                <div className="absolute right-0 top-11 z-50 w-80 max-h-[70vh] overflow-y-auto bg-surface-dark border border-slate-700 rounded-2xl shadow-2xl p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-bold text-white">Senkronizasyon</h4>
+                        <button
+                            onClick={handleSyncNow}
+                            disabled={syncing || pending.length === 0}
+                            className="text-xs font-semibold text-primary hover:underline disabled:opacity-40"
+                        >Şimdi Dene</button>
+                    </div>
+
+                    {pending.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-[11px] uppercase tracking-wide text-slate-500">Bekleyen</p>
+                            {pending.map(p => (
+                                <div key={p.id} className="flex items-center justify-between text-xs bg-slate-800/60 rounded-lg px-2.5 py-1.5">
+                                    <span className="text-slate-200">{p.label}</span>
+                                    <span className="text-slate-500">{formatDateTime(p.queuedAt)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {conflicts.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-[11px] uppercase tracking-wide text-red-400">Aktarılamayanlar</p>
+                            {conflicts.map(c => (
+                                <div key={c.id} className="text-xs bg-red-500/5 border border-red-500/20 rounded-lg px-2.5 py-2 space-y-1">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-slate-200 font-medium">{c.label}</span>
+                                        <span className="text-slate-500">{formatDateTime(c.failedAt)}</span>
+                                    </div>
+                                    <p className="text-red-300 break-words">{c.error}</p>
+                                    <div className="flex gap-3 pt-0.5">
+                                        <button onClick={() => retryConflict(c.id).then(d => { if (d) onSynced(); })} className="text-primary font-semibold hover:underline">Tekrar Dene</button>
+                                        <button
+                                            onClick={() => { if (confirm('Bu işlem kalıcı olarak silinsin mi?')) discardConflict(c.id); }}
+                                            className="text-slate-400 hover:text-red-400"
+                                        >Vazgeç</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+import { useState } from 'react';
+import { getPhoneError } from '../utils/phone';
+
+interface PhoneInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    className: string;
+    placeholder?: string;
+    required?: boolean;
+    autoFocus?: boolean;
+}
+
+// Free-typed phone field; the inline error shows up once the field has been left
+export default function PhoneInput({ value, onChange, className, placeholder = '0532 123 45 67', required, autoFocus }: PhoneInputProps) {
+    const [touched, setTouched] = useState(false);
+    const error = touched ? getPhoneError(value, required) : null;
+
+    return (
+        <>
+            <input type="tel" value={value} onChange={e => onChange(e.target.value)} onBlur={() => setTouched(true)}
+                placeholder={placeholder} autoFocus={autoFocus}
+                className={`${className} ${error ? '!border-red-500' : ''}`} />
+            {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+        </>
+    );
+}
@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import { hasPermission } from '../utils/auth';
 
 type Currency = 'TRY' | 'USD';
 
@@ -26,9 +27,12 @@ export function usePriceVisibility() {
     return useContext(PriceVisibilityContext);
 }
 
-export function useFormatPrice() {
+// kind 'cost' (purchase prices / costs) is hidden entirely for roles without 'costs.view'
+export function useFormatPrice(kind: 'price' | 'cost' = 'price') {
     const { visible, currency, usdRate } = usePriceVisibility();
+    const allowed = kind === 'price' || hasPermission('costs.view');
     return (value: number): string => {
+        if (!allowed) return '—';
         let displayValue = value;
         if (currency === 'USD' && usdRate > 0) {
             displayValue = value / usdRate;
@@ -1,4 +1,9 @@
+import type { AuthSession } from '../types';
+import { canAccessView } from '../utils/auth';
+import { getStaffRoleInfo } from '../utils/staff';
+
 interface SidebarProps {
+    session: AuthSession;
     activeView: string;
     onViewChange: (view: string) => void;
     onLogout: () => void;
@@ -14,6 +19,7 @@ interface SidebarProps {
 const menuItems = [
     { id: 'sales', label: 'Satış & Raporlar', icon: 'dashboard' },
     { id: 'products', label: 'Ürünler', icon: 'inventory_2' },
+    { id: 'stockCount', label: 'Stok Sayımı', icon: 'fact_check' },
     { id: 'repairs', label: 'Tamir Kayıtları', icon: 'build' },
     { id: 'phoneSales', label: 'Telefon Satışları', icon: 'smartphone' },
     { id: 'customers', label: 'Müşteriler', icon: 'group' },
@@ -24,10 +30,13 @@ const menuItems = [
     { id: 'expenses', label: 'Giderler', icon: 'trending_down' },
     { id: 'suppliers', label: 'Tedarikçiler', icon: 'store' },
     { id: 'reminders', label: 'Hatırlatıcılar', icon: 'notifications_active' },
+    { id: 'staff', label: 'Personel', icon: 'badge' },
+    { id: 'auditLog', label: 'İşlem Geçmişi', icon: 'history' },
+    { id: 'trash', label: 'Çöp Kutusu', icon: 'delete' },
 ];
 
 export default function Sidebar({
-    activeView, onViewChange, onLogout, isOpen, onClose,
+    session, activeView, onViewChange, onLogout, isOpen, onClose,
     priceVisible, togglePrice, currency, setCurrency
 }: SidebarProps) {
     return (
@@ -57,7 +66,7 @@ export default function Sidebar({
                 {/* Navigation */}
                 <nav className="flex-1 px-4 space-y-1 overflow-y-auto scrollbar-thin">
                     <p className="px-2 text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2 mt-4">Menü</p>
-                    {menuItems.map(item => (
+                    {menuItems.filter(item => canAccessView(session.role, item.id)).map(item => (
                         <button
                             key={item.id}
                             onClick={() => onViewChange(item.id)}
@@ -122,8 +131,8 @@ export default function Sidebar({
                             <span className="material-symbols-outlined text-primary">person</span>
                         </div>
                         <div className="flex-1">
-                            <span className="text-sm font-semibold text-white block">Admin</span>
-                            <span className="text-xs text-slate-400">technocep</span>
+                            <span className="text-sm font-semibold text-white block">{session.name}</span>
+                            <span className="text-xs text-slate-400">{getStaffRoleInfo(session.role).label}</span>
                         </div>
                         <span className="material-symbols-outlined text-slate-400 hover:text-red-400 transition-colors">logout</span>
                     </div>
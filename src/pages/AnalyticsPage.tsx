@@ -1,18 +1,21 @@
 import { useState, useMemo } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
-import type { Sale, RepairRecord, PhoneSale, Expense } from '../types';
+import type { Sale, RepairRecord, PhoneSale, Expense, StaffMember } from '../types';
 import { useFormatPrice } from '../components/PriceVisibility';
+import { formatDuration, getRepairStatusDurations, getRepairStatusInfo, getRepairTurnaround, isReturnSale } from '../utils/helpers';
+import { getRepairTypeLabel, isWarrantyReturn } from '../utils/repairWarranty';
 
 interface AnalyticsPageProps {
     sales: Sale[];
     repairs: RepairRecord[];
     phoneSales: PhoneSale[];
     expenses: Expense[];
+    staff: StaffMember[];
 }
 
 const COLORS = ['#f42559', '#4144f1', '#25e2f4', '#2aef8c', '#f4ab25', '#a855f7', '#ec4899', '#f97316'];
 
-export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }: AnalyticsPageProps) {
+export default function AnalyticsPage({ sales, repairs, phoneSales, expenses, staff }: AnalyticsPageProps) {
     const fp = useFormatPrice();
 
     // Date filter state
@@ -131,11 +134,81 @@ export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }:
             if (!name) return;
             if (!map[name]) map[name] = { name, total: 0, count: 0 };
             map[name].total += s.totalPrice || s.repairCost || s.salePrice || 0;
-            map[name].count++;
+            if (!isReturnSale(s)) map[name].count++;
         });
         return Object.values(map).sort((a, b) => b.total - a.total).slice(0, 5);
     }, [fSales, fRepairs, fPhoneSales]);
 
+    // Repair turnaround (intake → delivery) and average time spent per status
+    const repairTimes = useMemo(() => {
+        const turnarounds = fRepairs.map(getRepairTurnaround).filter((t): t is number => t !== null);
+        const perStatus: Record<string, { total: number; count: number }> = {};
+        for (const r of fRepairs) {
+            for (const [status, ms] of Object.entries(getRepairStatusDurations(r))) {
+                if (!perStatus[status]) perStatus[status] = { total: 0, count: 0 };
+                perStatus[status].total += ms;
+                perStatus[status].count++;
+            }
+        }
+        const statuses = Object.entries(perStatus).map(([status, v]) => ({ status, avg: v.total / v.count, count: v.count }));
+        return {
+            avgTurnaround: turnarounds.length ? turnarounds.reduce((a, b) => a + b, 0) / turnarounds.length : null,
+            delivered: turnarounds.length,
+            statuses,
+            maxAvg: Math.max(1, ...statuses.map(s => s.avg)),
+        };
+    }, [fRepairs]);
+
+    // Warranty returns, by the type of the repair they came back for
+    const warrantyStats = useMemo(() => {
+        const returns = fRepairs.filter(isWarrantyReturn);
+        const byType: Record<string, number> = {};
+        for (const r of returns) {
+            const original = repairs.find(o => o.id === r.warrantyOf);
+            const label = original ? getRepairTypeLabel(original.repairType) : 'Bağlantısız';
+            byType[label] = (byType[label] || 0) + 1;
+        }
+        const regular = fRepairs.length - returns.length;
+        return {
+            count: returns.length,
+            cost: returns.reduce((s, r) => s + r.partsCost, 0),
+            rate: regular > 0 ? (returns.length / regular) * 100 : 0,
+            byType: Object.entries(byType).sort((a, b) => b[1] - a[1]),
+        };
+    }, [fRepairs, repairs]);
+
+    // Per technician; cancellations count here, so this starts from all repairs in range
+    const technicianStats = useMemo(() => {
+        const map: Record<string, { name: string; total: number; completed: number; cancelled: number; revenue: number; profit: number; turnarounds: number[]; warrantyBase: number; warrantyReturns: number }> = {};
+        for (const r of repairs) {
+            if (!r.technicianId) continue;
+            if (dateRange) {
+                const d = new Date(r.createdAt);
+                if (d < dateRange.start || d > dateRange.end) continue;
+            }
+            const name = staff.find(m => m.id === r.technicianId)?.name || r.technicianName || '—';
+            const t = map[r.technicianId] ??= { name, total: 0, completed: 0, cancelled: 0, revenue: 0, profit: 0, turnarounds: [], warrantyBase: 0, warrantyReturns: 0 };
+            t.total++;
+            if (r.status === 'cancelled') { t.cancelled++; continue; }
+            if (r.status === 'completed' || r.status === 'delivered') t.completed++;
+            t.revenue += r.repairCost;
+            t.profit += r.profit;
+            const turnaround = getRepairTurnaround(r);
+            if (turnaround !== null) t.turnarounds.push(turnaround);
+            // Warranty-return rate: this technician's own repairs that later came back
+            if (!isWarrantyReturn(r)) {
+                t.warrantyBase++;
+                if (repairs.some(o => o.warrantyOf === r.id)) t.warrantyReturns++;
+            }
+        }
+        return Object.entries(map).map(([id, t]) => ({
+            id, name: t.name, total: t.total, completed: t.completed, revenue: t.revenue, profit: t.profit,
+            avgTurnaround: t.turnarounds.length ? t.turnarounds.reduce((a, b) => a + b, 0) / t.turnarounds.length : null,
+            cancelRate: t.total > 0 ? (t.cancelled / t.total) * 100 : 0,
+            warrantyRate: t.warrantyBase > 0 ? (t.warrantyReturns / t.warrantyBase) * 100 : 0,
+        })).sort((a, b) => b.completed - a.completed);
+    }, [repairs, staff, dateRange]);
+
     // Summary stats
     const totalRevenue = fSales.reduce((s, v) => s + v.totalPrice, 0)
         + fRepairs.reduce((s, v) => s + v.repairCost, 0)
@@ -144,6 +217,8 @@ export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }:
         + fRepairs.reduce((s, v) => s + v.profit, 0)
         + fPhoneSales.reduce((s, v) => s + v.profit, 0);
     const totalExpenses = fExpenses.reduce((s, v) => s + v.amount, 0);
+    // Already netted into the totals above (return documents are negative sales)
+    const totalRefunds = fSales.filter(isReturnSale).reduce((s, v) => s + v.totalPrice, 0);
     const netProfit = totalProfit - totalExpenses;
 
     return (
@@ -173,7 +248,7 @@ export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }:
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {[
-                    { label: 'Toplam Ciro', value: fp(totalRevenue), color: 'text-blue-400' },
+                    { label: 'Toplam Ciro', value: fp(totalRevenue), color: 'text-blue-400', sub: totalRefunds < 0 ? `İadeler: ${fp(totalRefunds)}` : '' },
                     { label: 'Toplam Kâr', value: fp(totalProfit), color: 'text-emerald-400' },
                     { label: 'Toplam Gider', value: fp(totalExpenses), color: 'text-red-400' },
                     { label: 'Net Kâr', value: fp(netProfit), color: netProfit >= 0 ? 'text-emerald-400' : 'text-red-400' },
@@ -181,6 +256,7 @@ export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }:
                     <div key={card.label} className="glass-panel p-5 rounded-xl">
                         <p className="text-slate-400 text-sm mb-1">{card.label}</p>
                         <h3 className={`text-2xl font-bold ${card.color}`}>{card.value}</h3>
+                        {'sub' in card && card.sub && <p className="text-xs text-red-400 mt-1">{card.sub}</p>}
                     </div>
                 ))}
             </div>
@@ -251,6 +327,92 @@ export default function AnalyticsPage({ sales, repairs, phoneSales, expenses }:
                 </div>
             </div>
 
+            {/* Repair Times */}
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-white">⏱️ Tamir Süreleri</h3>
+                    <div className="text-right">
+                        <p className="text-xs text-slate-400">Ortalama Teslim Süresi ({repairTimes.delivered} cihaz)</p>
+                        <p className="text-xl font-bold text-amber-400">{repairTimes.avgTurnaround !== null ? formatDuration(repairTimes.avgTurnaround) : '—'}</p>
+                    </div>
+                </div>
+                {repairTimes.statuses.length === 0 ? <p className="text-slate-400 text-sm">Veri yok</p> : (
+                    <div className="space-y-3">
+                        {repairTimes.statuses.map(s => {
+                            const info = getRepairStatusInfo(s.status);
+                            return (
+                                <div key={s.status} className="space-y-1">
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-slate-300">{info.label} <span className="text-xs text-slate-500">({s.count} tamir)</span></span>
+                                        <span className="text-white font-medium">{formatDuration(s.avg)}</span>
+                                    </div>
+                                    <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                                        <div className={`h-full rounded-full ${info.color.split(' ')[0]}`} style={{ width: `${(s.avg / repairTimes.maxAvg) * 100}%` }}></div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Warranty Returns */}
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">🛡️ Garanti Dönüşleri</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <div className="p-4 rounded-lg bg-slate-800/50">
+                        <p className="text-xs text-slate-400">Garanti Dönüşü</p>
+                        <p className="text-xl font-bold text-violet-400">{warrantyStats.count}</p>
+                    </div>
+                    <div className="p-4 rounded-lg bg-slate-800/50">
+                        <p className="text-xs text-slate-400">Dönüş Oranı</p>
+                        <p className="text-xl font-bold text-amber-400">%{warrantyStats.rate.toFixed(1)}</p>
+                    </div>
+                    <div className="p-4 rounded-lg bg-slate-800/50">
+                        <p className="text-xs text-slate-400">Garanti Maliyeti (Parça)</p>
+                        <p className="text-xl font-bold text-red-400">{fp(warrantyStats.cost)}</p>
+                    </div>
+                </div>
+                {warrantyStats.byType.length === 0 ? <p className="text-slate-400 text-sm">Veri yok</p> : (
+                    <div className="space-y-2">
+                        {warrantyStats.byType.map(([label, count]) => (
+                            <div key={label} className="flex items-center justify-between text-sm p-2.5 rounded-lg bg-slate-800/50">
+                                <span className="text-slate-300">{label}</span>
+                                <span className="text-white font-medium">{count} dönüş</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Technicians */}
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">🧑‍🔧 Teknisyen Performansı</h3>
+                {technicianStats.length === 0 ? <p className="text-slate-400 text-sm">Veri yok</p> : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead><tr className="text-xs uppercase text-slate-400 border-b border-slate-700">
+                                <th className="p-2 text-left">Teknisyen</th><th className="p-2 text-right">Tamamlanan</th><th className="p-2 text-right">Ort. Teslim</th>
+                                <th className="p-2 text-right">Gelir</th><th className="p-2 text-right">Kâr</th><th className="p-2 text-right">İptal</th><th className="p-2 text-right">Garanti Dönüşü</th>
+                            </tr></thead>
+                            <tbody className="divide-y divide-slate-700/50">
+                                {technicianStats.map(t => (
+                                    <tr key={t.id}>
+                                        <td className="p-2 text-white">{t.name}<span className="text-xs text-slate-500 ml-2">({t.total} kayıt)</span></td>
+                                        <td className="p-2 text-right text-emerald-400 font-medium">{t.completed}</td>
+                                        <td className="p-2 text-right text-amber-400">{t.avgTurnaround !== null ? formatDuration(t.avgTurnaround) : '—'}</td>
+                                        <td className="p-2 text-right text-white">{fp(t.revenue)}</td>
+                                        <td className="p-2 text-right text-emerald-400">{fp(t.profit)}</td>
+                                        <td className="p-2 text-right text-red-400">%{t.cancelRate.toFixed(1)}</td>
+                                        <td className="p-2 text-right text-violet-400">%{t.warrantyRate.toFixed(1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
             {/* Leaderboards */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="bg-surface-dark border border-slate-700/50 rounded-xl p-6">
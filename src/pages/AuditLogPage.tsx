@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AuditAction, AuditEntity, AuditEntry } from '../types';
+import { formatDateTime, getRecordLabel } from '../utils/helpers';
+import { useToast } from '../components/Toast';
+import * as api from '../utils/api';
+
+interface AuditLogPageProps {
+    // Reloads the panel data after a record was restored
+    onRestored: () => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+    categories: 'Kategori', products: 'Ürün', sales: 'Satış', repairs: 'Tamir', phoneSales: 'Telefon Satışı',
+    phoneStocks: 'Telefon Stoğu', expenses: 'Gider', customerRequests: 'İstek', suppliers: 'Tedarikçi',
+    purchases: 'Alış', purchaseItems: 'Alış Kalemi', cariHareketler: 'Cari Hareket', payments: 'Ödeme',
+    customers: 'Müşteri', musteriHareketler: 'Müşteri Hareketi', reminders: 'Hatırlatıcı', stockMovements: 'Stok Hareketi', staff: 'Personel',
+};
+
+const ACTION_INFO: Record<AuditAction, { label: string; color: string; icon: string }> = {
+    create: { label: 'Ekleme', color: 'bg-emerald-500/10 text-emerald-400', icon: 'add_circle' },
+    update: { label: 'Güncelleme', color: 'bg-blue-500/10 text-blue-400', icon: 'edit' },
+    delete: { label: 'Silme', color: 'bg-red-500/10 text-red-400', icon: 'delete' },
+    restore: { label: 'Geri Yükleme', color: 'bg-amber-500/10 text-amber-400', icon: 'restore' },
+};
+
+const PAGE_SIZE = 100;
+
+function describeRecord(entry: AuditEntry): string {
+    return getRecordLabel(entry.after || entry.before || {}) || entry.entityId;
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Evet' : 'Hayır';
+    if (typeof value === 'object') {
+        const json = JSON.stringify(value);
+        return json.length > 80 ? `${json.slice(0, 80)}…` : json;
+    }
+    return String(value);
+}
+
+function changedFields(before: Record<string, unknown> = {}, after: Record<string, unknown> = {}) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys
+        .filter(k => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+        .map(k => ({ key: k, from: before[k], to: after[k] }));
+}
+
+export default function AuditLogPage({ onRestored }: AuditLogPageProps) {
+    const { showToast } = useToast();
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [search, setSearch] = useState('');
+    const [entityFilter, setEntityFilter] = useState<AuditEntity | 'all'>('all');
+    const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all');
+    const [userFilter, setUserFilter] = useState('all');
+    const [customStart, setCustomStart] = useState('');
+    const [customEnd, setCustomEnd] = useState('');
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const [restoring, setRestoring] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        api.getAuditLog()
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(() => {
+                if (cancelled) return;
+                setEntries([]);
+                showToast('İşlem geçmişi yüklenemedi', 'error');
+            });
+        return () => { cancelled = true; };
+    }, [reloadKey, showToast]);
+
+    const users = useMemo(() => [...new Set((entries || []).map(e => e.user))].sort((a, b) => a.localeCompare(b, 'tr')), [entries]);
+
+    // Latest restore per record, so a delete that was already undone can't be restored twice
+    const restoredAt = useMemo(() => {
+        const map: Record<string, string> = {};
+        (entries || []).forEach(e => {
+            const key = `${e.entity}:${e.entityId}`;
+            if (e.action === 'restore' && (!map[key] || e.createdAt > map[key])) map[key] = e.createdAt;
+        });
+        return map;
+    }, [entries]);
+
+    const filtered = useMemo(() => {
+        const q = search.trim().toLowerCase();
+        return (entries || [])
+            .filter(e => {
+                if (entityFilter !== 'all' && e.entity !== entityFilter) return false;
+                if (actionFilter !== 'all' && e.action !== actionFilter) return false;
+                if (userFilter !== 'all' && e.user !== userFilter) return false;
+                const day = e.createdAt.slice(0, 10);
+                if (customStart && day < customStart) return false;
+                if (customEnd && day > customEnd) return false;
+                if (q && !e.entityId.toLowerCase().includes(q) && !describeRecord(e).toLowerCase().includes(q)) return false;
+                return true;
+            })
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }, [entries, search, entityFilter, actionFilter, userFilter, customStart, customEnd]);
+
+    const canRestore = (e: AuditEntry) => {
+        if (e.action !== 'delete' || !e.before) return false;
+        const restored = restoredAt[`${e.entity}:${e.entityId}`];
+        return !restored || restored < e.createdAt;
+    };
+
+    const handleRestore = async (e: AuditEntry) => {
+        if (!confirm(`${ENTITY_LABELS[e.entity]} kaydı "${describeRecord(e)}" geri yüklensin mi?\nStok ve bakiye etkileri otomatik geri alınmaz.`)) return;
+        setRestoring(e.id);
+        try {
+            await api.restoreAuditEntry(e);
+            showToast('Kayıt geri yüklendi!');
+            setReloadKey(k => k + 1);
+            onRestored();
+        } catch (err) {
+            showToast(`Geri yüklenemedi: ${(err as Error).message}`, 'error');
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    const resetFilters = () => {
+        setSearch(''); setEntityFilter('all'); setActionFilter('all'); setUserFilter('all'); setCustomStart(''); setCustomEnd('');
+        setVisibleCount(PAGE_SIZE);
+    };
+
+    const selectClass = 'bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none';
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+            <div className="flex justify-between items-center">
+                <div><h2 className="text-2xl font-bold text-white">İşlem Geçmişi</h2><p className="text-slate-400 text-sm mt-1">Tüm ekleme, güncelleme ve silme işlemleri</p></div>
+                <button onClick={() => setReloadKey(k => k + 1)} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2">
+                    <span className="material-symbols-outlined text-lg">refresh</span>Yenile
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap gap-3 items-center bg-surface-dark border border-slate-700/50 p-4 rounded-xl">
+                <div className="relative flex-1 min-w-[220px]">
+                    <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">search</span>
+                    <input type="text" value={search} onChange={e => { setSearch(e.target.value); setVisibleCount(PAGE_SIZE); }} placeholder="Kayıt adı veya ID ara..."
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" />
+                </div>
+                <select value={entityFilter} onChange={e => { setEntityFilter(e.target.value as AuditEntity | 'all'); setVisibleCount(PAGE_SIZE); }} className={selectClass}>
+                    <option value="all">Tüm kayıtlar</option>
+                    {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(k => <option key={k} value={k}>{ENTITY_LABELS[k]}</option>)}
+                </select>
+                <select value={actionFilter} onChange={e => { setActionFilter(e.target.value as AuditAction | 'all'); setVisibleCount(PAGE_SIZE); }} className={selectClass}>
+                    <option value="all">Tüm işlemler</option>
+                    {(Object.keys(ACTION_INFO) as AuditAction[]).map(k => <option key={k} value={k}>{ACTION_INFO[k].label}</option>)}
+                </select>
+                <select value={userFilter} onChange={e => { setUserFilter(e.target.value); setVisibleCount(PAGE_SIZE); }} className={selectClass}>
+                    <option value="all">Tüm kullanıcılar</option>
+                    {users.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+                <div className="flex items-center gap-1">
+                    <input type="date" value={customStart} onChange={e => setCustomStart(e.target.value)}
+                        className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white focus:border-primary outline-none" />
+                    <span className="text-slate-500 text-xs">—</span>
+                    <input type="date" value={customEnd} onChange={e => setCustomEnd(e.target.value)}
+                        className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white focus:border-primary outline-none" />
+                </div>
+                <button onClick={resetFilters} className="px-3 py-2 rounded-lg text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700">Temizle</button>
+            </div>
+
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl overflow-x-auto">
+                <table className="w-full text-left min-w-[800px]">
+                    <thead><tr className="bg-slate-800/50 border-b border-slate-700 text-xs uppercase text-slate-400 font-semibold tracking-wider">
+                        <th className="p-4">Tarih</th><th className="p-4">Kullanıcı</th><th className="p-4">İşlem</th>
+                        <th className="p-4">Kayıt</th><th className="p-4 text-center">Detay</th>
+                    </tr></thead>
+                    <tbody className="divide-y divide-slate-700/50 text-sm">
+                        {entries === null ? (
+                            <tr><td colSpan={5} className="text-center py-16">
+                                <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent mx-auto"></div>
+                            </td></tr>
+                        ) : filtered.length === 0 ? (
+                            <tr><td colSpan={5} className="text-center py-16 text-slate-400">
+                                <span className="material-symbols-outlined text-6xl mb-4 block">history</span><p>Kayıt yok</p>
+                            </td></tr>
+                        ) : filtered.slice(0, visibleCount).map(e => {
+                            const action = ACTION_INFO[e.action];
+                            const isOpen = expanded === e.id;
+                            const changes = e.action === 'update' ? changedFields(e.before, e.after) : [];
+                            const snapshot = e.after || e.before || {};
+                            return [
+                                <tr key={e.id} className="hover:bg-surface-hover/30 transition-colors">
+                                    <td className="p-4 text-slate-400 whitespace-nowrap">{formatDateTime(e.createdAt)}</td>
+                                    <td className="p-4 text-white">{e.user}</td>
+                                    <td className="p-4">
+                                        <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium ${action.color}`}>
+                                            <span className="material-symbols-outlined text-sm">{action.icon}</span>{action.label}
+                                        </span>
+                                    </td>
+                                    <td className="p-4">
+                                        <p className="text-white font-medium truncate max-w-xs">{describeRecord(e)}</p>
+                                        <p className="text-xs text-slate-500">{ENTITY_LABELS[e.entity] || e.entity}{e.action === 'update' && ` · ${changes.length} alan`}</p>
+                                    </td>
+                                    <td className="p-4">
+                                        <div className="flex items-center justify-center gap-1">
+                                            <button onClick={() => setExpanded(isOpen ? null : e.id)} title="Detay" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700">
+                                                <span className="material-symbols-outlined text-lg">{isOpen ? 'expand_less' : 'expand_more'}</span>
+                                            </button>
+                                            {canRestore(e) && (
+                                                <button onClick={() => handleRestore(e)} disabled={restoring === e.id} title="Geri yükle" className="p-1.5 rounded-lg text-amber-400 hover:bg-amber-500/10 disabled:opacity-50">
+                                                    <span className="material-symbols-outlined text-lg">restore</span>
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>,
+                                isOpen && (
+                                    <tr key={`${e.id}-detail`} className="bg-slate-800/30">
+                                        <td colSpan={5} className="p-4">
+                                            <p className="text-xs text-slate-500 mb-2">Kayıt ID: <span className="font-mono">{e.entityId}</span></p>
+                                            {e.action === 'update' ? (
+                                                changes.length === 0 ? <p className="text-slate-400 text-xs">Değişen alan yok</p> : (
+                                                    <div className="space-y-1 text-xs">
+                                                        {changes.map(c => (
+                                                            <div key={c.key} className="grid grid-cols-[160px_1fr_auto_1fr] gap-2 items-center">
+                                                                <span className="text-slate-400 font-mono">{c.key}</span>
+                                                                <span className="text-red-300 break-all">{formatValue(c.from)}</span>
+                                                                <span className="material-symbols-outlined text-slate-500 text-sm">arrow_forward</span>
+                                                                <span className="text-emerald-300 break-all">{formatValue(c.to)}</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )
+                                            ) : (
+                                                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+                                                    {Object.entries(snapshot).map(([k, v]) => (
+                                                        <div key={k} className="flex justify-between gap-3">
+                                                            <span className="text-slate-400 font-mono">{k}</span>
+                                                            <span className="text-white text-right break-all">{formatValue(v)}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ),
+                            ];
+                        })}
+                    </tbody>
+                </table>
+                {filtered.length > visibleCount && (
+                    <div className="p-4 border-t border-slate-700/50 text-center">
+                        <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700">
+                            Daha fazla göster ({filtered.length - visibleCount})
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
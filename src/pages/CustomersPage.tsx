@@ -1,9 +1,17 @@
 import { useState, useMemo } from 'react';
-import type { RepairRecord, PhoneSale, Sale, Customer } from '../types';
-import { formatDate } from '../utils/helpers';
+import type { RepairRecord, PhoneSale, Sale, Customer, MusteriHareket } from '../types';
+import { formatDate, isReturnSale } from '../utils/helpers';
+import { MUSTERI_HAREKET_TIPLERI, buildCustomerStatement, computeCustomerBalances, getBakiyeEtkisi, getHareketTipiInfo } from '../utils/customerLedger';
+import { buildAccountStatement, formatStatementBalance, printAccountStatement, renderStatementSummary } from '../utils/customerStatement';
+import { isWhatsAppConfigured, sendWhatsAppMessage } from '../utils/whatsapp';
+import { proposeCustomerLinks } from '../utils/customerLinks';
+import { findDuplicateCustomers, getDuplicateReasonLabel, mergeCustomerFields, normalizeCustomerName } from '../utils/customerDuplicates';
+import { formatPhone, getPhoneError, normalizePhone, phoneKey } from '../utils/phone';
+import PhoneInput from '../components/PhoneInput';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
+import { isNetworkError } from '../utils/offlineQueue';
 
 interface CustomersPageProps {
     repairs: RepairRecord[];
@@ -11,28 +19,57 @@ interface CustomersPageProps {
     sales: Sale[];
     customers: Customer[];
     setCustomers: (c: Customer[]) => void;
+    hareketler: MusteriHareket[];
+    setHareketler: (h: MusteriHareket[]) => void;
+    // Reloads sales / repairs / phone sales after the backfill or a merge re-linked them
+    onLinked: () => void;
 }
 
 type PeriodFilter = 'thisMonth' | 'lastMonth' | 'all' | 'custom';
 
-export default function CustomersPage({ repairs, phoneSales, sales, customers, setCustomers }: CustomersPageProps) {
+function toDateInput(d: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export default function CustomersPage({ repairs, phoneSales, sales, customers, setCustomers, hareketler, setHareketler, onLinked }: CustomersPageProps) {
     const fp = useFormatPrice();
+    const fc = useFormatPrice('cost');
     const { showToast } = useToast();
     const [search, setSearch] = useState('');
     const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
     const [sortBy, setSortBy] = useState<'name' | 'totalSpent' | 'lastTransaction' | 'transactions'>('lastTransaction');
     const [showModal, setShowModal] = useState(false);
     const [editing, setEditing] = useState<Customer | null>(null);
-    const [form, setForm] = useState({ name: '', phone: '', email: '', address: '', notes: '' });
+    const [form, setForm] = useState({ name: '', phone: '', email: '', address: '', notes: '', notificationsOptOut: false });
     const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
     const [importing, setImporting] = useState(false);
 
+    // Customer link backfill: '<entity>:<id>' → picked customer id ('' = skip)
+    const [showLinkModal, setShowLinkModal] = useState(false);
+    const [linkChoices, setLinkChoices] = useState<Record<string, string>>({});
+    const [linking, setLinking] = useState(false);
+
+    // Duplicate finder: group key → surviving customer id
+    const [showDupModal, setShowDupModal] = useState(false);
+    const [dupSurvivors, setDupSurvivors] = useState<Record<string, string>>({});
+    const [merging, setMerging] = useState<string | null>(null);
+
     // Cari (borç/alacak) state
     const [showTxModal, setShowTxModal] = useState(false);
     const [txCustomer, setTxCustomer] = useState<Customer | null>(null);
-    const [txType, setTxType] = useState<'debt' | 'credit' | 'payment_received' | 'payment_made'>('debt');
+    const [txType, setTxType] = useState<MusteriHareket['islemTipi']>('borc');
     const [txAmount, setTxAmount] = useState(0);
     const [txDesc, setTxDesc] = useState('');
+    const [txDate, setTxDate] = useState('');
+    // '<ilgiliTip>:<id>' of the related sale / repair / phone sale, '' for none
+    const [txRelated, setTxRelated] = useState('');
+
+    // Account statement (ekstre) state
+    const [stmtCustomer, setStmtCustomer] = useState<Customer | null>(null);
+    const [stmtFrom, setStmtFrom] = useState('');
+    const [stmtTo, setStmtTo] = useState('');
+    const [stmtSending, setStmtSending] = useState(false);
 
     // Period filter state
     const [period, setPeriod] = useState<PeriodFilter>('thisMonth');
@@ -68,18 +105,9 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
             return map.get(customerId)!;
         };
 
-        // Match by name/phone to customer
-        const findCustomer = (name: string, phone: string): Customer | undefined => {
-            const n = (name || '').trim().toLowerCase();
-            const p = (phone || '').trim();
-            return customers.find(c => {
-                const cn = c.name.toLowerCase();
-                const cp = (c.phone || '').trim();
-                if (p && cp && p === cp) return true;
-                if (n && cn === n) return true;
-                return false;
-            });
-        };
+        // Only linked records count; older ones are linked through the backfill
+        const customerIds = new Set(customers.map(c => c.id));
+        const linkedTo = (customerId?: string) => customerId && customerIds.has(customerId) ? customerId : null;
 
         const start = getStartDate().getTime();
         const end = getEndDate().getTime();
@@ -87,9 +115,9 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
         for (const r of repairs) {
             const date = new Date(r.createdAt).getTime();
             if (date < start || date > end) continue;
-            const c = findCustomer(r.customerName, r.customerPhone);
-            if (!c) continue;
-            const s = getOrCreate(c.id);
+            const customerId = linkedTo(r.customerId);
+            if (!customerId) continue;
+            const s = getOrCreate(customerId);
             s.totalSpent += r.repairCost; s.totalProfit += r.profit; s.repairCount++;
             s.repairs.push(r);
             if (!s.lastTx || r.createdAt > s.lastTx) s.lastTx = r.createdAt;
@@ -98,9 +126,9 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
         for (const ps of phoneSales) {
             const date = new Date(ps.date).getTime();
             if (date < start || date > end) continue;
-            const c = findCustomer(ps.customerName || '', ps.customerPhone || '');
-            if (!c) continue;
-            const s = getOrCreate(c.id);
+            const customerId = linkedTo(ps.customerId);
+            if (!customerId) continue;
+            const s = getOrCreate(customerId);
             s.totalSpent += ps.salePrice; s.totalProfit += ps.profit; s.phoneSaleCount++;
             s.phoneSales.push(ps);
             if (!s.lastTx || ps.date > s.lastTx) s.lastTx = ps.date;
@@ -109,11 +137,12 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
         for (const sl of sales) {
             const date = new Date(sl.date).getTime();
             if (date < start || date > end) continue;
-            if (!sl.customerInfo?.name && !sl.customerInfo?.phone) continue;
-            const c = findCustomer(sl.customerInfo?.name || '', sl.customerInfo?.phone || '');
-            if (!c) continue;
-            const s = getOrCreate(c.id);
-            s.totalSpent += sl.totalPrice; s.totalProfit += sl.totalProfit; s.productSaleCount++;
+            const customerId = linkedTo(sl.customerId);
+            if (!customerId) continue;
+            const s = getOrCreate(customerId);
+            // Returns are negative documents: they reduce spend but are not extra purchases
+            s.totalSpent += sl.totalPrice; s.totalProfit += sl.totalProfit;
+            if (!isReturnSale(sl)) s.productSaleCount++;
             s.productSales.push(sl);
             if (!s.lastTx || sl.date > s.lastTx) s.lastTx = sl.date;
         }
@@ -146,35 +175,92 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
     const selectedStats = selectedCustomer ? customerStats.get(selectedCustomer.id) : null;
 
 
-    // Cari totals
-    const totalDebt = customers.reduce((s, c) => s + (c.debt || 0), 0);
-    const totalCredit = customers.reduce((s, c) => s + (c.credit || 0), 0);
+    // Cari balances, derived from the movement ledger (positive = customer owes us)
+    const balances = useMemo(() => computeCustomerBalances(customers, hareketler), [customers, hareketler]);
+    const totalDebt = [...balances.values()].reduce((s, b) => s + Math.max(0, b), 0);
+    const totalCredit = [...balances.values()].reduce((s, b) => s + Math.max(0, -b), 0);
     const netBalance = totalDebt - totalCredit;
 
+    const statement = useMemo(() => selectedCustomer ? buildCustomerStatement(selectedCustomer, hareketler) : [], [selectedCustomer, hareketler]);
+
+    // Every sale / repair / phone sale of the dialog's customer, newest first
+    const txRelatedOptions = useMemo(() => {
+        if (!txCustomer) return [];
+        const options: { value: string; label: string; date: string }[] = [];
+        repairs.filter(r => r.customerId === txCustomer.id)
+            .forEach(r => options.push({ value: `repair:${r.id}`, label: `Tamir · ${r.deviceInfo} · ${fp(r.repairCost)}`, date: r.createdAt }));
+        sales.filter(s => s.customerId === txCustomer.id)
+            .forEach(s => options.push({ value: `sale:${s.id}`, label: `Satış · ${s.items.map(i => i.productName).join(', ')} · ${fp(s.totalPrice)}`, date: s.date }));
+        phoneSales.filter(ps => ps.customerId === txCustomer.id)
+            .forEach(ps => options.push({ value: `phoneSale:${ps.id}`, label: `Telefon · ${ps.brand} ${ps.model} · ${fp(ps.salePrice)}`, date: ps.date }));
+        return options.sort((a, b) => b.date.localeCompare(a.date));
+    }, [txCustomer, repairs, sales, phoneSales, fp]);
+
+    const accountStatement = useMemo(() => {
+        if (!stmtCustomer || !stmtFrom || !stmtTo) return null;
+        return buildAccountStatement(stmtCustomer, {
+            sales: sales.filter(s => s.customerId === stmtCustomer.id),
+            repairs: repairs.filter(r => r.customerId === stmtCustomer.id),
+            phoneSales: phoneSales.filter(ps => ps.customerId === stmtCustomer.id),
+            hareketler,
+        }, stmtFrom, stmtTo);
+    }, [stmtCustomer, stmtFrom, stmtTo, sales, repairs, phoneSales, hareketler]);
+
+    // The statement starts on the page's period filter
+    const openStatement = (c: Customer) => {
+        setStmtCustomer(c);
+        setStmtFrom(toDateInput(period === 'all' ? new Date(c.createdAt || getStartDate()) : getStartDate()));
+        setStmtTo(toDateInput(getEndDate()));
+    };
+
+    const handlePrintStatement = (asPdf: boolean) => {
+        if (!accountStatement) return;
+        if (stmtFrom > stmtTo) { showToast('Başlangıç tarihi bitişten sonra olamaz!', 'error'); return; }
+        if (!printAccountStatement(accountStatement)) { showToast('Yazdırma penceresi açılamadı!', 'error'); return; }
+        if (asPdf) showToast('Yazıcı olarak "PDF olarak kaydet" seçin', 'warning');
+    };
+
+    const handleSendStatement = async () => {
+        if (!accountStatement || !stmtCustomer) return;
+        if (!stmtCustomer.phone) { showToast('Müşteri telefonu yok!', 'error'); return; }
+        if (!isWhatsAppConfigured()) { showToast('WhatsApp ayarları eksik (Hatırlatıcılar sayfası)', 'error'); return; }
+        setStmtSending(true);
+        try {
+            await sendWhatsAppMessage(stmtCustomer.phone, renderStatementSummary(accountStatement));
+            showToast('Ekstre özeti WhatsApp ile gönderildi');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Gönderilemedi!', 'error');
+        } finally {
+            setStmtSending(false);
+        }
+    };
+
     // Open transaction dialog
     const openTxDialog = (c: Customer) => {
         setTxCustomer(c);
-        setTxType('debt');
+        setTxType('borc');
         setTxAmount(0);
         setTxDesc('');
+        setTxDate(new Date().toISOString().slice(0, 10));
+        setTxRelated('');
         setShowTxModal(true);
     };
 
-    // Handle transaction
+    // Each transaction is a new ledger row; the customer record itself is not touched
     const handleAddTransaction = async () => {
         if (!txCustomer || txAmount <= 0) { showToast('Geçerli bir tutar girin!', 'error'); return; }
         try {
-            let newDebt = txCustomer.debt || 0;
-            let newCredit = txCustomer.credit || 0;
-            switch (txType) {
-                case 'debt': newDebt += txAmount; break;
-                case 'credit': newCredit += txAmount; break;
-                case 'payment_received': newDebt = Math.max(0, newDebt - txAmount); break;
-                case 'payment_made': newCredit = Math.max(0, newCredit - txAmount); break;
-            }
-            const updated = { ...txCustomer, debt: newDebt, credit: newCredit };
-            await api.saveCustomer(updated);
-            setCustomers(customers.map(c => c.id === txCustomer.id ? updated : c));
+            const [ilgiliTip, ilgiliId] = txRelated ? txRelated.split(':') as [MusteriHareket['ilgiliTip'], string] : [undefined, undefined];
+            const created = await api.saveMusteriHareket({
+                customerId: txCustomer.id,
+                islemTarihi: txDate ? new Date(txDate).toISOString() : new Date().toISOString(),
+                islemTipi: txType,
+                miktar: txAmount,
+                aciklama: txDesc.trim() || getHareketTipiInfo(txType).label,
+                ilgiliId, ilgiliTip,
+                bakiyeEtkisi: getBakiyeEtkisi(txType, txAmount),
+            });
+            if (created) setHareketler([...hareketler, created]);
             setShowTxModal(false);
             showToast('İşlem kaydedildi!');
         } catch { showToast('İşlem kaydedilemedi!', 'error'); }
@@ -182,24 +268,27 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
 
     const openCreate = () => {
         setEditing(null);
-        setForm({ name: '', phone: '', email: '', address: '', notes: '' });
+        setForm({ name: '', phone: '', email: '', address: '', notes: '', notificationsOptOut: false });
         setShowModal(true);
     };
 
     const openEdit = (c: Customer) => {
         setEditing(c);
-        setForm({ name: c.name, phone: c.phone || '', email: c.email || '', address: c.address || '', notes: c.notes || '' });
+        setForm({ name: c.name, phone: c.phone || '', email: c.email || '', address: c.address || '', notes: c.notes || '', notificationsOptOut: !!c.notificationsOptOut });
         setShowModal(true);
     };
 
     const handleSave = async () => {
         if (!form.name.trim()) { showToast('Müşteri adı zorunlu!', 'error'); return; }
+        const phoneError = getPhoneError(form.phone);
+        if (phoneError) { showToast(phoneError, 'error'); return; }
+        const data = { ...form, phone: normalizePhone(form.phone) };
         try {
             if (editing) {
-                const result = await api.saveCustomer({ ...editing, ...form });
-                if (result) setCustomers(customers.map(c => c.id === editing.id ? { ...editing, ...form, ...(result as unknown as Customer) } : c));
+                const result = await api.saveCustomer({ ...editing, ...data });
+                if (result) setCustomers(customers.map(c => c.id === editing.id ? { ...editing, ...data, ...(result as unknown as Customer) } : c));
             } else {
-                const result = await api.saveCustomer(form);
+                const result = await api.saveCustomer(data);
                 if (result) setCustomers([result as unknown as Customer, ...customers]);
             }
             setShowModal(false);
@@ -209,11 +298,11 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
 
     const handleDelete = async (id: string) => {
         try {
-            await api.deleteCustomer(id);
+            await api.deleteCustomer(id, customers.find(c => c.id === id));
             setCustomers(customers.filter(c => c.id !== id));
             if (selectedCustomerId === id) setSelectedCustomerId(null);
             setDeleteTarget(null);
-            showToast('Müşteri silindi!');
+            showToast('Müşteri çöp kutusuna taşındı!');
         } catch { showToast('Hata!', 'error'); }
     };
 
@@ -221,27 +310,24 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
     const importFromTransactions = async () => {
         setImporting(true);
         try {
-            const existingNames = new Set(customers.map(c => c.name.toLowerCase()));
+            const existingNames = new Set(customers.map(c => normalizeCustomerName(c.name)));
+            const existingPhones = new Set(customers.map(c => phoneKey(c.phone)).filter(Boolean));
             const toImport = new Map<string, { name: string; phone: string }>();
 
-            for (const r of repairs) {
-                const name = (r.customerName || '').trim();
-                if (!name || existingNames.has(name.toLowerCase())) continue;
-                const key = name.toLowerCase();
-                if (!toImport.has(key)) toImport.set(key, { name, phone: (r.customerPhone || '').trim() });
-            }
-            for (const ps of phoneSales) {
-                const name = (ps.customerName || '').trim();
-                if (!name || existingNames.has(name.toLowerCase())) continue;
-                const key = name.toLowerCase();
-                if (!toImport.has(key)) toImport.set(key, { name, phone: (ps.customerPhone || '').trim() });
-            }
-            for (const sl of sales) {
-                const name = (sl.customerInfo?.name || '').trim();
-                if (!name || existingNames.has(name.toLowerCase())) continue;
-                const key = name.toLowerCase();
-                if (!toImport.has(key)) toImport.set(key, { name, phone: (sl.customerInfo?.phone || '').trim() });
-            }
+            // Another spelling of the name or format of the phone is still the same person
+            const collect = (rawName: string, rawPhone: string) => {
+                const name = (rawName || '').trim();
+                const phone = (rawPhone || '').trim();
+                const key = normalizeCustomerName(name);
+                const pKey = phoneKey(phone);
+                if (!key || existingNames.has(key) || toImport.has(key)) return;
+                if (pKey && existingPhones.has(pKey)) return;
+                toImport.set(key, { name, phone: normalizePhone(phone) });
+                if (pKey) existingPhones.add(pKey);
+            };
+            repairs.forEach(r => collect(r.customerName, r.customerPhone));
+            phoneSales.forEach(ps => collect(ps.customerName || '', ps.customerPhone || ''));
+            sales.forEach(sl => collect(sl.customerInfo?.name || '', sl.customerInfo?.phone || ''));
 
             const entries = Array.from(toImport.values());
             if (entries.length === 0) {
@@ -260,12 +346,79 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
 
             if (newCustomers.length > 0) {
                 setCustomers([...newCustomers, ...customers]);
-                showToast(`${newCustomers.length} müşteri başarıyla aktarıldı!`);
+                showToast(`${newCustomers.length} müşteri aktarıldı! İşlemlerini bağlamak için "Kayıtları Eşleştir"i kullanın.`);
             }
         } catch { showToast('Aktarma hatası!', 'error'); }
         setImporting(false);
     };
 
+    const linkProposals = useMemo(() => showLinkModal ? proposeCustomerLinks(customers, { sales, repairs, phoneSales }) : [],
+        [showLinkModal, customers, sales, repairs, phoneSales]);
+    const linkKey = (p: { entity: string; record: { id: string } }) => `${p.entity}:${p.record.id}`;
+    const pickedLinks = linkProposals.filter(p => linkChoices[linkKey(p)]);
+
+    // Unambiguous matches start ticked; the rest wait for a pick
+    const openLinkModal = () => {
+        const choices: Record<string, string> = {};
+        proposeCustomerLinks(customers, { sales, repairs, phoneSales })
+            .forEach(p => { choices[linkKey(p)] = p.candidates.length === 1 ? p.candidates[0].id : ''; });
+        setLinkChoices(choices);
+        setShowLinkModal(true);
+    };
+
+    const handleApplyLinks = async () => {
+        if (pickedLinks.length === 0) return;
+        setLinking(true);
+        let linked = 0;
+        for (const p of pickedLinks) {
+            try {
+                await api.linkRecordToCustomer(p.entity, p.record, linkChoices[linkKey(p)]);
+                linked++;
+            } catch { /* skip failed */ }
+        }
+        setLinking(false);
+        setShowLinkModal(false);
+        if (linked < pickedLinks.length) showToast(`${linked} kayıt eşleştirildi, ${pickedLinks.length - linked} kayıt eşleştirilemedi`, 'warning');
+        else showToast(`${linked} kayıt müşterisine bağlandı!`);
+        onLinked();
+    };
+
+    const duplicateGroups = useMemo(() => showDupModal ? findDuplicateCustomers(customers) : [], [showDupModal, customers]);
+    const groupKey = (customersInGroup: Customer[]) => customersInGroup.map(c => c.id).join(':');
+
+    // Sales, repairs, phone sales and ledger rows linked to each customer
+    const linkedCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        if (!showDupModal) return counts;
+        const add = (id?: string) => { if (id) counts.set(id, (counts.get(id) || 0) + 1); };
+        sales.forEach(s => add(s.customerId));
+        repairs.forEach(r => add(r.customerId));
+        phoneSales.forEach(ps => add(ps.customerId));
+        hareketler.forEach(h => add(h.customerId));
+        return counts;
+    }, [showDupModal, sales, repairs, phoneSales, hareketler]);
+
+    const handleMerge = async (group: Customer[]) => {
+        const key = groupKey(group);
+        const survivor = group.find(c => c.id === dupSurvivors[key]) || group[0];
+        const others = group.filter(c => c.id !== survivor.id);
+        if (!confirm(`${others.length} müşteri "${survivor.name}" ile birleştirilsin mi? İşlemleri bu müşteriye taşınır, diğer kayıtlar çöp kutusuna gider.`)) return;
+        setMerging(key);
+        try {
+            const merged = mergeCustomerFields(survivor, others);
+            const saved = await api.mergeCustomers(merged, others.map(c => c.id)) || merged;
+            const otherIds = new Set(others.map(c => c.id));
+            setCustomers(customers.filter(c => !otherIds.has(c.id)).map(c => c.id === survivor.id ? saved : c));
+            if (selectedCustomerId && otherIds.has(selectedCustomerId)) setSelectedCustomerId(survivor.id);
+            showToast('Müşteriler birleştirildi!');
+            onLinked();
+        } catch (err) {
+            // Merges are not queued for later
+            showToast(isNetworkError(err) ? 'Birleştirme için bağlantı gerekli!' : 'Birleştirme hatası!', 'error');
+        }
+        finally { setMerging(null); }
+    };
+
     return (
         <>
             <div className="flex-1 flex overflow-hidden">
@@ -282,6 +435,14 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                 <span className={`material-symbols-outlined text-lg ${importing ? 'animate-spin' : ''}`}>{importing ? 'sync' : 'download'}</span>
                                 {importing ? 'Aktarılıyor...' : 'Mevcut Verileri Aktar'}
                             </button>
+                            <button onClick={openLinkModal}
+                                className="px-4 py-2 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/30 text-blue-400 rounded-lg text-sm font-medium flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">link</span>Kayıtları Eşleştir
+                            </button>
+                            <button onClick={() => setShowDupModal(true)}
+                                className="px-4 py-2 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 rounded-lg text-sm font-medium flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">group_remove</span>Mükerrer Kayıtlar
+                            </button>
                             <button onClick={openCreate} className="px-4 py-2 bg-violet-500 hover:bg-violet-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-violet-500/25 flex items-center gap-2">
                                 <span className="material-symbols-outlined text-lg">person_add</span>Yeni Müşteri
                             </button>
@@ -378,14 +539,15 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     </div>
                                     <div className="flex-1 min-w-0">
                                         <h4 className="font-medium text-white truncate">{c.name}</h4>
-                                        <p className="text-xs text-slate-400">{c.phone || 'Telefon yok'} {c.email ? `• ${c.email}` : ''}</p>
+                                        <p className="text-xs text-slate-400">{c.phone ? formatPhone(c.phone) : 'Telefon yok'} {c.email ? `• ${c.email}` : ''}</p>
                                     </div>
                                     <div className="flex items-center gap-3 text-right">
                                         {/* Cari Balance */}
-                                        {((c.debt || 0) > 0 || (c.credit || 0) > 0) && (
+                                        {(balances.get(c.id) || 0) !== 0 && (
                                             <div className="flex flex-col items-end gap-0.5">
-                                                {(c.debt || 0) > 0 && <span className="text-xs text-red-400">B: {fp(c.debt)}</span>}
-                                                {(c.credit || 0) > 0 && <span className="text-xs text-emerald-400">A: {fp(c.credit)}</span>}
+                                                {(balances.get(c.id) || 0) > 0
+                                                    ? <span className="text-xs text-red-400">B: {fp(balances.get(c.id) || 0)}</span>
+                                                    : <span className="text-xs text-emerald-400">A: {fp(-(balances.get(c.id) || 0))}</span>}
                                             </div>
                                         )}
                                         <div>
@@ -421,8 +583,13 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     <span className="material-symbols-outlined text-violet-400 text-3xl">person</span>
                                 </div>
                                 <h4 className="text-xl font-bold text-white">{selectedCustomer.name}</h4>
-                                {selectedCustomer.phone && <p className="text-slate-400 mt-1">{selectedCustomer.phone}</p>}
+                                {selectedCustomer.phone && <p className="text-slate-400 mt-1">{formatPhone(selectedCustomer.phone)}</p>}
                                 {selectedCustomer.email && <p className="text-slate-400 text-sm">{selectedCustomer.email}</p>}
+                                {selectedCustomer.notificationsOptOut && (
+                                    <span className="inline-flex items-center gap-1 mt-2 px-2 py-0.5 rounded-full text-xs bg-amber-500/10 text-amber-400">
+                                        <span className="material-symbols-outlined text-sm">notifications_off</span>Bildirim istemiyor
+                                    </span>
+                                )}
                             </div>
 
                             {/* Actions */}
@@ -447,25 +614,52 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                             {/* Cari Balance */}
                             <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
                                 <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Cari Hesap</p>
-                                <div className="grid grid-cols-3 gap-2">
-                                    <div className="text-center">
-                                        <p className="text-sm font-bold text-red-400">{fp(selectedCustomer.debt || 0)}</p>
-                                        <p className="text-[10px] text-slate-500">Borç</p>
-                                    </div>
+                                <div className="grid grid-cols-2 gap-2">
                                     <div className="text-center">
-                                        <p className="text-sm font-bold text-emerald-400">{fp(selectedCustomer.credit || 0)}</p>
-                                        <p className="text-[10px] text-slate-500">Alacak</p>
+                                        <p className={`text-sm font-bold ${(balances.get(selectedCustomer.id) || 0) >= 0 ? 'text-red-400' : 'text-emerald-400'}`}>{fp(Math.abs(balances.get(selectedCustomer.id) || 0))}</p>
+                                        <p className="text-[10px] text-slate-500">{(balances.get(selectedCustomer.id) || 0) >= 0 ? 'Borç Bakiyesi' : 'Alacak Bakiyesi'}</p>
                                     </div>
                                     <div className="text-center">
-                                        <p className={`text-sm font-bold ${(selectedCustomer.debt || 0) - (selectedCustomer.credit || 0) >= 0 ? 'text-blue-400' : 'text-orange-400'}`}>{fp(Math.abs((selectedCustomer.debt || 0) - (selectedCustomer.credit || 0)))}</p>
-                                        <p className="text-[10px] text-slate-500">Bakiye</p>
+                                        <p className="text-sm font-bold text-white">{statement.filter(r => r.hareket).length}</p>
+                                        <p className="text-[10px] text-slate-500">Hareket</p>
                                     </div>
                                 </div>
-                                <button onClick={() => openTxDialog(selectedCustomer)} className="w-full py-2 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/30 text-blue-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2">
-                                    <span className="material-symbols-outlined text-lg">payments</span>İşlem Ekle
-                                </button>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => openTxDialog(selectedCustomer)} className="py-2 bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/30 text-blue-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2">
+                                        <span className="material-symbols-outlined text-lg">payments</span>İşlem Ekle
+                                    </button>
+                                    <button onClick={() => openStatement(selectedCustomer)} className="py-2 bg-violet-500/10 hover:bg-violet-500/20 border border-violet-500/30 text-violet-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2">
+                                        <span className="material-symbols-outlined text-lg">receipt_long</span>Ekstre
+                                    </button>
+                                </div>
                             </div>
 
+                            {/* Statement — oldest first with the running balance */}
+                            {statement.length > 0 && (
+                                <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
+                                    <p className="text-xs font-semibold text-blue-400 uppercase tracking-wider">Hesap Ekstresi</p>
+                                    <div className="space-y-1">
+                                        {statement.map((row, i) => {
+                                            const h = row.hareket;
+                                            const tip = h ? getHareketTipiInfo(h.islemTipi) : null;
+                                            return (
+                                                <div key={h?.id || `opening-${i}`} className="grid grid-cols-[auto_1fr_auto] gap-x-3 items-center p-2 bg-slate-900/50 rounded-lg border border-slate-700/50 text-xs">
+                                                    <span className="text-slate-500">{formatDate(row.date)}</span>
+                                                    <div className="min-w-0">
+                                                        <p className="text-white truncate">{h ? h.aciklama : 'Devir (açılış bakiyesi)'}</p>
+                                                        <p className="text-[10px] text-slate-500">{tip ? tip.label : 'Açılış'}{h?.ilgiliTip && ` · ${h.ilgiliTip === 'repair' ? 'Tamir' : h.ilgiliTip === 'sale' ? 'Satış' : 'Telefon'} kaydı`}{h?.user && ` · ${h.user}`}</p>
+                                                    </div>
+                                                    <div className="text-right">
+                                                        {h && <p className={`font-medium ${h.bakiyeEtkisi >= 0 ? 'text-red-400' : 'text-emerald-400'}`}>{h.bakiyeEtkisi >= 0 ? '+' : '−'}{fp(Math.abs(h.bakiyeEtkisi))}</p>}
+                                                        <p className="text-[10px] text-slate-400">Bakiye {fp(Math.abs(row.balance))} {row.balance > 0 ? '(B)' : row.balance < 0 ? '(A)' : ''}</p>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Summary Stats */}
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                                 <div className="bg-slate-800/50 rounded-xl p-3 text-center">
@@ -473,7 +667,7 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     <p className="text-xs text-slate-400">Toplam Harcama</p>
                                 </div>
                                 <div className="bg-slate-800/50 rounded-xl p-3 text-center">
-                                    <p className="text-lg font-bold text-emerald-400">{fp(selectedStats?.totalProfit || 0)}</p>
+                                    <p className="text-lg font-bold text-emerald-400">{fc(selectedStats?.totalProfit || 0)}</p>
                                     <p className="text-xs text-slate-400">Toplam Kâr</p>
                                 </div>
                             </div>
@@ -506,7 +700,7 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                         {selectedStats.repairs.map(r => (
                                             <div key={r.id} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
                                                 <div className="flex justify-between items-start"><div><p className="text-sm font-medium text-white">{r.deviceInfo}</p><p className="text-xs text-slate-400">{r.problemDescription || '—'}</p></div><span className="text-sm font-bold text-white">{fp(r.repairCost)}</span></div>
-                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(r.createdAt)}</span><span className="text-xs text-emerald-400">+{fp(r.profit)}</span></div>
+                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(r.createdAt)}</span><span className="text-xs text-emerald-400">+{fc(r.profit)}</span></div>
                                             </div>
                                         ))}
                                     </div>
@@ -521,7 +715,7 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                         {selectedStats.phoneSales.map(ps => (
                                             <div key={ps.id} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
                                                 <div className="flex justify-between items-start"><p className="text-sm font-medium text-white">{ps.brand} {ps.model}</p><span className="text-sm font-bold text-white">{fp(ps.salePrice)}</span></div>
-                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(ps.date)}</span><span className="text-xs text-emerald-400">+{fp(ps.profit)}</span></div>
+                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(ps.date)}</span><span className="text-xs text-emerald-400">+{fc(ps.profit)}</span></div>
                                             </div>
                                         ))}
                                     </div>
@@ -535,8 +729,8 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     <div className="space-y-2">
                                         {selectedStats.productSales.map(s => (
                                             <div key={s.id} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
-                                                <div className="flex justify-between items-start"><div><p className="text-sm font-medium text-white">{s.items.map(i => i.productName).join(', ')}</p><p className="text-xs text-slate-400">{s.items.length} kalem</p></div><span className="text-sm font-bold text-white">{fp(s.totalPrice)}</span></div>
-                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(s.date)}</span><span className="text-xs text-emerald-400">+{fp(s.totalProfit)}</span></div>
+                                                <div className="flex justify-between items-start"><div><p className="text-sm font-medium text-white">{isReturnSale(s) && <span className="mr-1.5 px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-500/20 text-red-400">İADE</span>}{s.items.map(i => i.productName).join(', ')}</p><p className="text-xs text-slate-400">{s.items.length} kalem{s.returnReason ? ` · ${s.returnReason}` : ''}</p></div><span className={`text-sm font-bold ${s.totalPrice < 0 ? 'text-red-400' : 'text-white'}`}>{fp(s.totalPrice)}</span></div>
+                                                <div className="flex justify-between items-center mt-2"><span className="text-xs text-slate-500">{formatDate(s.date)}</span><span className={`text-xs ${s.totalProfit < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{s.totalProfit < 0 ? '' : '+'}{fc(s.totalProfit)}</span></div>
                                             </div>
                                         ))}
                                     </div>
@@ -561,8 +755,8 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" placeholder="Ad Soyad" /></div>
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Telefon</label>
-                                    <input type="text" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })}
-                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" placeholder="05xx xxx xx xx" /></div>
+                                    <PhoneInput value={form.phone} onChange={phone => setForm({ ...form, phone })}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" /></div>
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">E-posta</label>
                                     <input type="text" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })}
                                         className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" placeholder="ornek@mail.com" /></div>
@@ -573,6 +767,10 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">Notlar</label>
                                 <textarea value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} rows={2}
                                     className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none resize-none" /></div>
+                            <label className="flex items-center gap-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={form.notificationsOptOut} onChange={e => setForm({ ...form, notificationsOptOut: e.target.checked })} className="accent-violet-500" />
+                                WhatsApp tamir bildirimi gönderilmesin
+                            </label>
                         </div>
                         <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
                             <button onClick={() => setShowModal(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
@@ -597,6 +795,182 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                 </div>
             )}
 
+            {/* Customer Link Backfill Modal */}
+            {showLinkModal && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => !linking && setShowLinkModal(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-3xl max-h-[90vh] flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Kayıtları Müşterilere Bağla</h3>
+                                <p className="text-sm text-slate-400">Müşterisi ad/telefonla yazılmış eski kayıtlar için öneriler. Onayladıklarınız müşteri kartına bağlanır.</p>
+                            </div>
+                            <button onClick={() => setShowLinkModal(false)} disabled={linking} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 overflow-y-auto scrollbar-thin">
+                            {linkProposals.length === 0 ? (
+                                <div className="text-center py-12 text-slate-400">
+                                    <span className="material-symbols-outlined text-5xl mb-3 block">link_off</span>
+                                    <p>Eşleştirilecek kayıt bulunamadı</p>
+                                </div>
+                            ) : (
+                                <div className="space-y-2">
+                                    {linkProposals.map(p => {
+                                        const key = linkKey(p);
+                                        const choice = linkChoices[key] || '';
+                                        return (
+                                            <div key={key} className={`flex items-center gap-3 p-3 rounded-xl border ${choice ? 'bg-violet-500/5 border-violet-500/30' : 'bg-slate-800/50 border-slate-700/50'}`}>
+                                                <input type="checkbox" checked={!!choice} disabled={p.candidates.length > 1 && !choice}
+                                                    onChange={e => setLinkChoices({ ...linkChoices, [key]: e.target.checked ? p.candidates[0].id : '' })}
+                                                    className="accent-violet-500" />
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm text-white truncate">{p.label}</p>
+                                                    <p className="text-xs text-slate-500">{formatDate(p.date)} · {p.name || '—'}{p.phone ? ` (${formatPhone(p.phone)})` : ''}</p>
+                                                </div>
+                                                <span className={`text-[10px] px-1.5 py-0.5 rounded ${p.matchedBy === 'phone' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                                                    {p.matchedBy === 'phone' ? 'Telefon' : 'İsim'}
+                                                </span>
+                                                <select value={choice} onChange={e => setLinkChoices({ ...linkChoices, [key]: e.target.value })}
+                                                    className="w-48 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white focus:border-violet-500 outline-none">
+                                                    <option value="">Bağlama</option>
+                                                    {p.candidates.map(c => <option key={c.id} value={c.id}>{c.name}{c.phone ? ` · ${c.phone}` : ''}</option>)}
+                                                </select>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex items-center justify-between gap-3 p-6 border-t border-slate-700">
+                            <span className="text-xs text-slate-400">{linkProposals.length} öneri · {pickedLinks.length} seçili</span>
+                            <div className="flex gap-3">
+                                <button onClick={() => setShowLinkModal(false)} disabled={linking} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                                <button onClick={handleApplyLinks} disabled={linking || pickedLinks.length === 0} className="px-6 py-2 bg-violet-500 hover:bg-violet-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-violet-500/25 disabled:opacity-50">
+                                    {linking ? 'Bağlanıyor...' : `Seçilenleri Bağla (${pickedLinks.length})`}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Duplicate Customers Modal */}
+            {showDupModal && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => !merging && setShowDupModal(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-2xl max-h-[90vh] flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Mükerrer Müşteriler</h3>
+                                <p className="text-sm text-slate-400">Aynı isim (ı/i, ş/s farkı gözetmeden), telefon veya e-postaya sahip müşteriler. Kalacak kaydı seçip birleştirin.</p>
+                            </div>
+                            <button onClick={() => setShowDupModal(false)} disabled={!!merging} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4 overflow-y-auto scrollbar-thin">
+                            {duplicateGroups.length === 0 ? (
+                                <div className="text-center py-12 text-slate-400">
+                                    <span className="material-symbols-outlined text-5xl mb-3 block">verified_user</span>
+                                    <p>Mükerrer müşteri bulunamadı</p>
+                                </div>
+                            ) : duplicateGroups.map(g => {
+                                const key = groupKey(g.customers);
+                                const survivorId = dupSurvivors[key] || g.customers[0].id;
+                                return (
+                                    <div key={key} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 space-y-3">
+                                        <div className="flex items-center justify-between">
+                                            <div className="flex gap-1">
+                                                {g.reasons.map(r => <span key={r} className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">{getDuplicateReasonLabel(r)}</span>)}
+                                            </div>
+                                            <button onClick={() => handleMerge(g.customers)} disabled={!!merging}
+                                                className="px-3 py-1.5 bg-violet-500 hover:bg-violet-600 text-white rounded-lg text-xs font-medium flex items-center gap-1 disabled:opacity-50">
+                                                <span className="material-symbols-outlined text-sm">{merging === key ? 'sync' : 'merge'}</span>{merging === key ? 'Birleştiriliyor...' : 'Birleştir'}
+                                            </button>
+                                        </div>
+                                        {g.customers.map(c => (
+                                            <label key={c.id} className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer border ${c.id === survivorId ? 'bg-violet-500/10 border-violet-500/30' : 'border-transparent hover:bg-surface-hover/50'}`}>
+                                                <input type="radio" name={key} checked={c.id === survivorId} onChange={() => setDupSurvivors({ ...dupSurvivors, [key]: c.id })} className="accent-violet-500" />
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm text-white truncate">{c.name}</p>
+                                                    <p className="text-xs text-slate-500 truncate">{[formatPhone(c.phone), c.email].filter(Boolean).join(' · ') || '—'}</p>
+                                                </div>
+                                                <span className="text-xs text-slate-400">{linkedCounts.get(c.id) || 0} işlem</span>
+                                                <span className="text-xs text-slate-500">{formatDate(c.createdAt)}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Account Statement Modal */}
+            {stmtCustomer && accountStatement && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setStmtCustomer(null)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-2xl max-h-[90vh] flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Hesap Ekstresi</h3>
+                                <p className="text-sm text-slate-400">{stmtCustomer.name}</p>
+                            </div>
+                            <button onClick={() => setStmtCustomer(null)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4 overflow-y-auto scrollbar-thin">
+                            <div className="flex items-center gap-2">
+                                <input type="date" value={stmtFrom} onChange={e => setStmtFrom(e.target.value)}
+                                    className="bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" />
+                                <span className="text-slate-500 text-xs">—</span>
+                                <input type="date" value={stmtTo} onChange={e => setStmtTo(e.target.value)}
+                                    className="bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" />
+                            </div>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                {[
+                                    { label: 'Devir', value: formatStatementBalance(accountStatement.opening), color: 'text-slate-300' },
+                                    { label: 'Dönem Borç', value: fp(accountStatement.totalBorc), color: 'text-red-400' },
+                                    { label: 'Dönem Alacak', value: fp(accountStatement.totalAlacak), color: 'text-emerald-400' },
+                                    { label: 'Kapanış', value: formatStatementBalance(accountStatement.closing), color: 'text-blue-400' },
+                                ].map(card => (
+                                    <div key={card.label} className="bg-slate-800/50 rounded-xl p-3 text-center">
+                                        <p className={`text-sm font-bold ${card.color}`}>{card.value}</p>
+                                        <p className="text-[10px] text-slate-500">{card.label}</p>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="bg-slate-800/50 rounded-xl overflow-hidden">
+                                <table className="w-full text-left text-xs">
+                                    <thead><tr className="border-b border-slate-700 text-slate-400 uppercase tracking-wider">
+                                        <th className="p-2">Tarih</th><th className="p-2">Açıklama</th><th className="p-2 text-right">Borç</th><th className="p-2 text-right">Alacak</th><th className="p-2 text-right">Bakiye</th>
+                                    </tr></thead>
+                                    <tbody className="divide-y divide-slate-700/50">
+                                        {accountStatement.lines.length === 0 ? (
+                                            <tr><td colSpan={5} className="p-4 text-center text-slate-500">Bu aralıkta işlem yok</td></tr>
+                                        ) : accountStatement.lines.map((l, i) => (
+                                            <tr key={i}>
+                                                <td className="p-2 text-slate-500 whitespace-nowrap">{formatDate(l.date)}</td>
+                                                <td className="p-2 text-white">{l.description}</td>
+                                                <td className="p-2 text-right text-red-400">{l.borc ? fp(l.borc) : ''}</td>
+                                                <td className="p-2 text-right text-emerald-400">{l.alacak ? fp(l.alacak) : ''}</td>
+                                                <td className="p-2 text-right text-slate-300 whitespace-nowrap">{formatStatementBalance(l.balance)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={handleSendStatement} disabled={stmtSending} className="px-4 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/30 text-emerald-400 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50">
+                                <span className="material-symbols-outlined text-lg">chat</span>{stmtSending ? 'Gönderiliyor...' : 'WhatsApp Özeti'}
+                            </button>
+                            <button onClick={() => handlePrintStatement(true)} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">picture_as_pdf</span>PDF
+                            </button>
+                            <button onClick={() => handlePrintStatement(false)} className="px-6 py-2 bg-violet-500 hover:bg-violet-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-violet-500/25 flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">print</span>Yazdır
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Transaction Modal */}
             {showTxModal && txCustomer && (
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowTxModal(false)}>
@@ -612,12 +986,7 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                             <div>
                                 <label className="block text-sm font-medium text-slate-300 mb-2">İşlem Tipi</label>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {([
-                                        { id: 'debt' as const, label: 'Borç Ekle', desc: 'Müşteri bize borçlandı', color: 'red' },
-                                        { id: 'credit' as const, label: 'Alacak Ekle', desc: 'Biz müşteriye borçlandık', color: 'emerald' },
-                                        { id: 'payment_received' as const, label: 'Tahsilat', desc: 'Borç ödemesi aldık', color: 'blue' },
-                                        { id: 'payment_made' as const, label: 'Ödeme', desc: 'Alacak ödemesi yaptık', color: 'amber' },
-                                    ]).map(t => (
+                                    {MUSTERI_HAREKET_TIPLERI.map(t => (
                                         <button key={t.id} onClick={() => setTxType(t.id)}
                                             className={`p-3 rounded-xl text-left border transition-all ${txType === t.id
                                                 ? `border-${t.color}-500/50 bg-${t.color}-500/10`
@@ -641,12 +1010,27 @@ export default function CustomersPage({ repairs, phoneSales, sales, customers, s
                                     className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none resize-none"
                                     placeholder="İşlem açıklaması..." />
                             </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-4">
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Tarih</label>
+                                    <input type="date" value={txDate} onChange={e => setTxDate(e.target.value)}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none" /></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">İlgili Kayıt</label>
+                                    <select value={txRelated} onChange={e => setTxRelated(e.target.value)}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-violet-500 outline-none">
+                                        <option value="">Yok</option>
+                                        {txRelatedOptions.map(o => <option key={o.value} value={o.value}>{formatDate(o.date)} · {o.label}</option>)}
+                                    </select></div>
+                            </div>
                             {/* Current balance info */}
                             <div className="bg-slate-800/50 rounded-lg p-3 flex justify-between text-sm">
-                                <span className="text-slate-400">Mevcut Borç:</span><span className="text-red-400 font-medium">{fp(txCustomer.debt || 0)}</span>
+                                <span className="text-slate-400">Mevcut Bakiye:</span>
+                                <span className={`font-medium ${(balances.get(txCustomer.id) || 0) >= 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                                    {fp(Math.abs(balances.get(txCustomer.id) || 0))} {(balances.get(txCustomer.id) || 0) > 0 ? '(Borç)' : (balances.get(txCustomer.id) || 0) < 0 ? '(Alacak)' : ''}
+                                </span>
                             </div>
                             <div className="bg-slate-800/50 rounded-lg p-3 flex justify-between text-sm -mt-2">
-                                <span className="text-slate-400">Mevcut Alacak:</span><span className="text-emerald-400 font-medium">{fp(txCustomer.credit || 0)}</span>
+                                <span className="text-slate-400">İşlem Sonrası:</span>
+                                <span className="text-white font-medium">{fp(Math.abs((balances.get(txCustomer.id) || 0) + getBakiyeEtkisi(txType, txAmount)))}</span>
                             </div>
                         </div>
                         <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
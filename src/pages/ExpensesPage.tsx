@@ -152,9 +152,9 @@ export default function ExpensesPage({ expenses, setExpenses }: ExpensesPageProp
     const handleDelete = async (id: string) => {
         if (!confirm('Silmek istediğinize emin misiniz?')) return;
         try {
-            await api.deleteExpense(id);
+            await api.deleteExpense(id, expenses.find(e => e.id === id));
             setExpenses(expenses.filter(e => e.id !== id));
-            showToast('Silindi!');
+            showToast('Çöp kutusuna taşındı!');
         } catch { showToast('Hata!', 'error'); }
     };
 
@@ -6,6 +6,7 @@ import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
 import { Html5Qrcode } from 'html5-qrcode';
 import CustomerSelector from '../components/CustomerSelector';
+import { formatPhone } from '../utils/phone';
 
 interface PhoneSalesPageProps {
     phoneStocks: PhoneStock[];
@@ -18,6 +19,7 @@ interface PhoneSalesPageProps {
 
 export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks, setPhoneSales, customers, setCustomers }: PhoneSalesPageProps) {
     const fp = useFormatPrice();
+    const fc = useFormatPrice('cost');
     const { showToast } = useToast();
     const [selectedStock, setSelectedStock] = useState<PhoneStock | null>(null);
     const [selectedPhoneSale, setSelectedPhoneSale] = useState<PhoneSale | null>(null);
@@ -29,6 +31,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
     const [paymentMethod, setPaymentMethod] = useState('cash');
     const [customerName, setCustomerName] = useState('');
     const [customerPhone, setCustomerPhone] = useState('');
+    const [customerId, setCustomerId] = useState('');
 
     // Add stock form
     const [stockForm, setStockForm] = useState({ brand: '', model: '', imei: '', purchasePrice: 0, salePrice: 0, notes: '' });
@@ -83,6 +86,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                 id, brand: selectedStock.brand, model: selectedStock.model, imei: selectedStock.imei,
                 purchasePrice: selectedStock.purchasePrice, salePrice, profit: salePrice - selectedStock.purchasePrice,
                 customerName: customerName || undefined, customerPhone: customerPhone || undefined,
+                customerId: customerName && customerId ? customerId : undefined,
                 date: new Date().toISOString(), paymentMethod,
                 paymentDetails: { [paymentMethod]: salePrice }
             };
@@ -93,6 +97,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
             setSelectedStock(null);
             setCustomerName('');
             setCustomerPhone('');
+            setCustomerId('');
             showToast('Telefon satışı kaydedildi!');
         } catch { showToast('Hata oluştu!', 'error'); }
     };
@@ -168,7 +173,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                             </div>
                             <div className="flex justify-between items-center mt-3">
                                 <span className="text-cyan-400 font-bold">{fp(ps.salePrice)}</span>
-                                <span className="text-xs text-slate-400">Alış: {fp(ps.purchasePrice)}</span>
+                                <span className="text-xs text-slate-400">Alış: {fc(ps.purchasePrice)}</span>
                             </div>
                         </div>
                     ))}
@@ -187,7 +192,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                                     </div>
                                     <div className="flex items-center gap-3">
                                         <span className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{getPaymentMethodLabel(ps.paymentMethod)}</span>
-                                        <span className="text-emerald-400 font-medium text-sm">+{fp(ps.profit)}</span>
+                                        <span className="text-emerald-400 font-medium text-sm">+{fc(ps.profit)}</span>
                                     </div>
                                 </div>
                             ))}
@@ -226,7 +231,7 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                                                 <div className="w-10 h-10 rounded-full bg-cyan-500/10 flex items-center justify-center"><span className="material-symbols-outlined text-cyan-400">person</span></div>
                                                 <div>
                                                     <p className="font-medium text-white">{selectedPhoneSale.customerName || '—'}</p>
-                                                    <p className="text-xs text-slate-400">{selectedPhoneSale.customerPhone || '—'}</p>
+                                                    <p className="text-xs text-slate-400">{selectedPhoneSale.customerPhone ? formatPhone(selectedPhoneSale.customerPhone) : '—'}</p>
                                                 </div>
                                             </div>
                                         </div>
@@ -245,9 +250,9 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                                     <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
                                         <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Fiyat Detayları</p>
                                         <div className="space-y-2">
-                                            <div className="flex justify-between text-sm"><span className="text-slate-400">Alış Fiyatı</span><span className="text-white font-medium">{fp(selectedPhoneSale.salePrice - selectedPhoneSale.profit)}</span></div>
+                                            <div className="flex justify-between text-sm"><span className="text-slate-400">Alış Fiyatı</span><span className="text-white font-medium">{fc(selectedPhoneSale.salePrice - selectedPhoneSale.profit)}</span></div>
                                             <div className="flex justify-between text-sm"><span className="text-slate-400">Satış Fiyatı</span><span className="text-cyan-400 font-medium">{fp(selectedPhoneSale.salePrice)}</span></div>
-                                            <div className="border-t border-slate-700 pt-2 flex justify-between text-sm font-bold"><span className="text-slate-300">Net Kâr</span><span className="text-emerald-400">{fp(selectedPhoneSale.profit)}</span></div>
+                                            <div className="border-t border-slate-700 pt-2 flex justify-between text-sm font-bold"><span className="text-slate-300">Net Kâr</span><span className="text-emerald-400">{fc(selectedPhoneSale.profit)}</span></div>
                                         </div>
                                     </div>
 
@@ -281,8 +286,8 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                                             <h4 className="font-semibold text-cyan-400">{selectedStock.brand} {selectedStock.model}</h4>
                                             <p className="text-xs text-slate-400 font-mono mt-1">{selectedStock.imei}</p>
                                             <div className="flex justify-between mt-3">
-                                                <span className="text-sm text-slate-400">Alış: {fp(selectedStock.purchasePrice)}</span>
-                                                <span className="text-sm text-emerald-400">Kâr: {fp(salePrice - selectedStock.purchasePrice)}</span>
+                                                <span className="text-sm text-slate-400">Alış: {fc(selectedStock.purchasePrice)}</span>
+                                                <span className="text-sm text-emerald-400">Kâr: {fc(salePrice - selectedStock.purchasePrice)}</span>
                                             </div>
                                         </div>
 
@@ -307,8 +312,14 @@ export default function PhoneSalesPage({ phoneStocks, phoneSales, setPhoneStocks
                                             customers={customers}
                                             selectedCustomerName={customerName}
                                             selectedCustomerPhone={customerPhone}
-                                            onSelect={(name, phone) => { setCustomerName(name); setCustomerPhone(phone); }}
-                                            onAddNew={async (c) => { try { const r = await api.saveCustomer(c); if (r) setCustomers([r as unknown as Customer, ...customers]); } catch { } }}
+                                            onSelect={(name, phone, id) => { setCustomerName(name); setCustomerPhone(phone); setCustomerId(id); }}
+                                            onAddNew={async (c) => {
+                                                try {
+                                                    const r = await api.saveCustomer(c) as Customer | null;
+                                                    if (r) setCustomers([r, ...customers]);
+                                                    return r;
+                                                } catch { return null; }
+                                            }}
                                         />
 
                                         <button onClick={handleSale}
@@ -1,9 +1,115 @@
-import { useState, useMemo } from 'react';
-import type { Product, Category } from '../types';
-import { getStockStatus, generateId } from '../utils/helpers';
+import { useState, useMemo, useEffect } from 'react';
+import type { Product, Category, StockMovement } from '../types';
+import { getStockStatus, generateId, formatDateTime, getStockMovementReasonInfo, computeLedgerStock } from '../utils/helpers';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
+import { hasPermission } from '../utils/auth';
+
+// Marks the one-time opening balance movements written by the first ledger check
+const LEDGER_OPENING = 'ledger-opening';
+
+// ── Stock movement history drawer ──
+function StockHistoryDrawer({ product, onClose, onProductChange }: {
+    product: Product;
+    onClose: () => void;
+    onProductChange: (p: Product) => void;
+}) {
+    const { showToast } = useToast();
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        api.getStockMovements(product.id)
+            .then(m => { if (!cancelled) setMovements(m); })
+            .catch(() => { if (!cancelled) showToast('Stok hareketleri yüklenemedi!', 'error'); })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [product.id, showToast]);
+
+    const ledgerStock = movements.reduce((s, m) => s + m.delta, 0);
+    const drift = product.stock - ledgerStock;
+
+    // Ledger is the source of truth: put Product.stock back to what the movements add up to
+    const handleApplyLedger = async () => {
+        if (!confirm(`Stok ${product.stock} → ${ledgerStock} olarak düzeltilsin mi?`)) return;
+        try {
+            const updated = { ...product, stock: ledgerStock };
+            await api.saveProduct(updated);
+            onProductChange(updated);
+            showToast('Stok defterle eşitlendi!');
+        } catch { showToast('Hata oluştu!', 'error'); }
+    };
+
+    // Accept the current count and book the gap as an adjustment
+    const handleRecordDrift = async () => {
+        try {
+            const created = await api.recordStockMovement({
+                productId: product.id, productName: product.name, delta: drift,
+                reason: 'adjustment', note: 'Defter farkı kaydı',
+            });
+            if (created) setMovements([created as StockMovement, ...movements]);
+            showToast('Fark düzeltme olarak kaydedildi!');
+        } catch { showToast('Hata oluştu!', 'error'); }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-end z-50" onClick={onClose}>
+            <div className="bg-surface-dark border-l border-slate-700 w-full max-w-md h-full flex flex-col animate-fade-in" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                    <div>
+                        <h3 className="text-lg font-bold text-white">Stok Hareketleri</h3>
+                        <p className="text-sm text-slate-400">{product.name}</p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 p-4 border-b border-slate-700">
+                    <div className="bg-slate-800/50 rounded-lg p-3"><p className="text-xs text-slate-400">Mevcut</p><p className="text-lg font-bold text-white">{product.stock}</p></div>
+                    <div className="bg-slate-800/50 rounded-lg p-3"><p className="text-xs text-slate-400">Deftere Göre</p><p className="text-lg font-bold text-white">{loading ? '…' : ledgerStock}</p></div>
+                    <div className="bg-slate-800/50 rounded-lg p-3"><p className="text-xs text-slate-400">Sapma</p>
+                        <p className={`text-lg font-bold ${!loading && drift !== 0 ? 'text-red-400' : 'text-emerald-400'}`}>{loading ? '…' : drift > 0 ? `+${drift}` : drift}</p></div>
+                </div>
+
+                {!loading && drift !== 0 && (
+                    <div className="m-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 space-y-2">
+                        <p className="text-xs text-red-300">Ürün stoğu hareket defteriyle uyuşmuyor.</p>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={handleApplyLedger} className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-300 rounded-lg text-xs font-medium">Stoğu Deftere Eşitle</button>
+                            <button onClick={handleRecordDrift} className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg text-xs font-medium">Farkı Düzeltme Olarak Kaydet</button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-thin">
+                    {loading ? (
+                        <div className="flex justify-center py-10"><div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent"></div></div>
+                    ) : movements.length === 0 ? (
+                        <div className="text-center py-10 text-slate-400">
+                            <span className="material-symbols-outlined text-5xl mb-2 block">history</span>
+                            <p className="text-sm">Henüz stok hareketi yok</p>
+                        </div>
+                    ) : movements.map(m => {
+                        const info = getStockMovementReasonInfo(m.reason);
+                        return (
+                            <div key={m.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/50">
+                                <span className={`w-9 h-9 rounded-lg flex items-center justify-center ${info.color}`}>
+                                    <span className="material-symbols-outlined text-lg">{info.icon}</span>
+                                </span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white font-medium">{info.label}{m.note && <span className="text-slate-400 font-normal"> · {m.note}</span>}</p>
+                                    <p className="text-xs text-slate-500">{formatDateTime(m.createdAt)} · {m.user}</p>
+                                </div>
+                                <span className={`text-sm font-bold ${m.delta > 0 ? 'text-emerald-400' : 'text-red-400'}`}>{m.delta > 0 ? `+${m.delta}` : m.delta}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
 
 interface ProductsPageProps {
     products: Product[];
@@ -14,6 +120,7 @@ interface ProductsPageProps {
 
 export default function ProductsPage({ products, categories, setProducts, setCategories }: ProductsPageProps) {
     const fp = useFormatPrice();
+    const fc = useFormatPrice('cost');
     const { showToast } = useToast();
     const [search, setSearch] = useState('');
     const [catFilter, setCatFilter] = useState('all');
@@ -22,6 +129,8 @@ export default function ProductsPage({ products, categories, setProducts, setCat
     const [showCategoryModal, setShowCategoryModal] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
     const [newCatName, setNewCatName] = useState('');
+    const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+    const [ledger, setLedger] = useState<Map<string, number> | null>(null);
 
     // Form state
     const [form, setForm] = useState({
@@ -61,16 +170,28 @@ export default function ProductsPage({ products, categories, setProducts, setCat
         if (!form.name || !form.categoryId) { showToast('Ürün adı ve kategori zorunlu!', 'error'); return; }
         try {
             const cat = categories.find(c => c.id === form.categoryId);
-            const product: Product = {
-                id: editingProduct?.id || generateId(),
+            const delta = form.stock - (editingProduct?.stock ?? 0);
+            const fields: Omit<Product, 'id' | 'stock'> = {
                 name: form.name, categoryId: form.categoryId, categoryName: cat?.name || '',
-                barcode: form.barcode, stock: form.stock, minStock: form.minStock,
+                barcode: form.barcode, minStock: form.minStock,
                 purchasePrice: form.purchasePrice, salePrice: form.salePrice, description: form.description
             };
-            await api.saveProduct(product);
+            let product: Product = { ...fields, id: editingProduct?.id || generateId(), stock: form.stock };
             if (editingProduct) {
+                // Sales may have moved the stock since the modal opened: the backend
+                // applies only the edit on top of the stored stock
+                const updated = await api.changeProductStock(product.id, delta, { reason: 'adjustment', note: 'Ürün düzenleme' }, fields);
+                const current = products.find(p => p.id === product.id) ?? editingProduct;
+                product = updated ?? { ...product, stock: current.stock + delta };
                 setProducts(products.map(p => p.id === product.id ? product : p));
             } else {
+                await api.saveProduct(product);
+                if (delta !== 0) {
+                    await api.recordStockMovement({
+                        productId: product.id, productName: product.name, delta,
+                        reason: 'adjustment', note: 'Açılış stoğu',
+                    });
+                }
                 setProducts([product, ...products]);
             }
             setShowProductModal(false);
@@ -78,12 +199,39 @@ export default function ProductsPage({ products, categories, setProducts, setCat
         } catch { showToast('Hata oluştu!', 'error'); }
     };
 
+    const handleLedgerCheck = async () => {
+        try {
+            const movements = await api.getStockMovements();
+            let totals = computeLedgerStock(movements);
+            // Stock that predates the ledger has no movements behind it: book it once as the opening balance
+            const unbooked = products.filter(p => (totals.get(p.id) || 0) !== p.stock);
+            if (unbooked.length > 0 && !movements.some(m => m.referenceId === LEDGER_OPENING)
+                && confirm(`Stok defteri henüz açılmamış. ${unbooked.length} ürünün mevcut stoğu açılış bakiyesi olarak kaydedilsin mi?`)) {
+                for (const p of unbooked) {
+                    await api.recordStockMovement({
+                        productId: p.id, productName: p.name, delta: p.stock - (totals.get(p.id) || 0),
+                        reason: 'adjustment', referenceId: LEDGER_OPENING, note: 'Defter açılış bakiyesi',
+                    });
+                }
+                totals = computeLedgerStock(await api.getStockMovements());
+            }
+            setLedger(totals);
+            const drifting = products.filter(p => (totals.get(p.id) || 0) !== p.stock).length;
+            showToast(drifting > 0 ? `${drifting} üründe defter sapması var` : 'Tüm stoklar defterle uyumlu', drifting > 0 ? 'warning' : 'success');
+        } catch { showToast('Stok hareketleri yüklenemedi!', 'error'); }
+    };
+
+    const handleProductChange = (updated: Product) => {
+        setProducts(products.map(p => p.id === updated.id ? updated : p));
+        setHistoryProduct(updated);
+    };
+
     const handleDeleteProduct = async (id: string) => {
         if (!confirm('Ürünü silmek istediğinize emin misiniz?')) return;
         try {
-            await api.deleteProduct(id);
+            await api.deleteProduct(id, products.find(p => p.id === id));
             setProducts(products.filter(p => p.id !== id));
-            showToast('Ürün silindi!');
+            showToast('Ürün çöp kutusuna taşındı!');
         } catch { showToast('Silinemedi!', 'error'); }
     };
 
@@ -112,7 +260,7 @@ export default function ProductsPage({ products, categories, setProducts, setCat
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {[
                     { label: 'Toplam Ürün', value: totalProducts, icon: 'inventory_2', sub: 'Çeşit', color: 'text-blue-400', bgIcon: 'text-blue-500' },
-                    { label: 'Toplam Stok Değeri', value: fp(totalValue), icon: 'payments', sub: 'Alış fiyatına göre', color: 'text-green-400', bgIcon: 'text-green-500' },
+                    { label: 'Toplam Stok Değeri', value: fc(totalValue), icon: 'payments', sub: 'Alış fiyatına göre', color: 'text-green-400', bgIcon: 'text-green-500' },
                     { label: 'Kritik Stok', value: criticalCount, icon: 'warning', sub: 'Aksiyon gerekli', color: 'text-red-400', bgIcon: 'text-red-500', pulse: criticalCount > 0 },
                     { label: 'Kategoriler', value: categories.length, icon: 'category', sub: 'Aktif kategori', color: 'text-purple-400', bgIcon: 'text-purple-500' },
                 ].map(card => (
@@ -146,6 +294,9 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                     </select>
                 </div>
                 <div className="flex gap-2">
+                    <button onClick={handleLedgerCheck} className="px-3 py-2 text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-lg">rule</span>Defter Kontrolü
+                    </button>
                     <button onClick={() => setShowCategoryModal(true)} className="px-3 py-2 text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg text-sm flex items-center gap-2">
                         <span className="material-symbols-outlined text-lg">category</span>Kategori Yönet
                     </button>
@@ -170,12 +321,13 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                         ) : filtered.map(p => {
                             const status = getStockStatus(p.stock, p.minStock);
                             const maxStock = Math.max(p.minStock * 3, p.stock, 10);
+                            const ledgerStock = ledger ? (ledger.get(p.id) || 0) : null;
                             return (
                                 <tr key={p.id} className="hover:bg-slate-800 transition-colors group">
                                     <td className="p-4 font-medium text-white sticky left-0 z-10 bg-slate-900 group-hover:bg-slate-800 transition-colors shadow-[2px_0_5px_-2px_rgba(0,0,0,0.3)]">{p.name}</td>
                                     <td className="p-4"><span className="px-2.5 py-1 rounded-full text-xs bg-primary/10 text-primary font-medium">{p.categoryName}</span></td>
                                     <td className="p-4 text-slate-400 font-mono text-xs">{p.barcode || '—'}</td>
-                                    <td className="p-4 text-right text-slate-300">{fp(p.purchasePrice)}</td>
+                                    <td className="p-4 text-right text-slate-300">{fc(p.purchasePrice)}</td>
                                     <td className="p-4 text-right font-medium text-white">{fp(p.salePrice)}</td>
                                     <td className="p-4">
                                         <div className="flex items-center gap-2">
@@ -184,6 +336,9 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                                                     style={{ width: `${Math.min(100, (p.stock / maxStock) * 100)}%` }}></div>
                                             </div>
                                             <span className="text-xs text-slate-300 w-8 text-right">{p.stock}</span>
+                                            {ledgerStock !== null && ledgerStock !== p.stock && (
+                                                <span title={`Deftere göre: ${ledgerStock}`} className="material-symbols-outlined text-base text-red-400">error</span>
+                                            )}
                                         </div>
                                     </td>
                                     <td className="p-4">
@@ -194,6 +349,9 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                                     </td>
                                     <td className="p-4 text-center">
                                         <div className="flex justify-center gap-1">
+                                            <button onClick={() => setHistoryProduct(p)} title="Stok Hareketleri" className="p-1.5 rounded-lg hover:bg-primary/10 text-slate-400 hover:text-primary transition-colors">
+                                                <span className="material-symbols-outlined text-lg">history</span>
+                                            </button>
                                             <button onClick={() => openEditModal(p)} className="p-1.5 rounded-lg hover:bg-primary/10 text-slate-400 hover:text-primary transition-colors">
                                                 <span className="material-symbols-outlined text-lg">edit</span>
                                             </button>
@@ -233,8 +391,10 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                                 <input type="number" value={form.stock} onChange={e => setForm({ ...form, stock: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">Kritik Stok Sınırı</label>
                                 <input type="number" value={form.minStock} onChange={e => setForm({ ...form, minStock: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
-                            <div><label className="block text-sm font-medium text-slate-300 mb-1">Alış Fiyatı *</label>
-                                <input type="number" value={form.purchasePrice} onChange={e => setForm({ ...form, purchasePrice: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
+                            {hasPermission('costs.view') && (
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Alış Fiyatı *</label>
+                                    <input type="number" value={form.purchasePrice} onChange={e => setForm({ ...form, purchasePrice: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
+                            )}
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">Satış Fiyatı *</label>
                                 <input type="number" value={form.salePrice} onChange={e => setForm({ ...form, salePrice: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
                             <div className="col-span-2"><label className="block text-sm font-medium text-slate-300 mb-1">Açıklama</label>
@@ -248,6 +408,11 @@ export default function ProductsPage({ products, categories, setProducts, setCat
                 </div>
             )}
 
+            {/* Stock History Drawer */}
+            {historyProduct && (
+                <StockHistoryDrawer product={historyProduct} onClose={() => setHistoryProduct(null)} onProductChange={handleProductChange} />
+            )}
+
             {/* Category Modal */}
             {showCategoryModal && (
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowCategoryModal(false)}>
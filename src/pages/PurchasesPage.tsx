@@ -70,12 +70,18 @@ export default function PurchasesPage({ purchases, suppliers, products, setPurch
                     quantity: i.quantity, unitCost: i.unitCost, totalCost: i.quantity * i.unitCost
                 }));
                 await api.savePurchaseItems(items);
-                // Update product stocks in KV
+                // One stock change per product, however many lines list it; the
+                // last line's unit cost becomes the purchase price
+                const received = new Map<string, { quantity: number; unitCost: number }>();
                 for (const item of cartItems) {
-                    const prod = products.find(p => p.id === item.productId);
-                    if (prod) {
-                        await api.saveProduct({ ...prod, stock: prod.stock + item.quantity, purchasePrice: item.unitCost });
-                    }
+                    if (!products.some(p => p.id === item.productId)) continue;
+                    const entry = received.get(item.productId);
+                    received.set(item.productId, { quantity: (entry?.quantity || 0) + item.quantity, unitCost: item.unitCost });
+                }
+                for (const [productId, { quantity, unitCost }] of received) {
+                    await api.changeProductStock(productId, quantity,
+                        { reason: 'purchase', referenceId: result.id as string, note: invoiceNumber || undefined },
+                        { purchasePrice: unitCost });
                 }
             }
             setShowModal(false);
@@ -88,9 +94,9 @@ export default function PurchasesPage({ purchases, suppliers, products, setPurch
     const handleDelete = async (id: string) => {
         if (!confirm('Silmek istediğinize emin misiniz?')) return;
         try {
-            await api.deletePurchase(id);
+            await api.deletePurchase(id, purchases.find(p => p.id === id));
             setPurchases(purchases.filter(p => p.id !== id));
-            showToast('Silindi!');
+            showToast('Çöp kutusuna taşındı!');
         } catch { showToast('Hata!', 'error'); }
     };
 
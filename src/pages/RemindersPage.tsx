@@ -1,6 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
+import { getWhatsAppConfig, isWhatsAppConfigured, sendWhatsAppMessage } from '../utils/whatsapp';
+import { formatPhone, getPhoneError, normalizePhone } from '../utils/phone';
+import PhoneInput from '../components/PhoneInput';
 
 export interface Reminder {
     id: string;
@@ -127,32 +130,29 @@ export default function RemindersPage() {
     };
 
     const sendWhatsAppReminder = async (reminder: Reminder) => {
-        const instanceId = localStorage.getItem('wa_instance');
-        const token = localStorage.getItem('wa_token');
-        const phone = reminder.phoneNumber || localStorage.getItem('wa_phone');
-        if (!instanceId || !token || !phone) return;
+        const phone = reminder.phoneNumber || getWhatsAppConfig().defaultPhone;
+        if (!isWhatsAppConfigured() || !phone) return;
         const catLabel = CATEGORY_OPTIONS.find(c => c.value === reminder.category)?.label || reminder.category;
         const message = `🔔 *Hatırlatıcı: ${reminder.title}*\n\n📋 *Kategori:* ${catLabel}\n${reminder.description ? `📝 *Not:* ${reminder.description}\n` : ''}\n⏰ ${new Date(reminder.remindAt).toLocaleString('tr-TR')}\n\n_StokTakip Pro tarafından gönderildi_`;
         try {
-            await fetch(`https://api.ultramsg.com/${instanceId}/messages/chat`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                body: new URLSearchParams({ token, to: phone, body: message }),
-            });
+            await sendWhatsAppMessage(phone, message);
         } catch { /* silent */ }
     };
 
     const handleSave = async () => {
         if (!form.title?.trim()) return showToast('Başlık gerekli', 'error');
         if (!form.remindAt) return showToast('Tarih/saat gerekli', 'error');
+        const phoneError = getPhoneError(form.phoneNumber || '');
+        if (phoneError) return showToast(phoneError, 'error');
+        const data = { ...form, phoneNumber: normalizePhone(form.phoneNumber || '') };
         setSaving(true);
         try {
             if (editing) {
-                const updated = await api.updateReminder(editing.id, form);
+                const updated = await api.updateReminder(editing.id, data);
                 setReminders(prev => prev.map(r => r.id === editing.id ? updated : r));
                 showToast('Hatırlatıcı güncellendi');
             } else {
-                const created = await api.createReminder({ ...form, isSent: false, isCompleted: false });
+                const created = await api.createReminder({ ...data, isSent: false, isCompleted: false });
                 setReminders(prev => [created, ...prev]);
                 showToast('Hatırlatıcı oluşturuldu ✓');
             }
@@ -186,16 +186,10 @@ export default function RemindersPage() {
     };
 
     const handleTestWhatsApp = async () => {
-        const instanceId = localStorage.getItem('wa_instance');
-        const token = localStorage.getItem('wa_token');
-        const phone = localStorage.getItem('wa_phone');
-        if (!instanceId || !token || !phone) return showToast('WhatsApp ayarları eksik', 'error');
+        const phone = getWhatsAppConfig().defaultPhone;
+        if (!isWhatsAppConfigured() || !phone) return showToast('WhatsApp ayarları eksik', 'error');
         try {
-            await fetch(`https://api.ultramsg.com/${instanceId}/messages/chat`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                body: new URLSearchParams({ token, to: phone, body: '✅ StokTakip Pro WhatsApp bağlantısı başarılı!' }),
-            });
+            await sendWhatsAppMessage(phone, '✅ StokTakip Pro WhatsApp bağlantısı başarılı!');
             showToast('Test mesajı gönderildi!');
         } catch {
             showToast('Gönderilemedi - ayarları kontrol edin', 'error');
@@ -205,9 +199,11 @@ export default function RemindersPage() {
     const openAdd = () => { setEditing(null); setForm(emptyForm()); setShowModal(true); };
     const openEdit = (r: Reminder) => { setEditing(r); setForm({ ...r, remindAt: formatDatetimeLocal(r.remindAt) }); setShowModal(true); };
     const saveSettings = () => {
+        const phoneError = getPhoneError(whatsappConfig.defaultPhone);
+        if (phoneError) return showToast(phoneError, 'error');
         localStorage.setItem('wa_instance', whatsappConfig.instanceId);
         localStorage.setItem('wa_token', whatsappConfig.token);
-        localStorage.setItem('wa_phone', whatsappConfig.defaultPhone);
+        localStorage.setItem('wa_phone', normalizePhone(whatsappConfig.defaultPhone));
         showToast('Ayarlar kaydedildi');
         setShowSettings(false);
     };
@@ -320,7 +316,7 @@ export default function RemindersPage() {
                                             <span className="material-symbols-outlined text-xs">{isOverdue ? 'warning' : 'schedule'}</span>
                                             {date.toLocaleDateString('tr-TR', { day: 'numeric', month: 'short', year: 'numeric' })} {date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })} · {formatRelativeTime(r.remindAt)}
                                         </span>
-                                        {r.phoneNumber && <span className="text-xs text-slate-600 flex items-center gap-1"><span className="material-symbols-outlined text-xs">phone</span>{r.phoneNumber}</span>}
+                                        {r.phoneNumber && <span className="text-xs text-slate-600 flex items-center gap-1"><span className="material-symbols-outlined text-xs">phone</span>{formatPhone(r.phoneNumber)}</span>}
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-1 flex-shrink-0">
@@ -379,10 +375,7 @@ export default function RemindersPage() {
                             </div>
                             <div>
                                 <label className="block text-xs font-medium text-slate-400 mb-1.5">WhatsApp Numarası <span className="text-slate-600">(boş = varsayılan)</span></label>
-                                <div className="relative">
-                                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm">+90</span>
-                                    <input className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-12 pr-3 py-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-primary" placeholder="5XX XXX XX XX" value={form.phoneNumber || ''} onChange={e => setForm(f => ({ ...f, phoneNumber: e.target.value }))} />
-                                </div>
+                                <PhoneInput className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-primary" value={form.phoneNumber || ''} onChange={phoneNumber => setForm(f => ({ ...f, phoneNumber }))} />
                             </div>
                         </div>
                         <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
@@ -423,10 +416,7 @@ export default function RemindersPage() {
                             </div>
                             <div>
                                 <label className="block text-xs font-medium text-slate-400 mb-1.5">Varsayılan Alıcı (Şahsi hattınız)</label>
-                                <div className="relative">
-                                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm">+90</span>
-                                    <input className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-12 pr-3 py-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-primary" placeholder="5XX XXX XX XX" value={whatsappConfig.defaultPhone} onChange={e => setWhatsappConfig(c => ({ ...c, defaultPhone: e.target.value }))} />
-                                </div>
+                                <PhoneInput className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-primary" value={whatsappConfig.defaultPhone} onChange={defaultPhone => setWhatsappConfig(c => ({ ...c, defaultPhone }))} />
                                 <p className="text-xs text-slate-600 mt-1">Hatırlatıcılar bu numaraya gönderilir</p>
                             </div>
                         </div>
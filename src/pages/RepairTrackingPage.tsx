@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { RepairTrackingInfo } from '../types';
+import * as api from '../utils/api';
+import { formatCurrency, formatDate, formatDateTime, getRepairStatusInfo, parseTrackingCode } from '../utils/helpers';
+import { loadShopInfo } from '../utils/receipt';
+
+interface RepairTrackingPageProps {
+    initialCode: string;
+}
+
+// Public page (no login): the customer proves ownership with the last 4 digits
+// of their phone and only ever sees RepairTrackingInfo.
+export default function RepairTrackingPage({ initialCode }: RepairTrackingPageProps) {
+    const shop = loadShopInfo();
+    const [code, setCode] = useState(parseTrackingCode(initialCode));
+    const [phoneLast4, setPhoneLast4] = useState('');
+    const [result, setResult] = useState<RepairTrackingInfo | null>(null);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trackingCode = parseTrackingCode(code);
+        if (!trackingCode || !/^\d{4}$/.test(phoneLast4)) {
+            setError('Takip kodunu ve telefonunuzun son 4 hanesini girin.');
+            return;
+        }
+        setLoading(true);
+        setError('');
+        setResult(null);
+        try {
+            const info = await api.trackRepair(trackingCode, phoneLast4);
+            if (info) setResult(info);
+            else setError('Kayıt bulunamadı. Takip kodunu ve telefon numaranızı kontrol edin.');
+        } catch {
+            setError('Sorgulama şu anda yapılamıyor, lütfen daha sonra tekrar deneyin.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const statusInfo = result ? getRepairStatusInfo(result.status) : null;
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background-dark relative overflow-hidden p-4">
+            <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-amber-500/10 rounded-full blur-3xl"></div>
+            <div className="absolute bottom-1/4 right-1/4 w-80 h-80 bg-primary/10 rounded-full blur-3xl"></div>
+
+            <div className="w-full max-w-md animate-fade-in relative">
+                <div className="text-center mb-8">
+                    <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-amber-500/20 mb-4">
+                        <span className="material-symbols-outlined text-amber-400 text-4xl">build</span>
+                    </div>
+                    <h1 className="text-3xl font-bold text-white">{shop.name}</h1>
+                    <p className="text-slate-400 mt-2">Tamir Takibi</p>
+                </div>
+
+                <div className="glass-panel rounded-2xl p-8 space-y-6">
+                    <form onSubmit={handleSubmit} className="space-y-5">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Takip Kodu</label>
+                            <div className="relative">
+                                <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">qr_code_2</span>
+                                <input
+                                    type="text"
+                                    value={code}
+                                    onChange={e => setCode(e.target.value.toUpperCase())}
+                                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white font-mono tracking-widest placeholder:text-slate-500 focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none"
+                                    placeholder="Fişinizdeki kod"
+                                    autoFocus={!code}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Telefonunuzun Son 4 Hanesi</label>
+                            <div className="relative">
+                                <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">phone</span>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    maxLength={4}
+                                    value={phoneLast4}
+                                    onChange={e => setPhoneLast4(e.target.value.replace(/\D/g, ''))}
+                                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-sm text-white tracking-widest placeholder:text-slate-500 focus:border-amber-500 focus:ring-1 focus:ring-amber-500 outline-none"
+                                    placeholder="••••"
+                                    autoFocus={!!code}
+                                />
+                            </div>
+                        </div>
+
+                        {error && (
+                            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+                                <span className="material-symbols-outlined text-lg">error</span>
+                                {error}
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full py-2.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium shadow-lg shadow-amber-500/25 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                        >
+                            {loading ? (
+                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
+                            ) : (
+                                <>
+                                    <span className="material-symbols-outlined text-lg">search</span>
+                                    Sorgula
+                                </>
+                            )}
+                        </button>
+                    </form>
+
+                    {result && statusInfo && (
+                        <div className="space-y-3 border-t border-slate-700 pt-6">
+                            <div className="flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-xs text-slate-500">Cihaz</p>
+                                    <p className="text-sm text-white font-medium truncate">{result.deviceInfo}</p>
+                                </div>
+                                <span className={`px-3 py-1 rounded-full text-xs font-medium shrink-0 ${statusInfo.color}`}>{statusInfo.label}</span>
+                            </div>
+                            <div className="bg-slate-800/50 rounded-xl p-4 space-y-2 text-sm">
+                                <div className="flex justify-between"><span className="text-slate-400">Son Güncelleme</span><span className="text-white">{formatDateTime(result.updatedAt)}</span></div>
+                                {result.deliveredAt ? (
+                                    <div className="flex justify-between"><span className="text-slate-400">Teslim Tarihi</span><span className="text-emerald-400">{formatDate(result.deliveredAt)}</span></div>
+                                ) : result.status !== 'cancelled' && (
+                                    <div className="flex justify-between"><span className="text-slate-400">Tahmini Teslim</span><span className="text-white">{result.estimatedAt ? formatDate(result.estimatedAt) : 'Belirlenmedi'}</span></div>
+                                )}
+                                {result.status !== 'delivered' && result.status !== 'cancelled' && (
+                                    <div className="flex justify-between font-bold border-t border-slate-700 pt-2"><span className="text-slate-300">Kalan Ödeme</span><span className="text-amber-400">{formatCurrency(result.remaining)}</span></div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {(shop.phone || shop.address) && (
+                    <div className="mt-6 text-center text-sm text-slate-400 space-y-1">
+                        {shop.phone && (
+                            <a href={`tel:${shop.phone.replace(/[^\d+]/g, '')}`} className="inline-flex items-center gap-1 hover:text-white">
+                                <span className="material-symbols-outlined text-base">call</span> {shop.phone}
+                            </a>
+                        )}
+                        {shop.address && <p className="flex items-center justify-center gap-1"><span className="material-symbols-outlined text-base">location_on</span> {shop.address}</p>}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
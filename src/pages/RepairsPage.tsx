@@ -1,11 +1,20 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import type { RepairRecord, Supplier, Customer } from '../types';
-import { formatDate, getRepairStatusInfo, generateId } from '../utils/helpers';
+import type { RepairRecord, RepairPart, RepairNotification, RepairChecklistItem, Supplier, Customer, Product, StaffMember } from '../types';
+import { formatDate, formatDateTime, formatDuration, getRepairStatusInfo, generateId, generateTrackingCode, parseTrackingCode, changeRepairStatus, getCurrentUserName, getRepairStatusDurations, getRepairTurnaround, getRepairPartsCost, getRepairPartQuantities } from '../utils/helpers';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
 import { Html5Qrcode } from 'html5-qrcode';
 import CustomerSelector from '../components/CustomerSelector';
+import { printRepairIntake, printRepairLabel } from '../utils/repairTicket';
+import { findRepairCustomer, loadRepairTemplates, renderRepairMessage, saveRepairTemplates, TEMPLATE_PLACEHOLDERS } from '../utils/repairNotify';
+import { isWhatsAppConfigured, sendWhatsAppMessage } from '../utils/whatsapp';
+import { formatPhone } from '../utils/phone';
+import { MAX_INTAKE_PHOTOS, compressPhoto, createIntakeChecklist, getChecklistValueLabel, loadIntakeChecklist, saveIntakeChecklist } from '../utils/repairIntake';
+import { getCurrentStaffMember, getTechnicians } from '../utils/staff';
+import { repairPartDeltas } from '../utils/backend';
+import { hasPermission } from '../utils/auth';
+import { REPAIR_TYPES, WARRANTY_RETURN_TYPE, findWarrantyRepairs, getRepairTypeLabel, getWarrantyExpiry, isUnderWarranty, isWarrantyReturn, loadWarrantyDays, saveWarrantyDays } from '../utils/repairWarranty';
 
 interface RepairsPageProps {
     repairs: RepairRecord[];
@@ -13,6 +22,9 @@ interface RepairsPageProps {
     suppliers: Supplier[];
     customers: Customer[];
     setCustomers: (c: Customer[]) => void;
+    products: Product[];
+    setProducts: (p: Product[]) => void;
+    staff: StaffMember[];
 }
 
 // Status progression order
@@ -24,17 +36,35 @@ function getNextStatus(current: RepairRecord['status']): RepairRecord['status']
     return STATUS_FLOW[idx + 1];
 }
 
-export default function RepairsPage({ repairs, setRepairs, suppliers, customers, setCustomers }: RepairsPageProps) {
+export default function RepairsPage({ repairs, setRepairs, suppliers, customers, setCustomers, products, setProducts, staff }: RepairsPageProps) {
     const fp = useFormatPrice();
+    const fc = useFormatPrice('cost');
     const { showToast } = useToast();
     const [statusFilter, setStatusFilter] = useState('all');
     const [search, setSearch] = useState('');
+    // 'all' | 'mine' | 'none' | technician id
+    const [technicianFilter, setTechnicianFilter] = useState('all');
+    const technicians = useMemo(() => getTechnicians(staff), [staff]);
+    const currentMember = useMemo(() => getCurrentStaffMember(staff), [staff]);
     const [showModal, setShowModal] = useState(false);
     const [selectedRepair, setSelectedRepair] = useState<RepairRecord | null>(null);
     const [editing, setEditing] = useState<RepairRecord | null>(null);
     const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+    const [statusTo, setStatusTo] = useState<RepairRecord['status']>('in_progress');
+    const [statusNote, setStatusNote] = useState('');
+    const [templates, setTemplates] = useState(loadRepairTemplates);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [warrantyDefaults, setWarrantyDefaults] = useState(loadWarrantyDays);
+    const [showWarrantySettings, setShowWarrantySettings] = useState(false);
+    const [checklistTemplate, setChecklistTemplate] = useState(loadIntakeChecklist);
+    const [showChecklistSettings, setShowChecklistSettings] = useState(false);
+    const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+    const photoInputRef = useRef<HTMLInputElement>(null);
     const [showScanner, setShowScanner] = useState(false);
+    // Same camera modal reads either an IMEI into the form or a ticket QR
+    const [scanMode, setScanMode] = useState<'imei' | 'tracking'>('imei');
     const scannerRef = useRef<Html5Qrcode | null>(null);
+    const openByCodeRef = useRef<(text: string) => void>(() => { });
 
     // Start barcode scanner
     const startScanner = useCallback(async () => {
@@ -45,10 +75,14 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                 { facingMode: 'environment' },
                 { fps: 10, qrbox: { width: 280, height: 100 } },
                 (decodedText) => {
-                    setForm(f => ({ ...f, imei: decodedText }));
                     scanner.stop().then(() => scanner.clear()).catch(() => { });
                     scannerRef.current = null;
                     setShowScanner(false);
+                    if (scanMode === 'tracking') {
+                        openByCodeRef.current(decodedText);
+                        return;
+                    }
+                    setForm(f => ({ ...f, imei: decodedText }));
                     showToast('IMEI okundu!');
                 },
                 () => { } // ignore scan failures
@@ -58,7 +92,7 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
             showToast('Kamera açılamadı!', 'error');
             setShowScanner(false);
         }
-    }, [showToast]);
+    }, [showToast, scanMode]);
 
     // Cleanup scanner on close
     const stopScanner = useCallback(() => {
@@ -83,11 +117,13 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
     const [customEnd, setCustomEnd] = useState('');
 
     const [form, setForm] = useState({
-        customerName: '', customerPhone: '', deviceInfo: '', imei: '',
-        problemDescription: '', repairCost: 0, partsCost: 0, prePayment: 0,
-        status: 'in_progress' as RepairRecord['status'], paymentMethod: 'cash', technicianNotes: '',
-        supplierId: '', supplierName: ''
+        customerName: '', customerPhone: '', customerId: '', deviceInfo: '', imei: '',
+        problemDescription: '', repairCost: 0, prePayment: 0,
+        status: 'in_progress' as RepairRecord['status'], paymentMethod: 'cash', technicianNotes: '', technicianId: '',
+        parts: [] as RepairPart[], repairType: 'other', warrantyDays: 0, warrantyOf: '', estimatedAt: '',
+        intakeChecklist: [] as RepairChecklistItem[], intakePhotos: [] as string[]
     });
+    const formPartsCost = getRepairPartsCost(form.parts);
 
     const statuses = [
         { id: 'all', label: 'Tümü' },
@@ -119,15 +155,20 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
 
     const filtered = useMemo(() =>
         repairs.filter(r => {
+            // "My queue" is the signed-in technician's open work, whatever the date
+            if (technicianFilter === 'mine') {
+                if (!currentMember || r.technicianId !== currentMember.id || (r.status !== 'in_progress' && r.status !== 'waiting_parts')) return false;
+            } else if (technicianFilter === 'none' ? !!r.technicianId : technicianFilter !== 'all' && r.technicianId !== technicianFilter) return false;
             // Date filter
-            if (dateRange) {
+            if (dateRange && technicianFilter !== 'mine') {
                 const d = new Date(r.createdAt);
                 if (d < dateRange.start || d > dateRange.end) return false;
             }
             if (statusFilter !== 'all' && r.status !== statusFilter) return false;
-            if (search && !r.customerName.toLowerCase().includes(search.toLowerCase()) && !r.deviceInfo.toLowerCase().includes(search.toLowerCase())) return false;
+            if (search && !r.customerName.toLowerCase().includes(search.toLowerCase()) && !r.deviceInfo.toLowerCase().includes(search.toLowerCase())
+                && !(r.trackingCode || '').includes(search.toUpperCase()) && !(r.imei || '').includes(search.trim())) return false;
             return true;
-        }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()), [repairs, statusFilter, search, dateRange]);
+        }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()), [repairs, statusFilter, search, dateRange, technicianFilter, currentMember]);
 
     const totalRepairs = filtered.length;
     const activeRepairs = filtered.filter(r => r.status === 'in_progress' || r.status === 'waiting_parts').length;
@@ -136,90 +177,296 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
 
     const openCreate = () => {
         setEditing(null);
-        setForm({ customerName: '', customerPhone: '', deviceInfo: '', imei: '', problemDescription: '', repairCost: 0, partsCost: 0, prePayment: 0, status: 'in_progress', paymentMethod: 'cash', technicianNotes: '', supplierId: '', supplierName: '' });
+        setForm({ customerName: '', customerPhone: '', customerId: '', deviceInfo: '', imei: '', problemDescription: '', repairCost: 0, prePayment: 0, status: 'in_progress', paymentMethod: 'cash', technicianNotes: '', technicianId: currentMember?.role === 'technician' ? currentMember.id : '', parts: [], repairType: 'other', warrantyDays: warrantyDefaults.other, warrantyOf: '', estimatedAt: '', intakeChecklist: createIntakeChecklist(checklistTemplate), intakePhotos: [] });
         setShowModal(true);
     };
 
     const openEdit = (r: RepairRecord) => {
         setEditing(r);
         setForm({
-            customerName: r.customerName, customerPhone: r.customerPhone, deviceInfo: r.deviceInfo,
+            customerName: r.customerName, customerPhone: r.customerPhone, customerId: r.customerId || '', deviceInfo: r.deviceInfo,
             imei: r.imei, problemDescription: r.problemDescription, repairCost: r.repairCost,
-            partsCost: r.partsCost, prePayment: r.prePayment, status: r.status,
-            paymentMethod: r.paymentMethod || 'cash', technicianNotes: r.technicianNotes,
-            supplierId: r.supplierId || '', supplierName: r.supplierName || ''
+            prePayment: r.prePayment, status: r.status,
+            paymentMethod: r.paymentMethod || 'cash', technicianNotes: r.technicianNotes, technicianId: r.technicianId || '',
+            // Older records only have a lump partsCost; carry it over as one ordered part
+            parts: r.parts || (r.partsCost > 0
+                ? [{ name: 'Parça', quantity: 1, unitCost: r.partsCost, supplierId: r.supplierId, supplierName: r.supplierName }]
+                : []),
+            repairType: r.repairType || 'other',
+            warrantyDays: r.warrantyDays ?? warrantyDefaults[r.repairType || 'other'] ?? 0,
+            warrantyOf: r.warrantyOf || '',
+            estimatedAt: r.estimatedAt || '',
+            intakeChecklist: r.intakeChecklist || createIntakeChecklist(checklistTemplate),
+            intakePhotos: r.intakePhotos || [],
         });
         setShowModal(true);
     };
 
-    const handleSupplierChange = (supplierId: string) => {
-        const supplier = suppliers.find(s => s.id === supplierId);
+    // Earlier repairs on the same device that are still covered
+    const warrantyMatches = useMemo(() => showModal && !form.warrantyOf
+        ? findWarrantyRepairs(repairs, form.imei, form.customerPhone, editing?.id)
+        : [], [showModal, form.warrantyOf, form.imei, form.customerPhone, repairs, editing]);
+    const warrantyOriginal = form.warrantyOf ? repairs.find(r => r.id === form.warrantyOf) : undefined;
+
+    const handleRepairTypeChange = (repairType: string) => {
+        setForm({
+            ...form, repairType, warrantyDays: warrantyDefaults[repairType] ?? 0,
+            warrantyOf: repairType === WARRANTY_RETURN_TYPE ? form.warrantyOf : '',
+        });
+    };
+
+    // Warranty work is free for the customer; parts still count as cost
+    const linkWarrantyReturn = (original: RepairRecord) => {
         setForm({
             ...form,
-            supplierId: supplierId,
-            supplierName: supplier?.name || ''
+            repairType: WARRANTY_RETURN_TYPE, warrantyDays: 0, warrantyOf: original.id, repairCost: 0,
+            deviceInfo: form.deviceInfo || original.deviceInfo, imei: form.imei || original.imei,
+            customerName: form.customerName || original.customerName, customerPhone: form.customerPhone || original.customerPhone,
+            customerId: form.customerName ? form.customerId : original.customerId || '',
         });
     };
 
+    const updateChecklistItem = (idx: number, changes: Partial<RepairChecklistItem>) => {
+        setForm({ ...form, intakeChecklist: form.intakeChecklist.map((c, i) => i === idx ? { ...c, ...changes } : c) });
+    };
+
+    const handlePhotoFiles = async (files: FileList | null) => {
+        if (!files?.length) return;
+        const room = MAX_INTAKE_PHOTOS - form.intakePhotos.length;
+        if (room <= 0) { showToast(`En fazla ${MAX_INTAKE_PHOTOS} fotoğraf eklenebilir`, 'warning'); return; }
+        try {
+            const photos = await Promise.all(Array.from(files).slice(0, room).map(compressPhoto));
+            setForm(f => ({ ...f, intakePhotos: [...f.intakePhotos, ...photos] }));
+            if (files.length > room) showToast(`En fazla ${MAX_INTAKE_PHOTOS} fotoğraf eklenebilir`, 'warning');
+        } catch (e) {
+            showToast((e as Error).message, 'error');
+        }
+    };
+
+    const removePhoto = (idx: number) => {
+        setForm({ ...form, intakePhotos: form.intakePhotos.filter((_, i) => i !== idx) });
+    };
+
+    const handleSaveChecklistSettings = () => {
+        const items = checklistTemplate.filter(t => t.label.trim()).map(t => ({ ...t, label: t.label.trim() }));
+        saveIntakeChecklist(items);
+        setChecklistTemplate(items);
+        setShowChecklistSettings(false);
+        showToast('Kabul kontrol listesi kaydedildi!');
+    };
+
+    const handleSaveWarrantySettings = () => {
+        saveWarrantyDays(warrantyDefaults);
+        setShowWarrantySettings(false);
+        showToast('Garanti süreleri kaydedildi!');
+    };
+
+    const addInventoryPart = (productId: string) => {
+        const product = products.find(p => p.id === productId);
+        if (!product) return;
+        const idx = form.parts.findIndex(p => p.productId === productId);
+        if (idx >= 0) { updatePart(idx, { quantity: form.parts[idx].quantity + 1 }); return; }
+        setForm({ ...form, parts: [...form.parts, { productId, name: product.name, quantity: 1, unitCost: product.purchasePrice }] });
+    };
+
+    const addOrderedPart = () => {
+        setForm({ ...form, parts: [...form.parts, { name: '', quantity: 1, unitCost: 0, supplierId: '', supplierName: '' }] });
+    };
+
+    const updatePart = (idx: number, changes: Partial<RepairPart>) => {
+        setForm({ ...form, parts: form.parts.map((p, i) => i === idx ? { ...p, ...changes } : p) });
+    };
+
+    const removePart = (idx: number) => {
+        setForm({ ...form, parts: form.parts.filter((_, i) => i !== idx) });
+    };
+
+    // The backend moves part stock together with the repair; this mirrors it in the loaded products
+    const shiftPartStock = (before: RepairRecord | null, after: RepairRecord) => {
+        const deltas = repairPartDeltas(before, after);
+        if (deltas.size > 0) setProducts(products.map(p => deltas.has(p.id) ? { ...p, stock: p.stock + deltas.get(p.id)! } : p));
+    };
+
+    // Sends the template for the record's current status (or `message` for a resend)
+    // and returns the record with the attempt appended to its log
+    const sendStatusNotification = async (r: RepairRecord, manual = false, message?: string): Promise<RepairRecord> => {
+        const template = templates[r.status];
+        if (!manual && !template.enabled) return r;
+        if (findRepairCustomer(customers, r)?.notificationsOptOut) {
+            if (manual) showToast('Müşteri WhatsApp bildirimi almak istemiyor', 'warning');
+            return r;
+        }
+        if (!r.customerPhone || !isWhatsAppConfigured()) {
+            if (manual) showToast(r.customerPhone ? 'WhatsApp ayarları eksik (Hatırlatıcılar sayfası)' : 'Müşteri telefonu yok!', 'error');
+            return r;
+        }
+        const text = message ?? renderRepairMessage(template.text, r);
+        const entry: RepairNotification = { status: r.status, to: r.customerPhone, message: text, at: new Date().toISOString(), ok: true, user: getCurrentUserName() };
+        try {
+            await sendWhatsAppMessage(r.customerPhone, text);
+        } catch (err) {
+            entry.ok = false;
+            entry.error = err instanceof Error ? err.message : String(err);
+        }
+        const updated: RepairRecord = { ...r, notifications: [...(r.notifications || []), entry] };
+        try {
+            await api.saveRepair(updated);
+        } catch { /* the message went out either way; the log entry is kept locally */ }
+        showToast(entry.ok ? 'Müşteriye WhatsApp bildirimi gönderildi' : `Bildirim gönderilemedi: ${entry.error}`, entry.ok ? 'success' : 'error');
+        return updated;
+    };
+
     // Save repair
     const handleSave = async () => {
         if (!form.customerName || !form.deviceInfo) { showToast('Müşteri adı ve cihaz bilgisi zorunlu!', 'error'); return; }
+        if (form.parts.some(p => !p.name.trim() || p.quantity <= 0)) { showToast('Parça adı ve adedi zorunlu!', 'error'); return; }
+        const prevQty = getRepairPartQuantities(editing?.parts);
+        for (const [productId, qty] of getRepairPartQuantities(form.parts)) {
+            const product = products.find(p => p.id === productId);
+            const needed = qty - (prevQty.get(productId) || 0);
+            if (product && needed > product.stock) {
+                showToast(`Yetersiz stok: ${product.name} (stokta ${product.stock})`, 'error');
+                return;
+            }
+        }
         try {
+            const createdAt = editing?.createdAt || new Date().toISOString();
+            // The repair list and older screens still read a single supplier per record
+            const firstSupplierPart = form.parts.find(p => !p.productId && p.supplierId);
             const recordData = {
                 ...form,
-                profit: form.repairCost - form.partsCost,
-                createdAt: editing?.createdAt || new Date().toISOString(),
+                partsCost: formPartsCost,
+                customerId: form.customerId || undefined,
+                warrantyOf: form.repairType === WARRANTY_RETURN_TYPE && form.warrantyOf ? form.warrantyOf : undefined,
+                estimatedAt: form.estimatedAt || undefined,
+                technicianId: form.technicianId || undefined,
+                technicianName: form.technicianId ? staff.find(m => m.id === form.technicianId)?.name || editing?.technicianName : undefined,
+                // An untouched checklist (e.g. older records opened for edit) is not stored
+                intakeChecklist: form.intakeChecklist.some(c => c.value !== undefined || c.note) ? form.intakeChecklist : undefined,
+                supplierId: firstSupplierPart?.supplierId || '',
+                supplierName: firstSupplierPart?.supplierName || '',
+                profit: form.repairCost - formPartsCost,
+                trackingCode: editing?.trackingCode || generateTrackingCode(),
+                statusHistory: editing?.statusHistory || [{ from: null, to: form.status, at: createdAt, user: getCurrentUserName() }],
+                createdAt,
                 deliveredAt: form.status === 'delivered' ? new Date().toISOString() : undefined,
             };
 
             if (editing) {
-                const record: RepairRecord = { id: editing.id, ...recordData };
+                // A status picked in the edit form is a transition like any other
+                const record: RepairRecord = form.status !== editing.status
+                    ? changeRepairStatus({ ...recordData, id: editing.id, status: editing.status }, form.status)
+                    : { id: editing.id, ...recordData, deliveredAt: form.status === 'delivered' ? editing.deliveredAt || recordData.deliveredAt : undefined };
                 await api.saveRepair(record);
-                setRepairs(repairs.map(r => r.id === record.id ? record : r));
+                shiftPartStock(editing, record);
+                const notified = record.status !== editing.status ? await sendStatusNotification(record) : record;
+                setRepairs(repairs.map(r => r.id === record.id ? notified : r));
             } else {
-                const record: RepairRecord = { id: '', ...recordData };
+                const record: RepairRecord = { id: generateId(), ...recordData };
                 const result = await api.saveRepair(record);
-                const saved: RepairRecord = result ? { ...recordData, ...result } : { ...record, id: generateId() };
-                setRepairs([saved, ...repairs]);
+                const saved: RepairRecord = result ? { ...recordData, ...result } : record;
+                shiftPartStock(null, saved);
+                const notified = await sendStatusNotification(saved);
+                setRepairs([notified, ...repairs]);
+                // Straight to the detail view so the ticket and label can be printed
+                openDetail(notified);
             }
             setShowModal(false);
             const msg = editing ? 'Tamir kaydı güncellendi!' : 'Tamir kaydı eklendi!';
-            showToast(form.supplierId && form.partsCost > 0
+            showToast(firstSupplierPart
                 ? `${msg} Tedarikçi borcuna yansıtıldı.`
                 : msg);
         } catch (err) {
+            if (err instanceof api.InsufficientStockError) { showToast(err.message, 'error'); return; }
             console.error('Repair save error:', err);
             showToast('Hata oluştu!', 'error');
         }
     };
 
     // Status progression handler
+    const handleStatusChange = async (r: RepairRecord, to: RepairRecord['status'], note?: string) => {
+        try {
+            const changed = changeRepairStatus(r, to, note);
+            await api.saveRepair(changed);
+            const statusLabel = getRepairStatusInfo(to).label;
+            showToast(`Durum güncellendi: ${statusLabel}`);
+
+            const updated = to !== r.status ? await sendStatusNotification(changed) : changed;
+            setRepairs(repairs.map(rep => rep.id === r.id ? updated : rep));
+            setSelectedRepair(sel => sel?.id === r.id ? updated : sel);
+            return true;
+        } catch {
+            showToast('Durum güncellenemedi!', 'error');
+            return false;
+        }
+    };
+
     const handleStatusAdvance = async (r: RepairRecord) => {
         const nextStatus = getNextStatus(r.status);
         if (!nextStatus) return;
+        await handleStatusChange(r, nextStatus);
+    };
 
-        try {
-            const updated: RepairRecord = {
-                ...r,
-                status: nextStatus,
-                deliveredAt: nextStatus === 'delivered' ? new Date().toISOString() : r.deliveredAt,
-            };
-            await api.saveRepair(updated);
-            setRepairs(repairs.map(rep => rep.id === r.id ? updated : rep));
+    const openDetail = (r: RepairRecord) => {
+        setSelectedRepair(r);
+        setStatusTo(getNextStatus(r.status) || r.status);
+        setStatusNote('');
+    };
 
-            const statusLabel = getRepairStatusInfo(nextStatus).label;
-            showToast(`Durum güncellendi: ${statusLabel}`);
-        } catch {
-            showToast('Durum güncellenemedi!', 'error');
+    const handleManualNotify = async (r: RepairRecord, message?: string) => {
+        const updated = await sendStatusNotification(r, true, message);
+        if (updated === r) return;
+        setRepairs(repairs.map(rep => rep.id === r.id ? updated : rep));
+        setSelectedRepair(sel => sel?.id === r.id ? updated : sel);
+    };
+
+    const handleSaveTemplates = () => {
+        saveRepairTemplates(templates);
+        setShowTemplates(false);
+        showToast('Bildirim şablonları kaydedildi!');
+    };
+
+    const handleDetailStatusSave = async () => {
+        if (!selectedRepair) return;
+        if (statusTo === selectedRepair.status && !statusNote.trim()) { showToast('Yeni durum seçin veya not girin!', 'error'); return; }
+        if (await handleStatusChange(selectedRepair, statusTo, statusNote.trim() || undefined)) setStatusNote('');
+    };
+
+    useEffect(() => {
+        openByCodeRef.current = (text: string) => {
+            const code = parseTrackingCode(text);
+            const match = repairs.find(r => r.trackingCode === code);
+            if (match) openDetail(match);
+            else showToast(`Takip kodu bulunamadı: ${code}`, 'error');
+        };
+    });
+
+    const openTrackingScanner = () => {
+        setScanMode('tracking');
+        setShowScanner(true);
+    };
+
+    // Records created before tracking codes existed get one the first time they are printed
+    const handlePrint = (r: RepairRecord, kind: 'intake' | 'label') => {
+        const record = r.trackingCode ? r : { ...r, trackingCode: generateTrackingCode() };
+        const opened = kind === 'intake' ? printRepairIntake(record) : printRepairLabel(record);
+        if (!opened) { showToast('Yazdırma penceresi açılamadı!', 'error'); return; }
+        if (record !== r) {
+            setRepairs(repairs.map(rep => rep.id === r.id ? record : rep));
+            setSelectedRepair(record);
+            api.saveRepair(record).catch(() => showToast('Takip kodu kaydedilemedi!', 'error'));
         }
     };
 
     const handleDelete = async (id: string) => {
         try {
+            const target = repairs.find(r => r.id === id);
             await api.deleteRepair(id);
+            // Parts that never left with the device went back on the shelf
+            if (target) shiftPartStock(target, { ...target, deletedAt: new Date().toISOString() });
             setRepairs(repairs.filter(r => r.id !== id));
             setDeleteTarget(null);
-            showToast('Silindi!');
+            showToast('Çöp kutusuna taşındı!');
         } catch { showToast('Hata!', 'error'); }
     };
 
@@ -249,6 +496,18 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 <input type="date" value={customEnd} onChange={e => { setCustomEnd(e.target.value); if (customStart && e.target.value) setDateFilter('custom'); }}
                                     className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white focus:border-amber-500 outline-none" />
                             </div>
+                            <button onClick={() => setShowChecklistSettings(true)} title="Cihaz kabul kontrol listesi" className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2 ml-2">
+                                <span className="material-symbols-outlined text-lg">checklist</span>Kabul Listesi
+                            </button>
+                            <button onClick={() => setShowWarrantySettings(true)} title="Tamir türü garanti süreleri" className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2 ml-2">
+                                <span className="material-symbols-outlined text-lg">verified_user</span>Garanti
+                            </button>
+                            <button onClick={() => setShowTemplates(true)} title="Durum bildirim şablonları" className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2 ml-2">
+                                <span className="material-symbols-outlined text-lg">sms</span>Bildirimler
+                            </button>
+                            <button onClick={openTrackingScanner} title="Fiş / etiket QR kodunu okut" className="px-3 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 rounded-lg text-sm font-medium flex items-center gap-2 ml-2">
+                                <span className="material-symbols-outlined text-lg">qr_code_scanner</span>Kod Okut
+                            </button>
                             <button onClick={openCreate} className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-amber-500/25 flex items-center gap-2 ml-2">
                                 <span className="material-symbols-outlined text-lg">add</span>Yeni Tamir
                             </button>
@@ -274,9 +533,20 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                     <div className="flex gap-3 items-center bg-surface-dark border border-slate-700/50 p-4 rounded-xl">
                         <div className="relative w-64">
                             <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">search</span>
-                            <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Müşteri, cihaz..."
+                            <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Müşteri, cihaz, takip kodu..."
                                 className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-amber-500 outline-none" />
                         </div>
+                        <select value={technicianFilter === 'mine' ? 'all' : technicianFilter} onChange={e => setTechnicianFilter(e.target.value)}
+                            className="bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
+                            <option value="all">Tüm Teknisyenler</option>
+                            <option value="none">Atanmamış</option>
+                            {staff.filter(m => m.role === 'technician').map(m => <option key={m.id} value={m.id}>{m.name}{m.active ? '' : ' (pasif)'}</option>)}
+                        </select>
+                        <button onClick={() => setTechnicianFilter(technicianFilter === 'mine' ? 'all' : 'mine')} disabled={!currentMember}
+                            title={currentMember ? 'Bana atanmış açık tamirler' : 'Giriş yapan kullanıcı personel listesinde yok'}
+                            className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-all disabled:opacity-40 ${technicianFilter === 'mine' ? 'bg-amber-500 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700'}`}>
+                            <span className="material-symbols-outlined text-lg">engineering</span>Kuyruğum
+                        </button>
                         <div className="flex gap-2 ml-auto">
                             {statuses.map(s => (
                                 <button key={s.id} onClick={() => setStatusFilter(s.id)}
@@ -306,16 +576,24 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                         const nextStatus = getNextStatus(r.status);
                                         const nextSt = nextStatus ? getRepairStatusInfo(nextStatus) : null;
                                         return (
-                                            <tr key={r.id} onClick={() => setSelectedRepair(r)} className={`hover:bg-surface-hover/50 transition-colors cursor-pointer ${selectedRepair?.id === r.id ? 'bg-amber-500/10 border-l-2 border-amber-500' : ''}`}>
-                                                <td className="p-4 text-slate-300">{formatDate(r.createdAt)}</td>
+                                            <tr key={r.id} onClick={() => openDetail(r)} className={`hover:bg-surface-hover/50 transition-colors cursor-pointer ${selectedRepair?.id === r.id ? 'bg-amber-500/10 border-l-2 border-amber-500' : ''}`}>
+                                                <td className="p-4 text-slate-300">
+                                                    {formatDate(r.createdAt)}
+                                                    {r.trackingCode && <div className="text-xs text-slate-500 font-mono">{r.trackingCode}</div>}
+                                                </td>
                                                 <td className="p-4">
                                                     <div className="font-medium text-white">{r.customerName}</div>
-                                                    <div className="text-xs text-slate-400">{r.customerPhone}</div>
+                                                    <div className="text-xs text-slate-400">{formatPhone(r.customerPhone)}</div>
+                                                </td>
+                                                <td className="p-4 text-white">
+                                                    {r.deviceInfo}
+                                                    {isWarrantyReturn(r) && <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-violet-500/20 text-violet-400">GARANTİ</span>}
+                                                    {r.repairType && !isWarrantyReturn(r) && <div className="text-xs text-slate-500">{getRepairTypeLabel(r.repairType)}</div>}
+                                                    {r.technicianName && <div className="text-xs text-amber-400/80 flex items-center gap-1"><span className="material-symbols-outlined text-xs">engineering</span>{r.technicianName}</div>}
                                                 </td>
-                                                <td className="p-4 text-white">{r.deviceInfo}</td>
                                                 <td className="p-4 text-slate-400 font-mono text-xs">{r.imei || '—'}</td>
                                                 <td className="p-4 text-right font-medium text-white">{fp(r.repairCost)}</td>
-                                                <td className="p-4 text-right font-medium text-emerald-400">+{fp(r.profit)}</td>
+                                                <td className="p-4 text-right font-medium text-emerald-400">+{fc(r.profit)}</td>
                                                 {/* Status Column with Progression Button */}
                                                 <td className="p-4">
                                                     <div className="flex flex-col gap-1.5">
@@ -373,6 +651,7 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 const st = getRepairStatusInfo(selectedRepair.status); return (
                                     <div className="flex items-center gap-2">
                                         <span className={`px-3 py-1 rounded-full text-xs font-medium ${st.color}`}>{st.label}</span>
+                                        {selectedRepair.trackingCode && <span className="px-2 py-1 rounded-md text-xs font-mono font-bold bg-slate-800 text-amber-400 tracking-wider">{selectedRepair.trackingCode}</span>}
                                         {selectedRepair.supplierName && <span className="text-xs text-slate-400 flex items-center gap-1"><span className="material-symbols-outlined text-xs">local_shipping</span>{selectedRepair.supplierName}</span>}
                                     </div>
                                 );
@@ -385,7 +664,7 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                     <div className="w-10 h-10 rounded-full bg-amber-500/10 flex items-center justify-center"><span className="material-symbols-outlined text-amber-400">person</span></div>
                                     <div>
                                         <p className="font-medium text-white">{selectedRepair.customerName}</p>
-                                        <p className="text-xs text-slate-400">{selectedRepair.customerPhone}</p>
+                                        <p className="text-xs text-slate-400">{formatPhone(selectedRepair.customerPhone)}</p>
                                     </div>
                                 </div>
                             </div>
@@ -395,11 +674,56 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Cihaz Bilgileri</p>
                                 <p className="text-white font-medium">{selectedRepair.deviceInfo}</p>
                                 {selectedRepair.imei && <p className="text-xs text-slate-400 font-mono">IMEI: {selectedRepair.imei}</p>}
+                                <p className="text-sm text-slate-300 flex items-center gap-1">
+                                    <span className="material-symbols-outlined text-base text-amber-400">engineering</span>
+                                    {selectedRepair.technicianName || <span className="text-slate-500">Teknisyen atanmadı</span>}
+                                </p>
                                 <p className="text-sm text-slate-300 mt-2">
                                     <span className="text-slate-500">Arıza:</span> {selectedRepair.problemDescription || '—'}
                                 </p>
                             </div>
 
+                            {/* Warranty */}
+                            {(() => {
+                                const expiry = getWarrantyExpiry(selectedRepair);
+                                const original = selectedRepair.warrantyOf ? repairs.find(r => r.id === selectedRepair.warrantyOf) : undefined;
+                                const returns = repairs.filter(r => r.warrantyOf === selectedRepair.id);
+                                return (
+                                    <div className="bg-slate-800/50 rounded-xl p-4 space-y-2">
+                                        <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Tür ve Garanti</p>
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="text-sm text-white">{getRepairTypeLabel(selectedRepair.repairType)}</span>
+                                            {!isWarrantyReturn(selectedRepair) && (
+                                                selectedRepair.warrantyDays
+                                                    ? <span className="text-xs text-slate-400">· {selectedRepair.warrantyDays} gün garanti</span>
+                                                    : <span className="text-xs text-slate-500">· Garantisiz</span>
+                                            )}
+                                        </div>
+                                        {expiry && (
+                                            <p className={`text-xs flex items-center gap-1 ${isUnderWarranty(selectedRepair) ? 'text-emerald-400' : 'text-slate-500'}`}>
+                                                <span className="material-symbols-outlined text-sm">{isUnderWarranty(selectedRepair) ? 'verified_user' : 'gpp_maybe'}</span>
+                                                {isUnderWarranty(selectedRepair) ? 'Garanti bitişi' : 'Garanti sona erdi'}: {formatDate(expiry.toISOString())}
+                                            </p>
+                                        )}
+                                        {!expiry && !!selectedRepair.warrantyDays && selectedRepair.status !== 'delivered' && (
+                                            <p className="text-xs text-slate-500">Garanti teslim tarihinde başlar</p>
+                                        )}
+                                        {original && (
+                                            <button onClick={() => openDetail(original)} className="text-xs text-violet-400 hover:underline flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-sm">link</span>
+                                                Asıl tamir: {formatDate(original.createdAt)} · {getRepairTypeLabel(original.repairType)}
+                                            </button>
+                                        )}
+                                        {returns.map(r => (
+                                            <button key={r.id} onClick={() => openDetail(r)} className="text-xs text-amber-400 hover:underline flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-sm">undo</span>
+                                                Garanti dönüşü: {formatDate(r.createdAt)} · {getRepairStatusInfo(r.status).label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                );
+                            })()}
+
                             {/* Dates */}
                             <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
                                 <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Tarihler</p>
@@ -410,6 +734,15 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                         <p className="text-sm text-white">{formatDate(selectedRepair.createdAt)}</p>
                                     </div>
                                 </div>
+                                {selectedRepair.estimatedAt && !selectedRepair.deliveredAt && (
+                                    <div className="flex items-center gap-3">
+                                        <span className="material-symbols-outlined text-amber-400 text-lg">event_upcoming</span>
+                                        <div>
+                                            <p className="text-xs text-slate-500">Tahmini Teslim</p>
+                                            <p className="text-sm text-white">{formatDate(selectedRepair.estimatedAt)}</p>
+                                        </div>
+                                    </div>
+                                )}
                                 {selectedRepair.deliveredAt && (
                                     <div className="flex items-center gap-3">
                                         <span className="material-symbols-outlined text-emerald-400 text-lg">check_circle</span>
@@ -419,6 +752,62 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                         </div>
                                     </div>
                                 )}
+                                {getRepairTurnaround(selectedRepair) !== null && (
+                                    <div className="flex items-center gap-3">
+                                        <span className="material-symbols-outlined text-amber-400 text-lg">timer</span>
+                                        <div>
+                                            <p className="text-xs text-slate-500">Toplam Süre</p>
+                                            <p className="text-sm text-white">{formatDuration(getRepairTurnaround(selectedRepair)!)}</p>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Status Timeline */}
+                            <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
+                                <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Durum Geçmişi</p>
+                                {(selectedRepair.statusHistory || []).length === 0 ? (
+                                    <p className="text-xs text-slate-500">Bu kayıt için durum geçmişi tutulmamış.</p>
+                                ) : (
+                                    <ol className="relative border-l border-slate-700 ml-2 space-y-3">
+                                        {selectedRepair.statusHistory!.map((e, idx) => {
+                                            const to = getRepairStatusInfo(e.to);
+                                            return (
+                                                <li key={idx} className="ml-4">
+                                                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-slate-600 border-2 border-surface-dark"></span>
+                                                    <div className="flex items-center gap-2 flex-wrap">
+                                                        {e.from && <span className="text-xs text-slate-500">{getRepairStatusInfo(e.from).label} →</span>}
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${to.color}`}>{e.from ? to.label : `Kabul: ${to.label}`}</span>
+                                                    </div>
+                                                    <p className="text-xs text-slate-500 mt-0.5">{formatDateTime(e.at)} · {e.user}</p>
+                                                    {e.note && <p className="text-sm text-slate-300 mt-1">{e.note}</p>}
+                                                </li>
+                                            );
+                                        })}
+                                    </ol>
+                                )}
+                                {(() => {
+                                    const durations = getRepairStatusDurations(selectedRepair);
+                                    const entries = Object.entries(durations) as [RepairRecord['status'], number][];
+                                    return entries.length > 0 && (
+                                        <div className="flex flex-wrap gap-2 pt-1">
+                                            {entries.map(([status, ms]) => (
+                                                <span key={status} className="text-xs px-2 py-1 rounded-md bg-slate-900/60 text-slate-300">
+                                                    {getRepairStatusInfo(status).label}: <b className="text-white">{formatDuration(ms)}</b>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    );
+                                })()}
+                                <div className="flex gap-2 pt-2 border-t border-slate-700/50">
+                                    <select value={statusTo} onChange={e => setStatusTo(e.target.value as RepairRecord['status'])}
+                                        className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white focus:border-amber-500 outline-none">
+                                        {statuses.filter(s => s.id !== 'all').map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                                    </select>
+                                    <input value={statusNote} onChange={e => setStatusNote(e.target.value)} placeholder="Not (isteğe bağlı)"
+                                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-xs text-white placeholder:text-slate-500 focus:border-amber-500 outline-none" />
+                                    <button onClick={handleDetailStatusSave} className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-medium">Kaydet</button>
+                                </div>
                             </div>
 
                             {/* Financials */}
@@ -426,9 +815,18 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Ücret Detayları</p>
                                 <div className="space-y-2">
                                     <div className="flex justify-between text-sm"><span className="text-slate-400">Tamir Ücreti</span><span className="text-white font-medium">{fp(selectedRepair.repairCost)}</span></div>
-                                    <div className="flex justify-between text-sm"><span className="text-slate-400">Parça Maliyeti</span><span className="text-red-400">-{fp(selectedRepair.partsCost)}</span></div>
+                                    <div className="flex justify-between text-sm"><span className="text-slate-400">Parça Maliyeti</span><span className="text-red-400">-{fc(selectedRepair.partsCost)}</span></div>
+                                    {(selectedRepair.parts || []).map((part, idx) => (
+                                        <div key={idx} className="flex justify-between text-xs pl-3">
+                                            <span className="text-slate-500 flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-xs">{part.productId ? 'inventory_2' : 'local_shipping'}</span>
+                                                {part.quantity} x {part.name}{part.supplierName ? ` · ${part.supplierName}` : ''}
+                                            </span>
+                                            <span className="text-slate-400">{fc(part.quantity * part.unitCost)}</span>
+                                        </div>
+                                    ))}
                                     {selectedRepair.prePayment > 0 && <div className="flex justify-between text-sm"><span className="text-slate-400">Ön Ödeme</span><span className="text-blue-400">{fp(selectedRepair.prePayment)}</span></div>}
-                                    <div className="border-t border-slate-700 pt-2 flex justify-between text-sm font-bold"><span className="text-slate-300">Net Kâr</span><span className="text-emerald-400">{fp(selectedRepair.profit)}</span></div>
+                                    <div className="border-t border-slate-700 pt-2 flex justify-between text-sm font-bold"><span className="text-slate-300">Net Kâr</span><span className="text-emerald-400">{fc(selectedRepair.profit)}</span></div>
                                 </div>
                             </div>
 
@@ -461,6 +859,66 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 </div>
                             )}
 
+                            {/* Intake Condition */}
+                            {((selectedRepair.intakeChecklist || []).length > 0 || (selectedRepair.intakePhotos || []).length > 0) && (
+                                <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
+                                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Kabul Kontrolü</p>
+                                    {(selectedRepair.intakeChecklist || []).map(c => (
+                                        <div key={c.id} className="flex items-start justify-between gap-3 text-sm">
+                                            <span className="text-slate-400">{c.label}{c.note && <span className="block text-xs text-slate-500">{c.note}</span>}</span>
+                                            <span className={c.value === undefined ? 'text-slate-500' : c.kind === 'yesno' ? 'text-white' : c.value ? 'text-emerald-400' : 'text-red-400'}>{getChecklistValueLabel(c)}</span>
+                                        </div>
+                                    ))}
+                                    {(selectedRepair.intakePhotos || []).length > 0 && (
+                                        <div className="grid grid-cols-4 gap-2">
+                                            {selectedRepair.intakePhotos!.map((src, idx) => (
+                                                <button key={idx} onClick={() => setPhotoPreview(src)} className="aspect-square rounded-lg overflow-hidden border border-slate-700 hover:border-amber-500">
+                                                    <img src={src} alt={`Kabul fotoğrafı ${idx + 1}`} className="w-full h-full object-cover" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* WhatsApp Notifications */}
+                            <div className="bg-slate-800/50 rounded-xl p-4 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">WhatsApp Bildirimleri</p>
+                                    <button onClick={() => handleManualNotify(selectedRepair)} className="text-xs text-emerald-400 hover:text-emerald-300 flex items-center gap-1">
+                                        <span className="material-symbols-outlined text-sm">send</span>Durumu Bildir
+                                    </button>
+                                </div>
+                                {findRepairCustomer(customers, selectedRepair)?.notificationsOptOut && (
+                                    <p className="text-xs text-amber-400 flex items-center gap-1"><span className="material-symbols-outlined text-sm">notifications_off</span>Müşteri bildirim almak istemiyor</p>
+                                )}
+                                {(selectedRepair.notifications || []).length === 0 ? (
+                                    <p className="text-xs text-slate-500">Henüz bildirim gönderilmedi.</p>
+                                ) : [...selectedRepair.notifications!].reverse().map((n, idx) => (
+                                    <div key={idx} className={`text-xs rounded-lg px-3 py-2 border ${n.ok ? 'border-emerald-500/20 bg-emerald-500/5' : 'border-red-500/20 bg-red-500/5'}`}>
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className={n.ok ? 'text-emerald-400' : 'text-red-400'}>
+                                                {n.ok ? 'Gönderildi' : 'Başarısız'} · {getRepairStatusInfo(n.status).label}
+                                            </span>
+                                            <span className="text-slate-500">{formatDateTime(n.at)} · {n.user}</span>
+                                        </div>
+                                        <p className="text-slate-300 mt-1 whitespace-pre-wrap">{n.message}</p>
+                                        {n.error && <p className="text-red-300 mt-1">{n.error}</p>}
+                                        <button onClick={() => handleManualNotify(selectedRepair, n.message)} className="mt-1 text-primary hover:underline">Tekrar Gönder</button>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {/* Printing */}
+                            <div className="flex gap-3">
+                                <button onClick={() => handlePrint(selectedRepair, 'intake')} className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors">
+                                    <span className="material-symbols-outlined text-lg">print</span> Kabul Formu
+                                </button>
+                                <button onClick={() => handlePrint(selectedRepair, 'label')} className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-200 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors">
+                                    <span className="material-symbols-outlined text-lg">qr_code_2</span> Cihaz Etiketi
+                                </button>
+                            </div>
+
                             {/* Actions */}
                             <div className="flex gap-3 pt-4 pb-2 border-t border-slate-700 mt-4">
                                 <button onClick={() => openEdit(selectedRepair)} className="flex-1 py-2.5 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 text-amber-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors">
@@ -474,6 +932,118 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                     </div>
                 </div>
             )}
+            {showWarrantySettings && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setShowWarrantySettings(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-md animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Garanti Süreleri</h3>
+                                <p className="text-xs text-slate-400">Yeni kayıtlarda tamir türüne göre varsayılan süre (gün)</p>
+                            </div>
+                            <button onClick={() => setShowWarrantySettings(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-3">
+                            {REPAIR_TYPES.filter(t => t.id !== WARRANTY_RETURN_TYPE).map(t => (
+                                <div key={t.id} className="flex items-center justify-between gap-3">
+                                    <label className="text-sm text-slate-300">{t.label}</label>
+                                    <input type="number" min={0} value={warrantyDefaults[t.id] ?? 0}
+                                        onChange={e => setWarrantyDefaults({ ...warrantyDefaults, [t.id]: Math.max(0, Number(e.target.value)) })}
+                                        className="w-24 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-right focus:border-amber-500 outline-none" />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => setShowWarrantySettings(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                            <button onClick={handleSaveWarrantySettings} className="px-6 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-amber-500/25">Kaydet</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showChecklistSettings && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setShowChecklistSettings(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-md max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Kabul Kontrol Listesi</h3>
+                                <p className="text-xs text-slate-400">Yeni tamir kayıtlarında cihaz teslim alınırken kontrol edilir</p>
+                            </div>
+                            <button onClick={() => setShowChecklistSettings(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-3">
+                            {checklistTemplate.map((t, idx) => (
+                                <div key={t.id} className="flex items-center gap-2">
+                                    <input type="text" value={t.label} onChange={e => setChecklistTemplate(checklistTemplate.map((c, i) => i === idx ? { ...c, label: e.target.value } : c))}
+                                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-amber-500 outline-none" />
+                                    <select value={t.kind} onChange={e => setChecklistTemplate(checklistTemplate.map((c, i) => i === idx ? { ...c, kind: e.target.value as RepairChecklistItem['kind'] } : c))}
+                                        className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-amber-500 outline-none">
+                                        <option value="condition">Sağlam / Hasarlı</option><option value="yesno">Evet / Hayır</option>
+                                    </select>
+                                    <button onClick={() => setChecklistTemplate(checklistTemplate.filter((_, i) => i !== idx))} className="p-1 text-slate-400 hover:text-red-400"><span className="material-symbols-outlined text-lg">close</span></button>
+                                </div>
+                            ))}
+                            <button onClick={() => setChecklistTemplate([...checklistTemplate, { id: generateId(), label: '', kind: 'condition' }])} className="text-sm text-amber-400 hover:text-amber-300 flex items-center gap-1">
+                                <span className="material-symbols-outlined text-lg">add</span>Madde Ekle
+                            </button>
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => setShowChecklistSettings(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                            <button onClick={handleSaveChecklistSettings} className="px-6 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-amber-500/25">Kaydet</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {photoPreview && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[60] p-4" onClick={() => setPhotoPreview(null)}>
+                    <img src={photoPreview} alt="Kabul fotoğrafı" className="max-w-full max-h-[90vh] rounded-xl border border-slate-700" />
+                </div>
+            )}
+
+            {showTemplates && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setShowTemplates(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">Durum Bildirim Şablonları</h3>
+                                <p className="text-xs text-slate-400">Açık olan durumlara geçildiğinde müşteriye WhatsApp mesajı gönderilir</p>
+                            </div>
+                            <button onClick={() => setShowTemplates(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            {!isWhatsAppConfigured() && (
+                                <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
+                                    <span className="material-symbols-outlined text-sm">warning</span>
+                                    <span>WhatsApp bağlantısı Hatırlatıcılar sayfasındaki ayarlardan yapılır.</span>
+                                </div>
+                            )}
+                            <div className="flex flex-wrap gap-1.5">
+                                {TEMPLATE_PLACEHOLDERS.map(p => (
+                                    <span key={p.key} className="text-[11px] px-2 py-0.5 rounded-md bg-slate-800 text-slate-300" title={p.label}>{p.key}</span>
+                                ))}
+                            </div>
+                            {(Object.keys(templates) as RepairRecord['status'][]).map(status => (
+                                <div key={status} className="space-y-1.5">
+                                    <label className="flex items-center gap-2 text-sm text-white">
+                                        <input type="checkbox" checked={templates[status].enabled}
+                                            onChange={e => setTemplates({ ...templates, [status]: { ...templates[status], enabled: e.target.checked } })}
+                                            className="accent-amber-500" />
+                                        {getRepairStatusInfo(status).label}
+                                    </label>
+                                    <textarea value={templates[status].text} rows={2} disabled={!templates[status].enabled}
+                                        onChange={e => setTemplates({ ...templates, [status]: { ...templates[status], text: e.target.value } })}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none resize-none disabled:opacity-50" />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => setShowTemplates(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                            <button onClick={handleSaveTemplates} className="px-6 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-amber-500/25">Kaydet</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {showModal && (
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={() => setShowModal(false)}>
                     <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
@@ -486,8 +1056,14 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 customers={customers}
                                 selectedCustomerName={form.customerName}
                                 selectedCustomerPhone={form.customerPhone}
-                                onSelect={(name, phone) => setForm({ ...form, customerName: name, customerPhone: phone })}
-                                onAddNew={async (c) => { try { const r = await api.saveCustomer(c); if (r) setCustomers([r as unknown as Customer, ...customers]); } catch { } }}
+                                onSelect={(name, phone, customerId) => setForm(f => ({ ...f, customerName: name, customerPhone: phone, customerId }))}
+                                onAddNew={async (c) => {
+                                    try {
+                                        const r = await api.saveCustomer(c) as Customer | null;
+                                        if (r) setCustomers([r, ...customers]);
+                                        return r;
+                                    } catch { return null; }
+                                }}
                             />
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Cihaz Modeli *</label>
@@ -495,33 +1071,146 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">IMEI</label>
                                     <div className="flex gap-1">
                                         <input type="text" value={form.imei} onChange={e => setForm({ ...form, imei: e.target.value })} className="flex-1 bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none" placeholder="Manuel girin veya tarayın" />
-                                        <button type="button" onClick={() => setShowScanner(true)} className="px-3 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg text-amber-400 transition-all" title="Kamera ile IMEI tara">
+                                        <button type="button" onClick={() => { setScanMode('imei'); setShowScanner(true); }} className="px-3 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg text-amber-400 transition-all" title="Kamera ile IMEI tara">
                                             <span className="material-symbols-outlined text-lg">photo_camera</span>
                                         </button>
                                     </div></div>
                             </div>
+                            {warrantyMatches.length > 0 && (
+                                <div className="bg-violet-500/10 border border-violet-500/30 rounded-xl p-3 space-y-2">
+                                    <p className="text-sm text-violet-300 flex items-center gap-2">
+                                        <span className="material-symbols-outlined text-lg">verified_user</span>Bu cihazın garantisi devam eden tamiri var
+                                    </p>
+                                    {warrantyMatches.map(r => (
+                                        <div key={r.id} className="flex items-center justify-between gap-2 text-xs bg-slate-900/40 rounded-lg px-3 py-2">
+                                            <div className="min-w-0">
+                                                <p className="text-white truncate">{r.deviceInfo} · {getRepairTypeLabel(r.repairType)}</p>
+                                                <p className="text-slate-400">Teslim {formatDate(r.deliveredAt!)} · Garanti bitişi {formatDate(getWarrantyExpiry(r)!.toISOString())}</p>
+                                            </div>
+                                            <button type="button" onClick={() => linkWarrantyReturn(r)} className="px-2.5 py-1 bg-violet-500 hover:bg-violet-600 text-white rounded-md whitespace-nowrap">Garanti Dönüşü</button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Teknisyen</label>
+                                    <select value={form.technicianId} onChange={e => setForm({ ...form, technicianId: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
+                                        <option value="">Atanmadı</option>
+                                        {technicians.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                        {editing?.technicianId && form.technicianId === editing.technicianId && !technicians.some(m => m.id === editing.technicianId) && (
+                                            <option value={editing.technicianId}>{editing.technicianName} (pasif)</option>
+                                        )}
+                                    </select></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Tamir Türü</label>
+                                    <select value={form.repairType} onChange={e => handleRepairTypeChange(e.target.value)} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
+                                        {REPAIR_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                                    </select></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Garanti (gün)</label>
+                                    <input type="number" min={0} value={form.warrantyDays} disabled={form.repairType === WARRANTY_RETURN_TYPE}
+                                        onChange={e => setForm({ ...form, warrantyDays: Math.max(0, Number(e.target.value)) })}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none disabled:opacity-50" /></div>
+                            </div>
+                            {form.repairType === WARRANTY_RETURN_TYPE && (
+                                <div className="flex items-center justify-between gap-2 text-xs bg-violet-500/10 border border-violet-500/20 rounded-lg px-3 py-2">
+                                    <span className="text-violet-300">
+                                        {warrantyOriginal
+                                            ? `Asıl tamir: ${warrantyOriginal.deviceInfo} · ${formatDate(warrantyOriginal.createdAt)}`
+                                            : 'Asıl tamir bağlanmadı — IMEI veya telefon girerek garantili kaydı bulun'}
+                                    </span>
+                                    {warrantyOriginal && <button type="button" onClick={() => setForm({ ...form, warrantyOf: '' })} className="text-slate-400 hover:text-red-400">Bağlantıyı kaldır</button>}
+                                </div>
+                            )}
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">Arıza Açıklaması</label>
                                 <textarea value={form.problemDescription} onChange={e => setForm({ ...form, problemDescription: e.target.value })} rows={2} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none resize-none" /></div>
 
                             <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
                                 <div className="flex items-center gap-2">
-                                    <span className="material-symbols-outlined text-amber-400 text-lg">local_shipping</span>
-                                    <label className="text-sm font-medium text-white">Parça Tedarikçisi</label>
+                                    <span className="material-symbols-outlined text-amber-400 text-lg">fact_check</span>
+                                    <label className="text-sm font-medium text-white">Cihaz Kabul Kontrolü</label>
                                 </div>
-                                <select
-                                    value={form.supplierId}
-                                    onChange={e => handleSupplierChange(e.target.value)}
-                                    className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none"
-                                >
-                                    <option value="">Tedarikçi seçin (opsiyonel)</option>
-                                    {suppliers.filter(s => s.isActive !== false).map(s => (
-                                        <option key={s.id} value={s.id}>{s.name} {s.balance > 0 ? `(Borç: ${fp(s.balance)})` : ''}</option>
+                                {form.intakeChecklist.map((c, idx) => (
+                                    <div key={c.id} className="flex flex-wrap items-center gap-2">
+                                        <span className="w-40 text-sm text-slate-300">{c.label}</span>
+                                        <div className="flex rounded-lg overflow-hidden border border-slate-700">
+                                            {[true, false].map(v => (
+                                                <button key={String(v)} type="button" onClick={() => updateChecklistItem(idx, { value: c.value === v ? undefined : v })}
+                                                    className={`px-3 py-1 text-xs font-medium ${c.value === v ? (c.kind === 'yesno' ? 'bg-amber-500/20 text-amber-400' : v ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400') : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>
+                                                    {getChecklistValueLabel({ kind: c.kind, value: v })}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <input type="text" value={c.note || ''} onChange={e => updateChecklistItem(idx, { note: e.target.value || undefined })} placeholder="Not"
+                                            className="flex-1 min-w-[120px] bg-slate-800 border border-slate-700 rounded-lg py-1 px-2 text-xs text-white focus:border-amber-500 outline-none" />
+                                    </div>
+                                ))}
+                                <div className="flex flex-wrap gap-2">
+                                    {form.intakePhotos.map((src, idx) => (
+                                        <div key={idx} className="relative w-16 h-16 rounded-lg overflow-hidden border border-slate-700">
+                                            <img src={src} alt={`Kabul fotoğrafı ${idx + 1}`} className="w-full h-full object-cover cursor-pointer" onClick={() => setPhotoPreview(src)} />
+                                            <button type="button" onClick={() => removePhoto(idx)} className="absolute top-0 right-0 bg-black/60 text-white rounded-bl-lg p-0.5"><span className="material-symbols-outlined text-sm">close</span></button>
+                                        </div>
                                     ))}
-                                </select>
-                                {form.supplierId && form.partsCost > 0 && (
+                                    {form.intakePhotos.length < MAX_INTAKE_PHOTOS && (
+                                        <button type="button" onClick={() => photoInputRef.current?.click()} title="Cihazın durumunu fotoğrafla" className="w-16 h-16 rounded-lg border border-dashed border-amber-500/40 text-amber-400 hover:bg-amber-500/10 flex flex-col items-center justify-center text-[10px]">
+                                            <span className="material-symbols-outlined">add_a_photo</span>Fotoğraf
+                                        </button>
+                                    )}
+                                    <input ref={photoInputRef} type="file" accept="image/*" capture="environment" multiple className="hidden"
+                                        onChange={e => { handlePhotoFiles(e.target.files); e.target.value = ''; }} />
+                                </div>
+                            </div>
+
+                            <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <span className="material-symbols-outlined text-amber-400 text-lg">memory</span>
+                                    <label className="text-sm font-medium text-white">Kullanılan Parçalar</label>
+                                </div>
+                                <div className="flex gap-2">
+                                    <select value="" onChange={e => addInventoryPart(e.target.value)}
+                                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
+                                        <option value="">Stoktan parça ekle...</option>
+                                        {products.filter(p => p.stock > 0 || form.parts.some(part => part.productId === p.id)).map(p => (
+                                            <option key={p.id} value={p.id}>{p.name} (Stok: {p.stock})</option>
+                                        ))}
+                                    </select>
+                                    <button type="button" onClick={addOrderedPart} className="px-3 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg text-amber-400 text-sm flex items-center gap-1 whitespace-nowrap">
+                                        <span className="material-symbols-outlined text-lg">local_shipping</span>Tedarikçiden
+                                    </button>
+                                </div>
+                                {form.parts.map((part, idx) => (
+                                    <div key={idx} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-slate-900/40">
+                                        <span className={`material-symbols-outlined text-lg ${part.productId ? 'text-blue-400' : 'text-violet-400'}`} title={part.productId ? 'Stoktan' : 'Tedarikçiden'}>
+                                            {part.productId ? 'inventory_2' : 'local_shipping'}
+                                        </span>
+                                        {part.productId ? (
+                                            <span className="flex-1 min-w-[140px] text-sm text-white truncate">{part.name}</span>
+                                        ) : (
+                                            <>
+                                                <input value={part.name} onChange={e => updatePart(idx, { name: e.target.value })} placeholder="Parça adı"
+                                                    className="flex-1 min-w-[120px] bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-amber-500 outline-none" />
+                                                <select value={part.supplierId || ''}
+                                                    onChange={e => updatePart(idx, { supplierId: e.target.value, supplierName: suppliers.find(s => s.id === e.target.value)?.name || '' })}
+                                                    className="w-36 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-amber-500 outline-none">
+                                                    <option value="">Tedarikçi</option>
+                                                    {suppliers.filter(s => s.isActive !== false).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                                </select>
+                                            </>
+                                        )}
+                                        <input type="number" min={1} value={part.quantity} onChange={e => updatePart(idx, { quantity: Math.max(1, Number(e.target.value)) })} title="Adet"
+                                            className="w-16 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-center focus:border-amber-500 outline-none" />
+                                        {hasPermission('costs.view') && (
+                                            <input type="number" min={0} value={part.unitCost} onChange={e => updatePart(idx, { unitCost: Number(e.target.value) })} title="Birim maliyet"
+                                                className="w-24 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-right focus:border-amber-500 outline-none" />
+                                        )}
+                                        <button type="button" onClick={() => removePart(idx)} className="p-1 rounded-lg hover:bg-red-500/10 text-slate-400 hover:text-red-400">
+                                            <span className="material-symbols-outlined text-lg">close</span>
+                                        </button>
+                                    </div>
+                                ))}
+                                {form.parts.some(p => !p.productId && p.supplierId && p.unitCost > 0) && (
                                     <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
                                         <span className="material-symbols-outlined text-sm">info</span>
-                                        <span>Kaydettiğinizde <strong>{form.supplierName}</strong> tedarikçisine <strong>{fp(form.partsCost)}</strong> borç eklenecek.</span>
+                                        <span>Tedarikçiden sipariş edilen parçalar kaydettiğinizde tedarikçi borcuna eklenecek.</span>
                                     </div>
                                 )}
                             </div>
@@ -530,11 +1219,11 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Tamir Ücreti</label>
                                     <input type="number" value={form.repairCost} onChange={e => setForm({ ...form, repairCost: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none" /></div>
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Parça Maliyeti</label>
-                                    <input type="number" value={form.partsCost} onChange={e => setForm({ ...form, partsCost: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none" /></div>
+                                    <input type="text" value={fc(formPartsCost)} readOnly title="Parça listesinden hesaplanır" className="w-full bg-slate-800/50 border border-slate-700 rounded-lg py-2 px-3 text-sm text-slate-300 outline-none cursor-default" /></div>
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Ön Ödeme</label>
                                     <input type="number" value={form.prePayment} onChange={e => setForm({ ...form, prePayment: Number(e.target.value) })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none" /></div>
                             </div>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Durum</label>
                                     <select value={form.status} onChange={e => setForm({ ...form, status: e.target.value as RepairRecord['status'] })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
                                         <option value="in_progress">İşlemde</option><option value="waiting_parts">Parça Bekliyor</option>
@@ -544,6 +1233,8 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                                     <select value={form.paymentMethod} onChange={e => setForm({ ...form, paymentMethod: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none">
                                         <option value="cash">Nakit</option><option value="card">Kart</option><option value="transfer">Havale</option>
                                     </select></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Tahmini Teslim</label>
+                                    <input type="date" value={form.estimatedAt} onChange={e => setForm({ ...form, estimatedAt: e.target.value })} title="Müşteri takip sayfasında gösterilir" className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none" /></div>
                             </div>
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">Teknisyen Notları</label>
                                 <textarea value={form.technicianNotes} onChange={e => setForm({ ...form, technicianNotes: e.target.value })} rows={2} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-amber-500 outline-none resize-none" /></div>
@@ -582,12 +1273,12 @@ export default function RepairsPage({ repairs, setRepairs, suppliers, customers,
                             <div className="flex items-center justify-between p-4 border-b border-slate-700">
                                 <div className="flex items-center gap-2">
                                     <span className="material-symbols-outlined text-amber-400">photo_camera</span>
-                                    <h3 className="text-lg font-bold text-white">IMEI Tarayıcı</h3>
+                                    <h3 className="text-lg font-bold text-white">{scanMode === 'tracking' ? 'Takip Kodu Okut' : 'IMEI Tarayıcı'}</h3>
                                 </div>
                                 <button onClick={stopScanner} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
                             </div>
                             <div className="p-4">
-                                <p className="text-sm text-slate-400 mb-3">Barkodu kameraya gösterin, otomatik okunacak</p>
+                                <p className="text-sm text-slate-400 mb-3">{scanMode === 'tracking' ? 'Fiş veya cihaz etiketindeki QR kodu kameraya gösterin' : 'Barkodu kameraya gösterin, otomatik okunacak'}</p>
                                 <div id="imei-scanner-region" className="rounded-lg overflow-hidden bg-black" style={{ minHeight: 280 }}></div>
                             </div>
                         </div>
@@ -4,6 +4,8 @@ import { formatDate, getRequestStatusInfo, generateId } from '../utils/helpers';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
+import { formatPhone, getPhoneError, normalizePhone } from '../utils/phone';
+import PhoneInput from '../components/PhoneInput';
 
 interface RequestsPageProps {
     requests: CustomerRequest[];
@@ -44,9 +46,11 @@ export default function RequestsPage({ requests, setRequests }: RequestsPageProp
 
     const handleSave = async () => {
         if (!form.customerName || !form.productName) { showToast('Müşteri adı ve ürün zorunlu!', 'error'); return; }
+        const phoneError = getPhoneError(form.phoneNumber);
+        if (phoneError) { showToast(phoneError, 'error'); return; }
         try {
             const record: CustomerRequest = {
-                id: editing?.id || generateId(), ...form,
+                id: editing?.id || generateId(), ...form, phoneNumber: normalizePhone(form.phoneNumber),
                 createdAt: editing?.createdAt || new Date().toISOString()
             };
             await api.saveCustomerRequest(record);
@@ -126,7 +130,7 @@ export default function RequestsPage({ requests, setRequests }: RequestsPageProp
                                     </div>
                                     <div className="flex gap-4 text-sm text-slate-400">
                                         <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">person</span>{r.customerName}</span>
-                                        <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">phone</span>{r.phoneNumber || '—'}</span>
+                                        <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">phone</span>{r.phoneNumber ? formatPhone(r.phoneNumber) : '—'}</span>
                                         {r.estimatedBudget > 0 && <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">payments</span>{fp(r.estimatedBudget)}</span>}
                                         <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">calendar_today</span>{formatDate(r.createdAt)}</span>
                                     </div>
@@ -159,7 +163,7 @@ export default function RequestsPage({ requests, setRequests }: RequestsPageProp
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Müşteri Adı *</label>
                                     <input type="text" value={form.customerName} onChange={e => setForm({ ...form, customerName: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
                                 <div><label className="block text-sm font-medium text-slate-300 mb-1">Telefon</label>
-                                    <input type="text" value={form.phoneNumber} onChange={e => setForm({ ...form, phoneNumber: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
+                                    <PhoneInput value={form.phoneNumber} onChange={phoneNumber => setForm({ ...form, phoneNumber })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
                             </div>
                             <div><label className="block text-sm font-medium text-slate-300 mb-1">İstenen Ürün *</label>
                                 <input type="text" value={form.productName} onChange={e => setForm({ ...form, productName: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
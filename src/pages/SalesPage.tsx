@@ -1,10 +1,16 @@
-import { useState, useMemo, useRef } from 'react';
-import type { Sale, RepairRecord, PhoneSale, Supplier, Product, Customer } from '../types';
-import { formatDate, getPaymentMethodLabel, getRepairStatusInfo } from '../utils/helpers';
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { Html5Qrcode } from 'html5-qrcode';
+import type { Sale, RepairRecord, PhoneSale, Supplier, Product, Customer, Category } from '../types';
+import { formatDate, generateId, getPaymentMethodLabel, getRepairStatusInfo, getReturnedQuantities, isReturnSale } from '../utils/helpers';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
+import { hasPermission } from '../utils/auth';
+import { requestedQuantities } from '../utils/backend';
+import { isPendingId } from '../utils/offlineQueue';
 import CustomerSelector from '../components/CustomerSelector';
+import { getSaleNumber, loadReceiptPaper, loadShopInfo, printSaleReceipt, saveReceiptPaper, saveShopInfo } from '../utils/receipt';
+import type { ReceiptPaper } from '../utils/receipt';
 
 // Searchable product dropdown component
 function ProductSearchDropdown({ products, selectedId, onSelect, fp }: {
@@ -51,12 +57,35 @@ function ProductSearchDropdown({ products, selectedId, onSelect, fp }: {
     );
 }
 
+// Short audible cue for the counter — scanners are used without looking at the screen
+function playBeep(kind: 'ok' | 'error') {
+    try {
+        const ctx = new AudioContext();
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.value = kind === 'ok' ? 1200 : 300;
+        osc.type = kind === 'ok' ? 'sine' : 'square';
+        gain.gain.value = 0.1;
+        osc.connect(gain).connect(ctx.destination);
+        osc.start();
+        osc.stop(ctx.currentTime + (kind === 'ok' ? 0.08 : 0.35));
+        osc.onended = () => ctx.close();
+    } catch { /* audio not available */ }
+}
+
+const RETURN_REASONS = ['Arızalı ürün', 'Müşteri vazgeçti', 'Yanlış ürün', 'Diğer'];
+
+// POS hotkeys: F1–F4 pick the payment method, F9 / Ctrl+Enter completes the sale
+const PAYMENT_HOTKEYS: Record<string, string> = { F1: 'cash', F2: 'card', F3: 'transfer', F4: 'mixed' };
+
 interface SalesPageProps {
     sales: Sale[];
     repairs: RepairRecord[];
     phoneSales: PhoneSale[];
     suppliers: Supplier[];
     products: import('../types').Product[];
+    categories: Category[];
+    setProducts: (p: Product[]) => void;
     setSales: (s: Sale[]) => void;
     onRefresh: () => void;
     customers: Customer[];
@@ -66,9 +95,10 @@ interface SalesPageProps {
 type PeriodFilter = 'thisMonth' | 'lastMonth' | 'all' | 'custom';
 type TabType = 'sales' | 'repairs' | 'phoneSales' | 'profitLoss';
 
-export default function SalesPage({ sales, repairs, phoneSales, suppliers, products, setSales, onRefresh, customers, setCustomers }: SalesPageProps) {
+export default function SalesPage({ sales, repairs, phoneSales, suppliers, products, categories, setProducts, setSales, onRefresh, customers, setCustomers }: SalesPageProps) {
     const { showToast } = useToast();
     const fp = useFormatPrice();
+    const fc = useFormatPrice('cost');
     const [period, setPeriod] = useState<PeriodFilter>('thisMonth');
     const [activeTab, setActiveTab] = useState<TabType>('sales');
     const [showSaleModal, setShowSaleModal] = useState(false);
@@ -81,6 +111,32 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
     const [salePaymentMethod, setSalePaymentMethod] = useState('cash');
     const [saleCustomerName, setSaleCustomerName] = useState('');
     const [saleCustomerPhone, setSaleCustomerPhone] = useState('');
+    const [saleCustomerId, setSaleCustomerId] = useState('');
+
+    // POS (barcode) mode state
+    const [posMode, setPosMode] = useState(() => localStorage.getItem('posMode') === 'true');
+    const [barcode, setBarcode] = useState('');
+    const [scanFlash, setScanFlash] = useState<'ok' | 'error' | null>(null);
+    const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+    const [quickProduct, setQuickProduct] = useState({ name: '', categoryId: '', stock: 1, purchasePrice: 0, salePrice: 0 });
+    const [showPosScanner, setShowPosScanner] = useState(false);
+    const barcodeInputRef = useRef<HTMLInputElement>(null);
+    const posScannerRef = useRef<Html5Qrcode | null>(null);
+    const lastScan = useRef({ code: '', at: 0 });
+    const [savingSale, setSavingSale] = useState(false);
+    const savingSaleRef = useRef(false);
+
+    // Return / refund state
+    const [returnTarget, setReturnTarget] = useState<Sale | null>(null);
+    const [returnQty, setReturnQty] = useState<number[]>([]);
+    const [refundMethod, setRefundMethod] = useState('cash');
+    const [returnReason, setReturnReason] = useState(RETURN_REASONS[0]);
+
+    // Receipt state
+    const [receiptSale, setReceiptSale] = useState<Sale | null>(null);
+    const [receiptPaper, setReceiptPaper] = useState<ReceiptPaper>(loadReceiptPaper);
+    const [shopInfo, setShopInfo] = useState(loadShopInfo);
+    const [showShopSettings, setShowShopSettings] = useState(false);
 
     // Date range
     const now = new Date();
@@ -130,7 +186,8 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
         + filteredRepairs.reduce((s, v) => s + v.profit, 0)
         + filteredPhoneSales.reduce((s, v) => s + v.profit, 0);
 
-    const totalTransactions = filteredSales.length + filteredRepairs.length + filteredPhoneSales.length;
+    // Return documents net out revenue/profit but are not separate transactions
+    const totalTransactions = filteredSales.filter(s => !isReturnSale(s)).length + filteredRepairs.length + filteredPhoneSales.length;
     const cariBalance = suppliers.reduce((s, v) => s + (v.balance || 0), 0);
 
     // Revenue breakdown per source
@@ -160,8 +217,117 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
         setSaleItems(saleItems.filter((_, i) => i !== idx));
     };
 
+    // ── POS mode ──
+    const togglePosMode = () => {
+        setPosMode(m => {
+            localStorage.setItem('posMode', String(!m));
+            return !m;
+        });
+    };
+
+    const flash = (kind: 'ok' | 'error') => {
+        playBeep(kind);
+        setScanFlash(kind);
+        setTimeout(() => setScanFlash(null), 400);
+    };
+
+    const addProductToCart = (prod: Product) => {
+        setSaleItems(items => {
+            const idx = items.findIndex(i => i.productId === prod.id);
+            if (idx >= 0) return items.map((i, n) => n === idx ? { ...i, quantity: i.quantity + 1 } : i);
+            return [...items, { productId: prod.id, productName: prod.name, quantity: 1, salePrice: prod.salePrice, purchasePrice: prod.purchasePrice }];
+        });
+    };
+
+    const handleBarcode = useCallback((code: string) => {
+        const trimmed = code.trim();
+        if (!trimmed) return;
+        const prod = products.find(p => p.barcode && p.barcode === trimmed);
+        if (prod) {
+            addProductToCart(prod);
+            flash('ok');
+        } else {
+            flash('error');
+            setUnknownBarcode(trimmed);
+            setQuickProduct({ name: '', categoryId: '', stock: 1, purchasePrice: 0, salePrice: 0 });
+        }
+    }, [products]);
+
+    const handleBarcodeSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        handleBarcode(barcode);
+        setBarcode('');
+    };
+
+    // Unknown barcode → create the product on the spot and put it in the cart
+    const handleQuickCreate = async () => {
+        if (!unknownBarcode || !quickProduct.name) { showToast('Ürün adı zorunlu!', 'error'); return; }
+        try {
+            const cat = categories.find(c => c.id === quickProduct.categoryId);
+            const product: Product = {
+                id: generateId(), name: quickProduct.name, categoryId: quickProduct.categoryId, categoryName: cat?.name || '',
+                barcode: unknownBarcode, stock: quickProduct.stock, minStock: 5,
+                purchasePrice: quickProduct.purchasePrice, salePrice: quickProduct.salePrice, description: '',
+            };
+            await api.saveProduct(product);
+            if (product.stock !== 0) {
+                await api.recordStockMovement({
+                    productId: product.id, productName: product.name, delta: product.stock,
+                    reason: 'adjustment', note: 'Açılış stoğu (kasa)',
+                });
+            }
+            setProducts([product, ...products]);
+            addProductToCart(product);
+            setUnknownBarcode(null);
+            showToast('Ürün oluşturuldu ve sepete eklendi!');
+            barcodeInputRef.current?.focus();
+        } catch { showToast('Hata oluştu!', 'error'); }
+    };
+
+    const startPosScanner = useCallback(async () => {
+        try {
+            const scanner = new Html5Qrcode('pos-scanner-region');
+            posScannerRef.current = scanner;
+            await scanner.start(
+                { facingMode: 'environment' },
+                { fps: 10, qrbox: { width: 280, height: 100 } },
+                (decodedText) => {
+                    // Same label is decoded several times a second
+                    const now = Date.now();
+                    if (lastScan.current.code === decodedText && now - lastScan.current.at < 1500) return;
+                    lastScan.current = { code: decodedText, at: now };
+                    handleBarcode(decodedText);
+                },
+                () => { } // ignore scan failures
+            );
+        } catch (err) {
+            console.error('Scanner error:', err);
+            showToast('Kamera açılamadı!', 'error');
+            setShowPosScanner(false);
+        }
+    }, [handleBarcode, showToast]);
+
+    const stopPosScanner = useCallback(() => {
+        if (posScannerRef.current) {
+            posScannerRef.current.stop().then(() => posScannerRef.current?.clear()).catch(() => { });
+            posScannerRef.current = null;
+        }
+        setShowPosScanner(false);
+    }, []);
+
+    useEffect(() => {
+        if (showPosScanner) {
+            const timer = setTimeout(() => startPosScanner(), 300);
+            return () => clearTimeout(timer);
+        }
+    }, [showPosScanner, startPosScanner]);
+
     const handleSaveSale = async () => {
         if (saleItems.length === 0) { showToast('En az bir ürün ekleyin!', 'error'); return; }
+        // F9 auto-repeats: a second press must not start another checkout
+        if (savingSaleRef.current) return;
+        savingSaleRef.current = true;
+        setSavingSale(true);
         try {
             const items = saleItems.map(i => ({
                 ...i,
@@ -169,38 +335,143 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
             }));
             const totalPrice = items.reduce((s, i) => s + i.salePrice * i.quantity, 0);
             const totalProfit = items.reduce((s, i) => s + i.profit, 0);
-            const sale: Sale = {
-                id: '', items, totalPrice, totalProfit,
+            const sale: Omit<Sale, 'id'> = {
+                items, totalPrice, totalProfit,
                 date: new Date().toISOString(),
                 paymentMethod: salePaymentMethod,
                 paymentDetails: { [salePaymentMethod]: totalPrice },
                 customerInfo: saleCustomerName ? { name: saleCustomerName, phone: saleCustomerPhone } : undefined,
+                customerId: saleCustomerName && saleCustomerId ? saleCustomerId : undefined,
             };
-            await api.saveSale(sale);
-            // Update product stocks in KV
-            for (const item of saleItems) {
-                const prod = products.find(p => p.id === item.productId);
-                if (prod) {
-                    await api.saveProduct({ ...prod, stock: Math.max(0, prod.stock - item.quantity) });
-                }
-            }
+            // Stock is validated and decremented by the backend together with the sale
+            const created = await api.checkoutSale(sale);
             setShowSaleModal(false);
             setSaleItems([]);
             setSaleCustomerName('');
             setSaleCustomerPhone('');
-            await onRefresh(); // Re-fetch all data from API (includes sales)
-            showToast('Satış kaydedildi!');
-        } catch {
+            setSaleCustomerId('');
+            if (isPendingId(created.id)) {
+                // Queued offline: a refresh would fail, so show the sale and its stock change until replay
+                const sold = requestedQuantities(created);
+                setSales([created, ...sales]);
+                setProducts(products.map(p => sold.has(p.id) ? { ...p, stock: p.stock - sold.get(p.id)!.quantity } : p));
+                showToast('Çevrimdışı: satış kuyruğa alındı', 'warning');
+            } else {
+                await onRefresh(); // Re-fetch all data from API (includes sales)
+                showToast('Satış kaydedildi!');
+            }
+            setReceiptSale(created);
+        } catch (err) {
+            if (err instanceof api.InsufficientStockError) {
+                showToast(err.message, 'error');
+                await onRefresh();
+                return;
+            }
             showToast('Satış kaydedilemedi!', 'error');
+        } finally {
+            savingSaleRef.current = false;
+            setSavingSale(false);
+        }
+    };
+
+    const saveSaleRef = useRef(handleSaveSale);
+    useEffect(() => { saveSaleRef.current = handleSaveSale; });
+
+    useEffect(() => {
+        if (!showSaleModal || !posMode) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (PAYMENT_HOTKEYS[e.key]) {
+                e.preventDefault();
+                setSalePaymentMethod(PAYMENT_HOTKEYS[e.key]);
+            } else if (e.key === 'F9' || (e.key === 'Enter' && e.ctrlKey)) {
+                e.preventDefault();
+                saveSaleRef.current();
+            } else if (e.key === 'Escape') {
+                // Innermost layer first: camera, then the new-product form, then the sale itself
+                if (showPosScanner) stopPosScanner();
+                else if (unknownBarcode) setUnknownBarcode(null);
+                else setShowSaleModal(false);
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [showSaleModal, posMode, showPosScanner, unknownBarcode, stopPosScanner]);
+
+    const returnedForTarget = useMemo(() => returnTarget ? getReturnedQuantities(sales, returnTarget.id) : {}, [sales, returnTarget]);
+
+    // Items may repeat a product; already-returned units are used up item by item
+    const returnableQty = useMemo(() => {
+        if (!returnTarget) return [];
+        const left = { ...returnedForTarget };
+        return returnTarget.items.map(i => {
+            const key = i.productId || i.productName;
+            const used = Math.min(left[key] || 0, i.quantity);
+            left[key] = (left[key] || 0) - used;
+            return i.quantity - used;
+        });
+    }, [returnTarget, returnedForTarget]);
+
+    const openReturnModal = (sale: Sale) => {
+        setReturnTarget(sale);
+        setReturnQty(sale.items.map(() => 0));
+        setRefundMethod(sale.paymentMethod === 'mixed' ? 'cash' : sale.paymentMethod);
+        setReturnReason(RETURN_REASONS[0]);
+    };
+
+    const handleSaveReturn = async () => {
+        if (!returnTarget) return;
+        const lines = returnTarget.items
+            .map((item, idx) => ({ item, qty: returnQty[idx] || 0 }))
+            .filter(l => l.qty > 0);
+        if (lines.length === 0) { showToast('İade edilecek adet girin!', 'error'); return; }
+        try {
+            const items = lines.map(({ item, qty }) => ({
+                ...item, quantity: -qty, profit: -(item.salePrice - item.purchasePrice) * qty,
+            }));
+            const totalPrice = items.reduce((sum, i) => sum + i.salePrice * i.quantity, 0);
+            const created = await api.returnSale({
+                items, totalPrice,
+                totalProfit: items.reduce((sum, i) => sum + i.profit, 0),
+                date: new Date().toISOString(),
+                paymentMethod: refundMethod,
+                paymentDetails: { [refundMethod]: totalPrice },
+                customerInfo: returnTarget.customerInfo,
+                customerId: returnTarget.customerId,
+                returnOf: returnTarget.id,
+                returnReason,
+            });
+            setReturnTarget(null);
+            await onRefresh();
+            showToast('İade kaydedildi, stok güncellendi!');
+            setReceiptSale(created);
+        } catch { showToast('İade kaydedilemedi!', 'error'); }
+    };
+
+    const handlePrintReceipt = (asPdf: boolean) => {
+        if (!receiptSale) return;
+        saveReceiptPaper(receiptPaper);
+        if (!printSaleReceipt(receiptSale, receiptPaper, shopInfo)) {
+            showToast('Yazdırma penceresi açılamadı!', 'error');
+            return;
         }
+        if (asPdf) showToast('Yazıcı olarak "PDF olarak kaydet" seçin', 'warning');
+    };
+
+    const handleSaveShopInfo = () => {
+        saveShopInfo(shopInfo);
+        setShowShopSettings(false);
+        showToast('Fiş bilgileri kaydedildi!');
     };
 
     const handleDeleteSale = async (id: string) => {
+        if (!hasPermission('sales.delete')) { showToast('Satış silme yetkiniz yok!', 'error'); return; }
+        // A return without its sale would still net out revenue and stock
+        if (sales.some(s => s.returnOf === id)) { showToast('Bu satışın iadeleri var; önce iade kayıtlarını silin!', 'error'); return; }
         if (!confirm('Bu satışı silmek istediğinize emin misiniz?')) return;
         try {
-            await api.deleteSale(id);
+            await api.deleteSale(id, sales.find(s => s.id === id));
             setSales(sales.filter(s => s.id !== id));
-            showToast('Satış silindi!');
+            showToast('Satış çöp kutusuna taşındı!');
         } catch {
             showToast('Silinemedi!', 'error');
         }
@@ -257,7 +528,7 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {[
                     { label: 'Toplam Ciro', value: fp(totalRevenue), icon: 'payments', color: 'text-blue-400', bgIcon: 'text-blue-500' },
-                    { label: 'Toplam Kâr', value: fp(totalProfit), icon: 'trending_up', color: 'text-emerald-400', bgIcon: 'text-green-500' },
+                    { label: 'Toplam Kâr', value: fc(totalProfit), icon: 'trending_up', color: 'text-emerald-400', bgIcon: 'text-green-500' },
                     { label: 'Toplam İşlem', value: totalTransactions.toString(), icon: 'receipt_long', color: 'text-purple-400', bgIcon: 'text-purple-500' },
                     { label: 'Cari Bakiye', value: fp(Math.abs(cariBalance)), icon: 'account_balance', color: cariBalance > 0 ? 'text-red-400' : 'text-emerald-400', bgIcon: 'text-orange-500' },
                 ].map(card => (
@@ -391,17 +662,30 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                             <span className="material-symbols-outlined text-4xl mb-2 block">inbox</span>Henüz satış kaydı yok
                                         </td></tr>
                                     ) : searchedSales.map(s => (
-                                        <tr key={s.id} className="hover:bg-surface-hover/50 transition-colors">
+                                        <tr key={s.id} className={`hover:bg-surface-hover/50 transition-colors ${isReturnSale(s) ? 'bg-red-500/5' : ''}`}>
                                             <td className="p-3 text-slate-300">{formatDate(s.date)}</td>
-                                            <td className="p-3">{s.items.map(i => `${i.productName} (${i.quantity})`).join(', ')}</td>
+                                            <td className="p-3">
+                                                {isReturnSale(s) && <span className="mr-2 px-2 py-0.5 rounded-full text-[10px] font-bold bg-red-500/20 text-red-400" title={s.returnReason}>İADE</span>}
+                                                {s.items.map(i => `${i.productName} (${i.quantity})`).join(', ')}
+                                            </td>
                                             <td className="p-3 text-slate-300">{s.customerInfo?.name || '—'}</td>
                                             <td className="p-3"><span className="px-2 py-1 rounded-full text-xs bg-slate-700 text-slate-300">{getPaymentMethodLabel(s.paymentMethod)}</span></td>
-                                            <td className="p-3 text-right font-medium text-white">{fp(s.totalPrice)}</td>
-                                            <td className="p-3 text-right font-medium text-emerald-400">+{fp(s.totalProfit)}</td>
-                                            <td className="p-3 text-center">
-                                                <button onClick={() => handleDeleteSale(s.id)} className="p-1 rounded-lg hover:bg-red-500/10 text-slate-400 hover:text-red-400 transition-colors">
-                                                    <span className="material-symbols-outlined text-lg">delete</span>
+                                            <td className={`p-3 text-right font-medium ${s.totalPrice < 0 ? 'text-red-400' : 'text-white'}`}>{fp(s.totalPrice)}</td>
+                                            <td className={`p-3 text-right font-medium ${s.totalProfit < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{s.totalProfit < 0 ? '' : '+'}{fc(s.totalProfit)}</td>
+                                            <td className="p-3 text-center whitespace-nowrap">
+                                                <button onClick={() => setReceiptSale(s)} title="Fiş" className="p-1 rounded-lg hover:bg-primary/10 text-slate-400 hover:text-primary transition-colors">
+                                                    <span className="material-symbols-outlined text-lg">receipt_long</span>
                                                 </button>
+                                                {!isReturnSale(s) && (
+                                                    <button onClick={() => openReturnModal(s)} title="İade Al" className="p-1 rounded-lg hover:bg-purple-500/10 text-slate-400 hover:text-purple-400 transition-colors">
+                                                        <span className="material-symbols-outlined text-lg">undo</span>
+                                                    </button>
+                                                )}
+                                                {hasPermission('sales.delete') && (
+                                                    <button onClick={() => handleDeleteSale(s.id)} className="p-1 rounded-lg hover:bg-red-500/10 text-slate-400 hover:text-red-400 transition-colors">
+                                                        <span className="material-symbols-outlined text-lg">delete</span>
+                                                    </button>
+                                                )}
                                             </td>
                                         </tr>
                                     ))}
@@ -430,7 +714,7 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                                 <td className="p-3 text-slate-300">{formatDate(r.createdAt)}</td>
                                                 <td className="p-3">{r.customerName}</td><td className="p-3 text-slate-300">{r.deviceInfo}</td>
                                                 <td className="p-3 text-right font-medium text-white">{fp(r.repairCost)}</td>
-                                                <td className="p-3 text-right font-medium text-emerald-400">+{fp(r.profit)}</td>
+                                                <td className="p-3 text-right font-medium text-emerald-400">+{fc(r.profit)}</td>
                                                 <td className="p-3"><span className={`px-2.5 py-1 rounded-full text-xs font-medium ${st.color}`}>{st.label}</span></td>
                                             </tr>
                                         );
@@ -458,9 +742,9 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                             <td className="p-3 text-slate-300">{formatDate(ps.date)}</td>
                                             <td className="p-3 font-medium">{ps.brand} {ps.model}</td>
                                             <td className="p-3 text-slate-400 font-mono text-xs">{ps.imei}</td>
-                                            <td className="p-3 text-right text-slate-300">{fp(ps.purchasePrice)}</td>
+                                            <td className="p-3 text-right text-slate-300">{fc(ps.purchasePrice)}</td>
                                             <td className="p-3 text-right font-medium text-white">{fp(ps.salePrice)}</td>
-                                            <td className="p-3 text-right font-medium text-emerald-400">+{fp(ps.profit)}</td>
+                                            <td className="p-3 text-right font-medium text-emerald-400">+{fc(ps.profit)}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -497,19 +781,19 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                 <div className="space-y-2">
                                     <div className="flex justify-between p-3 rounded-lg bg-slate-800/50">
                                         <span className="text-slate-300">Ürün Kârı</span>
-                                        <span className="text-emerald-400 font-medium">+{fp(filteredSales.reduce((s, v) => s + v.totalProfit, 0))}</span>
+                                        <span className="text-emerald-400 font-medium">+{fc(filteredSales.reduce((s, v) => s + v.totalProfit, 0))}</span>
                                     </div>
                                     <div className="flex justify-between p-3 rounded-lg bg-slate-800/50">
                                         <span className="text-slate-300">Tamir Kârı</span>
-                                        <span className="text-emerald-400 font-medium">+{fp(filteredRepairs.reduce((s, v) => s + v.profit, 0))}</span>
+                                        <span className="text-emerald-400 font-medium">+{fc(filteredRepairs.reduce((s, v) => s + v.profit, 0))}</span>
                                     </div>
                                     <div className="flex justify-between p-3 rounded-lg bg-slate-800/50">
                                         <span className="text-slate-300">Telefon Kârı</span>
-                                        <span className="text-emerald-400 font-medium">+{fp(filteredPhoneSales.reduce((s, v) => s + v.profit, 0))}</span>
+                                        <span className="text-emerald-400 font-medium">+{fc(filteredPhoneSales.reduce((s, v) => s + v.profit, 0))}</span>
                                     </div>
                                     <div className="flex justify-between p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/20">
                                         <span className="text-emerald-400 font-semibold">Toplam Kâr</span>
-                                        <span className="text-emerald-400 font-bold">+{fp(totalProfit)}</span>
+                                        <span className="text-emerald-400 font-bold">+{fc(totalProfit)}</span>
                                     </div>
                                 </div>
                             </div>
@@ -518,15 +802,225 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                 </div>
             </div>
 
+            {/* Return / Refund Modal */}
+            {returnTarget && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setReturnTarget(null)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-2xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">İade Al</h3>
+                                <p className="text-xs text-slate-400">{formatDate(returnTarget.date)} · {returnTarget.customerInfo?.name || 'Müşterisiz satış'}</p>
+                            </div>
+                            <button onClick={() => setReturnTarget(null)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div className="flex justify-between items-center">
+                                <label className="text-sm font-medium text-slate-300">İade Edilecek Ürünler</label>
+                                <button onClick={() => setReturnQty(returnableQty)} className="text-sm text-primary hover:text-primary-hover">Tümünü İade Et</button>
+                            </div>
+                            {returnTarget.items.map((item, idx) => (
+                                <div key={idx} className="flex items-center gap-3 p-3 rounded-lg bg-slate-800/50">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm text-white truncate">{item.productName}</p>
+                                        <p className="text-xs text-slate-400">Satılan {item.quantity} · İade edilebilir {returnableQty[idx]} · {fp(item.salePrice)}</p>
+                                    </div>
+                                    <input type="number" min={0} max={returnableQty[idx]} value={returnQty[idx] || 0} disabled={returnableQty[idx] === 0}
+                                        onChange={e => {
+                                            const next = [...returnQty];
+                                            next[idx] = Math.max(0, Math.min(returnableQty[idx], Number(e.target.value)));
+                                            setReturnQty(next);
+                                        }}
+                                        className="w-20 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-center focus:border-primary outline-none disabled:opacity-40" />
+                                </div>
+                            ))}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-300 mb-1">İade Ödeme Yöntemi</label>
+                                    <select value={refundMethod} onChange={e => setRefundMethod(e.target.value)}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none">
+                                        <option value="cash">Nakit</option><option value="card">Kart</option><option value="transfer">Havale</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-300 mb-1">İade Nedeni</label>
+                                    <select value={returnReason} onChange={e => setReturnReason(e.target.value)}
+                                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none">
+                                        {RETURN_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="flex justify-between items-center p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                                <span className="text-red-400 font-semibold">İade Tutarı</span>
+                                <span className="text-red-400 text-xl font-bold">{fp(returnTarget.items.reduce((sum, i, idx) => sum + i.salePrice * (returnQty[idx] || 0), 0))}</span>
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => setReturnTarget(null)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                            <button onClick={handleSaveReturn} className="px-6 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-red-500/25 flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">undo</span>İadeyi Kaydet
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Receipt Modal */}
+            {receiptSale && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setReceiptSale(null)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-md max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <div>
+                                <h3 className="text-lg font-bold text-white">{isReturnSale(receiptSale) ? 'İade Fişi' : 'Satış Fişi'} #{getSaleNumber(receiptSale)}</h3>
+                                <p className="text-xs text-slate-400">{formatDate(receiptSale.date)} · {receiptSale.customerInfo?.name || 'Müşterisiz satış'}</p>
+                            </div>
+                            <button onClick={() => setReceiptSale(null)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            {isPendingId(receiptSale.id) && (
+                                <p className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-xs text-amber-300">
+                                    Satış henüz senkronize edilmedi; fiş numarası bağlantı gelince atanır. Fişi daha sonra satış listesinden yeniden yazdırabilirsiniz.
+                                </p>
+                            )}
+                            <div className="space-y-1 text-sm">
+                                {receiptSale.items.map((item, idx) => (
+                                    <div key={idx} className="flex justify-between text-slate-300">
+                                        <span className="truncate">{item.quantity} x {item.productName}</span>
+                                        <span className={item.quantity < 0 ? 'text-red-400' : 'text-white'}>{fp(item.salePrice * item.quantity)}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between pt-2 border-t border-slate-700 font-bold">
+                                    <span className="text-slate-300">Toplam</span>
+                                    <span className={receiptSale.totalPrice < 0 ? 'text-red-400' : 'text-primary'}>{fp(receiptSale.totalPrice)}</span>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Kağıt Genişliği</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([58, 80] as ReceiptPaper[]).map(w => (
+                                        <button key={w} onClick={() => setReceiptPaper(w)}
+                                            className={`py-2 rounded-lg text-sm font-medium border transition-colors ${receiptPaper === w ? 'border-primary bg-primary/10 text-primary' : 'border-slate-700 text-slate-300 hover:bg-surface-hover'}`}>
+                                            {w} mm
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <button onClick={() => setShowShopSettings(v => !v)} className="text-sm text-primary hover:text-primary-hover flex items-center gap-1">
+                                <span className="material-symbols-outlined text-base">storefront</span>Fiş Başlığı
+                            </button>
+                            {showShopSettings && (
+                                <div className="space-y-2 p-3 rounded-lg bg-slate-800/50">
+                                    {([
+                                        { key: 'name', label: 'İşletme Adı' },
+                                        { key: 'phone', label: 'Telefon' },
+                                        { key: 'address', label: 'Adres' },
+                                        { key: 'footer', label: 'Alt Not' },
+                                    ] as const).map(f => (
+                                        <div key={f.key}>
+                                            <label className="block text-xs text-slate-400 mb-1">{f.label}</label>
+                                            <input value={shopInfo[f.key]} onChange={e => setShopInfo({ ...shopInfo, [f.key]: e.target.value })}
+                                                className="w-full bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-3 text-sm text-white focus:border-primary outline-none" />
+                                        </div>
+                                    ))}
+                                    <div className="flex justify-end">
+                                        <button onClick={handleSaveShopInfo} className="px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-xs font-medium">Kaydet</button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => handlePrintReceipt(true)} title="Yazdırma penceresinde hedef olarak &quot;PDF olarak kaydet&quot; seçin" className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">picture_as_pdf</span>Yazdır → PDF
+                            </button>
+                            <button onClick={() => handlePrintReceipt(false)} className="px-6 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25 flex items-center gap-2">
+                                <span className="material-symbols-outlined text-lg">print</span>Yazdır
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* POS Camera Scanner */}
+            {showPosScanner && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[70]" onClick={stopPosScanner}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-md animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+                            <div className="flex items-center gap-2">
+                                <span className="material-symbols-outlined text-amber-400">photo_camera</span>
+                                <h3 className="text-lg font-bold text-white">Barkod Tarayıcı</h3>
+                            </div>
+                            <button onClick={stopPosScanner} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-4">
+                            <p className="text-sm text-slate-400 mb-3">Okunan her ürün sepete eklenir</p>
+                            <div id="pos-scanner-region" className="rounded-lg overflow-hidden bg-black" style={{ minHeight: 280 }}></div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* New Sale Modal */}
             {showSaleModal && (
                 <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowSaleModal(false)}>
-                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-3xl max-h-[90vh] overflow-y-auto animate-fade-in" onClick={e => e.stopPropagation()}>
+                    <div className={`bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-3xl max-h-[90vh] overflow-y-auto animate-fade-in transition-shadow ${scanFlash === 'ok' ? 'ring-4 ring-emerald-500/60' : scanFlash === 'error' ? 'ring-4 ring-red-500/70' : ''}`} onClick={e => e.stopPropagation()}>
                         <div className="flex items-center justify-between p-6 border-b border-slate-700">
                             <h3 className="text-lg font-bold text-white">Yeni Satış</h3>
-                            <button onClick={() => setShowSaleModal(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                            <div className="flex items-center gap-2">
+                                <button onClick={togglePosMode}
+                                    className={`px-3 py-1.5 rounded-lg text-xs font-semibold flex items-center gap-1 transition-all ${posMode ? 'bg-primary text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                                    <span className="material-symbols-outlined text-base">barcode_reader</span>POS Modu
+                                </button>
+                                <button onClick={() => setShowSaleModal(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                            </div>
                         </div>
                         <div className="p-6 space-y-4">
+                            {/* POS barcode entry — USB scanners type the code and press Enter */}
+                            {posMode && (
+                                <div className="space-y-2">
+                                    <form onSubmit={handleBarcodeSubmit} className="flex gap-2">
+                                        <div className="relative flex-1">
+                                            <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">barcode</span>
+                                            <input ref={barcodeInputRef} type="text" value={barcode} onChange={e => setBarcode(e.target.value)} autoFocus
+                                                placeholder="Barkod okutun veya yazıp Enter'a basın"
+                                                className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2.5 pl-10 pr-3 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" />
+                                        </div>
+                                        <button type="button" onClick={() => setShowPosScanner(true)} className="px-3 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-lg text-amber-400" title="Kamera ile tara">
+                                            <span className="material-symbols-outlined">photo_camera</span>
+                                        </button>
+                                    </form>
+                                    <p className="text-[11px] text-slate-500">F1 Nakit · F2 Kart · F3 Havale · F4 Karışık · F9 / Ctrl+Enter Satışı Kaydet · Esc Kapat</p>
+
+                                    {unknownBarcode && (
+                                        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 space-y-3">
+                                            <div className="flex items-center justify-between">
+                                                <p className="text-sm text-red-300">Barkod bulunamadı: <span className="font-mono">{unknownBarcode}</span></p>
+                                                <button onClick={() => setUnknownBarcode(null)} className="p-1 rounded hover:bg-red-500/20 text-red-300"><span className="material-symbols-outlined text-base">close</span></button>
+                                            </div>
+                                            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                                                <input type="text" value={quickProduct.name} onChange={e => setQuickProduct({ ...quickProduct, name: e.target.value })} placeholder="Ürün adı *" autoFocus
+                                                    className="col-span-2 bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-primary outline-none" />
+                                                <select value={quickProduct.categoryId} onChange={e => setQuickProduct({ ...quickProduct, categoryId: e.target.value })}
+                                                    className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white focus:border-primary outline-none">
+                                                    <option value="">Kategori</option>{categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                                </select>
+                                                {hasPermission('costs.view') && (
+                                                    <input type="number" value={quickProduct.purchasePrice} onChange={e => setQuickProduct({ ...quickProduct, purchasePrice: Number(e.target.value) })} placeholder="Alış" title="Alış"
+                                                        className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-right focus:border-primary outline-none" />
+                                                )}
+                                                <input type="number" value={quickProduct.salePrice} onChange={e => setQuickProduct({ ...quickProduct, salePrice: Number(e.target.value) })} placeholder="Satış" title="Satış"
+                                                    className="bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-cyan-400 font-bold text-right focus:border-primary outline-none" />
+                                            </div>
+                                            <div className="flex items-center justify-between gap-2">
+                                                <label className="text-xs text-slate-400 flex items-center gap-2">Stok
+                                                    <input type="number" min={1} value={quickProduct.stock} onChange={e => setQuickProduct({ ...quickProduct, stock: Number(e.target.value) })}
+                                                        className="w-16 bg-slate-800 border border-slate-700 rounded-lg py-1 px-2 text-sm text-white text-center focus:border-primary outline-none" />
+                                                </label>
+                                                <button onClick={handleQuickCreate} className="px-4 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-xs font-medium">Oluştur ve Ekle</button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Items */}
                             <div className="space-y-2">
                                 <div className="flex justify-between items-center">
@@ -545,11 +1039,13 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                         />
                                         <input type="number" min="1" value={item.quantity} onChange={e => updateSaleItem(idx, 'quantity', Number(e.target.value))}
                                             className="w-20 bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white text-center focus:border-primary outline-none" placeholder="Adet" />
-                                        <div className="flex flex-col gap-1 w-24">
-                                            <label className="text-[10px] text-slate-400 font-medium px-1 uppercase tracking-wider">Alış</label>
-                                            <input type="number" value={item.purchasePrice} onChange={e => updateSaleItem(idx, 'purchasePrice', Number(e.target.value))}
-                                                className="w-full bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-right focus:border-primary outline-none" placeholder="Alış" />
-                                        </div>
+                                        {hasPermission('costs.view') && (
+                                            <div className="flex flex-col gap-1 w-24">
+                                                <label className="text-[10px] text-slate-400 font-medium px-1 uppercase tracking-wider">Alış</label>
+                                                <input type="number" value={item.purchasePrice} onChange={e => updateSaleItem(idx, 'purchasePrice', Number(e.target.value))}
+                                                    className="w-full bg-slate-800 border border-slate-700 rounded-lg py-1.5 px-2 text-sm text-white text-right focus:border-primary outline-none" placeholder="Alış" />
+                                            </div>
+                                        )}
                                         <div className="flex flex-col gap-1 w-28">
                                             <label className="text-[10px] text-slate-400 font-medium px-1 uppercase tracking-wider">Satış</label>
                                             <input type="number" value={item.salePrice} onChange={e => updateSaleItem(idx, 'salePrice', Number(e.target.value))}
@@ -575,8 +1071,14 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                     customers={customers}
                                     selectedCustomerName={saleCustomerName}
                                     selectedCustomerPhone={saleCustomerPhone}
-                                    onSelect={(name, phone) => { setSaleCustomerName(name); setSaleCustomerPhone(phone); }}
-                                    onAddNew={async (c) => { try { const r = await api.saveCustomer(c); if (r) setCustomers([r as unknown as Customer, ...customers]); } catch { } }}
+                                    onSelect={(name, phone, id) => { setSaleCustomerName(name); setSaleCustomerPhone(phone); setSaleCustomerId(id); }}
+                                    onAddNew={async (c) => {
+                                        try {
+                                            const r = await api.saveCustomer(c) as Customer | null;
+                                            if (r) setCustomers([r, ...customers]);
+                                            return r;
+                                        } catch { return null; }
+                                    }}
                                 />
                             </div>
 
@@ -589,14 +1091,14 @@ export default function SalesPage({ sales, repairs, phoneSales, suppliers, produ
                                     </div>
                                     <div className="flex justify-between items-center p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
                                         <span className="text-emerald-400 font-semibold">Net Kâr</span>
-                                        <span className="text-emerald-400 text-lg font-bold">+{fp(saleItems.reduce((s, i) => s + (i.salePrice - i.purchasePrice) * i.quantity, 0))}</span>
+                                        <span className="text-emerald-400 text-lg font-bold">+{fc(saleItems.reduce((s, i) => s + (i.salePrice - i.purchasePrice) * i.quantity, 0))}</span>
                                     </div>
                                 </div>
                             )}
                         </div>
                         <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
                             <button onClick={() => setShowSaleModal(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
-                            <button onClick={handleSaveSale} className="px-6 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25 flex items-center gap-2">
+                            <button onClick={handleSaveSale} disabled={savingSale} className="px-6 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25 flex items-center gap-2 disabled:opacity-50">
                                 <span className="material-symbols-outlined text-lg">check</span>Satışı Kaydet
                             </button>
                         </div>
@@ -0,0 +1,189 @@
+import { useState, useMemo } from 'react';
+import type { RepairRecord, StaffMember, StaffRole } from '../types';
+import { formatDate } from '../utils/helpers';
+import { useToast } from '../components/Toast';
+import * as api from '../utils/api';
+import { STAFF_ROLES, getStaffRoleInfo } from '../utils/staff';
+import { MIN_PASSWORD_LENGTH, getSession } from '../utils/auth';
+
+interface StaffPageProps {
+    staff: StaffMember[];
+    setStaff: (s: StaffMember[]) => void;
+    repairs: RepairRecord[];
+}
+
+export default function StaffPage({ staff, setStaff, repairs }: StaffPageProps) {
+    const { showToast } = useToast();
+    const [showModal, setShowModal] = useState(false);
+    const [editing, setEditing] = useState<StaffMember | null>(null);
+    const [form, setForm] = useState({ name: '', role: 'technician' as StaffRole, phone: '', active: true, username: '', password: '' });
+    const currentUserId = getSession()?.userId;
+
+    // Open repairs per technician (in progress / waiting for parts)
+    const openRepairs = useMemo(() => {
+        const map: Record<string, number> = {};
+        repairs.forEach(r => {
+            if (r.technicianId && (r.status === 'in_progress' || r.status === 'waiting_parts')) map[r.technicianId] = (map[r.technicianId] || 0) + 1;
+        });
+        return map;
+    }, [repairs]);
+
+    const sorted = useMemo(() => [...staff].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name, 'tr')), [staff]);
+
+    const openCreate = () => {
+        setEditing(null);
+        setForm({ name: '', role: 'technician', phone: '', active: true, username: '', password: '' });
+        setShowModal(true);
+    };
+
+    const openEdit = (m: StaffMember) => {
+        setEditing(m);
+        setForm({ name: m.name, role: m.role, phone: m.phone, active: m.active, username: m.username || '', password: '' });
+        setShowModal(true);
+    };
+
+    const handleSave = async () => {
+        if (!form.name.trim()) { showToast('Personel adı zorunlu!', 'error'); return; }
+        if (staff.some(m => m.id !== editing?.id && m.name.trim().toLowerCase() === form.name.trim().toLowerCase())) {
+            showToast('Bu isimde bir personel zaten var!', 'error'); return;
+        }
+        if (editing?.id === currentUserId && (form.role !== 'owner' || !form.active)) {
+            showToast('Kendi yönetici hesabınızı kısıtlayamazsınız!', 'error'); return;
+        }
+        const username = form.username.trim();
+        if (editing?.username && !username) { showToast('Kullanıcı adı kaldırılamaz; hesabı pasife alın.', 'error'); return; }
+        // A new or renamed login always needs a password; otherwise it's only sent when changed
+        const setCredentials = !!username && (username !== (editing?.username || '') || !!form.password);
+        if (setCredentials) {
+            if (form.password.length < MIN_PASSWORD_LENGTH) { showToast(`Şifre en az ${MIN_PASSWORD_LENGTH} karakter olmalı!`, 'error'); return; }
+            if (staff.some(m => m.id !== editing?.id && m.username?.toLowerCase() === username.toLowerCase())) {
+                showToast('Bu kullanıcı adı kullanılıyor!', 'error'); return;
+            }
+        }
+        try {
+            const record: StaffMember = {
+                id: editing?.id || '', name: form.name.trim(), role: form.role, phone: form.phone, active: form.active,
+                username: editing?.username,
+                createdAt: editing?.createdAt || new Date().toISOString()
+            };
+            const saved = await api.saveStaffMember(record);
+            if (saved) record.id = saved.id;
+            if (setCredentials) {
+                try {
+                    await api.setStaffCredentials(record.id, username, form.password);
+                    record.username = username;
+                } catch (e) {
+                    showToast(`Giriş bilgileri kaydedilemedi: ${(e as Error).message}`, 'error');
+                }
+            }
+            if (editing) setStaff(staff.map(m => m.id === record.id ? record : m));
+            else setStaff([...staff, record]);
+            setShowModal(false);
+            showToast(editing ? 'Güncellendi!' : 'Personel eklendi!');
+        } catch { showToast('Hata!', 'error'); }
+    };
+
+    const toggleActive = async (m: StaffMember) => {
+        if (m.id === currentUserId) { showToast('Kendi hesabınızı pasife alamazsınız!', 'error'); return; }
+        try {
+            const updated = { ...m, active: !m.active };
+            await api.saveStaffMember(updated);
+            setStaff(staff.map(x => x.id === m.id ? updated : x));
+        } catch { showToast('Hata!', 'error'); }
+    };
+
+    const handleDelete = async (m: StaffMember) => {
+        if (m.id === currentUserId) { showToast('Kendi hesabınızı silemezsiniz!', 'error'); return; }
+        // Assigned repairs keep technicianName, so history still reads correctly
+        if (!confirm(`${m.name} silinsin mi? Atanmış tamirlerde adı görünmeye devam eder.`)) return;
+        try {
+            await api.deleteStaffMember(m.id);
+            setStaff(staff.filter(x => x.id !== m.id));
+            showToast('Silindi!');
+        } catch { showToast('Hata!', 'error'); }
+    };
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+            <div className="flex justify-between items-center">
+                <div><h2 className="text-2xl font-bold text-white">Personel</h2><p className="text-slate-400 text-sm mt-1">Çalışanlar ve görevleri</p></div>
+                <button onClick={openCreate} className="px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-lg">person_add</span>Yeni Personel
+                </button>
+            </div>
+
+            <div className="grid gap-4">
+                {sorted.length === 0 ? (
+                    <div className="text-center py-16 text-slate-400 bg-surface-dark rounded-xl border border-slate-700/50">
+                        <span className="material-symbols-outlined text-6xl mb-4 block">badge</span><p>Personel yok</p>
+                        <button onClick={openCreate} className="mt-4 px-4 py-2 bg-primary text-white rounded-lg text-sm">İlk Personeli Ekle</button>
+                    </div>
+                ) : sorted.map(m => {
+                    const role = getStaffRoleInfo(m.role);
+                    return (
+                        <div key={m.id} className={`bg-surface-dark border border-slate-700/50 rounded-xl p-5 hover:bg-surface-hover/30 transition-colors ${m.active ? '' : 'opacity-60'}`}>
+                            <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                    <div className="flex items-center gap-3 mb-2">
+                                        <h4 className="font-semibold text-white">{m.name}</h4>
+                                        <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${role.color}`}>{role.label}</span>
+                                        {!m.active && <span className="px-2 py-0.5 rounded-full text-xs bg-slate-700 text-slate-300">Pasif</span>}
+                                    </div>
+                                    <div className="flex gap-4 text-sm text-slate-400">
+                                        <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">phone</span>{m.phone || '—'}</span>
+                                        <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">{m.username ? 'key' : 'key_off'}</span>{m.username || 'Giriş yok'}</span>
+                                        {m.role === 'technician' && <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">build</span>{openRepairs[m.id] || 0} açık tamir</span>}
+                                        <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">calendar_today</span>{formatDate(m.createdAt)}</span>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-1 ml-4">
+                                    <button onClick={() => toggleActive(m)} title={m.active ? 'Pasife al' : 'Aktif et'} className="p-1.5 rounded-lg hover:bg-slate-700 text-slate-400 hover:text-white"><span className="material-symbols-outlined text-lg">{m.active ? 'toggle_on' : 'toggle_off'}</span></button>
+                                    <button onClick={() => openEdit(m)} className="p-1.5 rounded-lg hover:bg-primary/10 text-slate-400 hover:text-primary"><span className="material-symbols-outlined text-lg">edit</span></button>
+                                    <button onClick={() => handleDelete(m)} className="p-1.5 rounded-lg hover:bg-red-500/10 text-slate-400 hover:text-red-400"><span className="material-symbols-outlined text-lg">delete</span></button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowModal(false)}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-lg animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-6 border-b border-slate-700">
+                            <h3 className="text-lg font-bold text-white">{editing ? 'Personel Düzenle' : 'Yeni Personel'}</h3>
+                            <button onClick={() => setShowModal(false)} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div><label className="block text-sm font-medium text-slate-300 mb-1">Ad Soyad *</label>
+                                <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Görev</label>
+                                    <select value={form.role} onChange={e => setForm({ ...form, role: e.target.value as StaffRole })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none">
+                                        {STAFF_ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                                    </select></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Telefon</label>
+                                    <input type="text" value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none" /></div>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">Kullanıcı Adı</label>
+                                    <input type="text" value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} autoComplete="off" placeholder="Girişi yoksa boş bırakın" className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" /></div>
+                                <div><label className="block text-sm font-medium text-slate-300 mb-1">{editing?.username ? 'Yeni Şifre' : 'Şifre'}</label>
+                                    <input type="password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} autoComplete="new-password" placeholder={editing?.username ? 'Değişmeyecekse boş bırakın' : `En az ${MIN_PASSWORD_LENGTH} karakter`} className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" /></div>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} className="rounded border-slate-600 bg-slate-800" />
+                                Aktif (yeni işlere atanabilir)
+                            </label>
+                        </div>
+                        <div className="flex justify-end gap-3 p-6 border-t border-slate-700">
+                            <button onClick={() => setShowModal(false)} className="px-4 py-2 text-sm text-slate-300 hover:bg-surface-hover rounded-lg">İptal</button>
+                            <button onClick={handleSave} className="px-6 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25">Kaydet</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,397 @@
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { Html5Qrcode } from 'html5-qrcode';
+import type { Product, Category } from '../types';
+import { formatCurrency, formatDateTime, generateId } from '../utils/helpers';
+import { useFormatPrice } from '../components/PriceVisibility';
+import { useToast } from '../components/Toast';
+import { escapeHtml, openPrintWindow } from '../utils/print';
+import * as api from '../utils/api';
+import { hasPermission } from '../utils/auth';
+
+interface StockCountPageProps {
+    products: Product[];
+    categories: Category[];
+    setProducts: (p: Product[]) => void;
+}
+
+// An in-progress count survives reloads — a full shelf count takes hours
+interface CountSession {
+    id: string;
+    startedAt: string;
+    counts: Record<string, number>;
+}
+
+interface VarianceRow {
+    product: Product;
+    counted: number;
+    difference: number;
+    value: number;
+}
+
+const SESSION_KEY = 'stockCountSession';
+
+function loadSession(): CountSession | null {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+// Purchase prices and the value columns are left out for roles without costs.view
+function printVarianceReport(session: CountSession, rows: VarianceRow[], posted: boolean, showCosts: boolean) {
+    const byCategory = new Map<string, VarianceRow[]>();
+    for (const r of rows) {
+        const key = r.product.categoryName || 'Kategorisiz';
+        byCategory.set(key, [...(byCategory.get(key) || []), r]);
+    }
+    const totalValue = rows.reduce((s, r) => s + r.value, 0);
+    const sign = (n: number) => n > 0 ? `+${n}` : String(n);
+    const cls = (n: number) => n < 0 ? 'neg' : n > 0 ? 'pos' : '';
+
+    const sections = [...byCategory.entries()].map(([category, items]) => {
+        const catValue = items.reduce((s, r) => s + r.value, 0);
+        return `<h2>${escapeHtml(category)}</h2>
+<table><thead><tr><th>Ürün</th><th>Barkod</th><th class="right">Sistem</th><th class="right">Sayılan</th><th class="right">Fark</th>${showCosts ? '<th class="right">Alış</th><th class="right">Fark Tutarı</th>' : ''}</tr></thead><tbody>
+${items.map(r => `<tr><td>${escapeHtml(r.product.name)}</td><td>${escapeHtml(r.product.barcode || '')}</td>
+<td class="right">${r.product.stock}</td><td class="right">${r.counted}</td>
+<td class="right ${cls(r.difference)}">${sign(r.difference)}</td>${showCosts ? `<td class="right">${formatCurrency(r.product.purchasePrice)}</td>
+<td class="right ${cls(r.value)}">${formatCurrency(r.value)}</td>` : ''}</tr>`).join('')}
+${showCosts ? `<tr><td colspan="6"><b>Kategori Toplamı</b></td><td class="right ${cls(catValue)}"><b>${formatCurrency(catValue)}</b></td></tr>` : ''}
+</tbody></table>`;
+    }).join('');
+
+    return openPrintWindow('Sayım Fark Raporu', `
+<h1>Stok Sayımı Fark Raporu</h1>
+<p class="muted">Başlangıç: ${escapeHtml(formatDateTime(session.startedAt))} · Rapor: ${escapeHtml(formatDateTime(new Date().toISOString()))} · ${posted ? 'Stoklara işlendi' : 'Taslak — henüz işlenmedi'}</p>
+<p>Sayılan ürün: <b>${rows.length}</b> · Farklı ürün: <b>${rows.filter(r => r.difference !== 0).length}</b>${showCosts ? ` · Net fark tutarı (alış fiyatıyla): <b class="${cls(totalValue)}">${formatCurrency(totalValue)}</b>` : ''}</p>
+${sections || '<p class="muted">Sayılan ürün yok.</p>'}`);
+}
+
+export default function StockCountPage({ products, categories, setProducts }: StockCountPageProps) {
+    const fc = useFormatPrice('cost');
+    const { showToast } = useToast();
+    const [session, setSession] = useState<CountSession | null>(loadSession);
+    const [catFilter, setCatFilter] = useState('all');
+    const [viewFilter, setViewFilter] = useState<'all' | 'counted' | 'uncounted' | 'diff'>('all');
+    const [search, setSearch] = useState('');
+    const [barcodeInput, setBarcodeInput] = useState('');
+    const [posting, setPosting] = useState(false);
+    const [postedReport, setPostedReport] = useState<{ session: CountSession; rows: VarianceRow[] } | null>(null);
+    const [showScanner, setShowScanner] = useState(false);
+    const scannerRef = useRef<Html5Qrcode | null>(null);
+    const lastScan = useRef({ code: '', at: 0 });
+
+    useEffect(() => {
+        if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+        else localStorage.removeItem(SESSION_KEY);
+    }, [session]);
+
+    const setCount = (productId: string, value: number | null) => {
+        setSession(s => {
+            if (!s) return s;
+            const counts = { ...s.counts };
+            if (value === null) delete counts[productId];
+            else counts[productId] = Math.max(0, value);
+            return { ...s, counts };
+        });
+    };
+
+    // One scan = one unit on the shelf
+    const registerBarcode = useCallback((code: string) => {
+        const product = products.find(p => p.barcode && p.barcode === code.trim());
+        if (!product) { showToast(`Barkod bulunamadı: ${code}`, 'warning'); return; }
+        setSession(s => s ? { ...s, counts: { ...s.counts, [product.id]: (s.counts[product.id] || 0) + 1 } } : s);
+        showToast(`${product.name} +1`);
+    }, [products, showToast]);
+
+    const startScanner = useCallback(async () => {
+        try {
+            const scanner = new Html5Qrcode('count-scanner-region');
+            scannerRef.current = scanner;
+            await scanner.start(
+                { facingMode: 'environment' },
+                { fps: 10, qrbox: { width: 280, height: 100 } },
+                (decodedText) => {
+                    // The camera reads the same label several times a second
+                    const now = Date.now();
+                    if (lastScan.current.code === decodedText && now - lastScan.current.at < 1500) return;
+                    lastScan.current = { code: decodedText, at: now };
+                    registerBarcode(decodedText);
+                },
+                () => { } // ignore scan failures
+            );
+        } catch (err) {
+            console.error('Scanner error:', err);
+            showToast('Kamera açılamadı!', 'error');
+            setShowScanner(false);
+        }
+    }, [registerBarcode, showToast]);
+
+    const stopScanner = useCallback(() => {
+        if (scannerRef.current) {
+            scannerRef.current.stop().then(() => scannerRef.current?.clear()).catch(() => { });
+            scannerRef.current = null;
+        }
+        setShowScanner(false);
+    }, []);
+
+    useEffect(() => {
+        if (showScanner) {
+            const timer = setTimeout(() => startScanner(), 300);
+            return () => clearTimeout(timer);
+        }
+    }, [showScanner, startScanner]);
+
+    const varianceRows = useMemo<VarianceRow[]>(() => {
+        if (!session) return [];
+        return products
+            .filter(p => session.counts[p.id] !== undefined)
+            .map(p => {
+                const counted = session.counts[p.id];
+                const difference = counted - p.stock;
+                return { product: p, counted, difference, value: difference * p.purchasePrice };
+            });
+    }, [products, session]);
+
+    const visibleProducts = useMemo(() => {
+        if (!session) return [];
+        return products.filter(p => {
+            if (catFilter !== 'all' && p.categoryId !== catFilter) return false;
+            if (search && !p.name.toLowerCase().includes(search.toLowerCase()) && !p.barcode?.includes(search)) return false;
+            const counted = session.counts[p.id];
+            if (viewFilter === 'counted' && counted === undefined) return false;
+            if (viewFilter === 'uncounted' && counted !== undefined) return false;
+            if (viewFilter === 'diff' && (counted === undefined || counted === p.stock)) return false;
+            return true;
+        });
+    }, [products, session, catFilter, viewFilter, search]);
+
+    const categorySummary = useMemo(() => {
+        const map = new Map<string, { name: string; counted: number; total: number; value: number }>();
+        for (const p of products) {
+            const key = p.categoryId || 'none';
+            const entry = map.get(key) || { name: p.categoryName || 'Kategorisiz', counted: 0, total: 0, value: 0 };
+            entry.total++;
+            map.set(key, entry);
+        }
+        for (const r of varianceRows) {
+            const entry = map.get(r.product.categoryId || 'none')!;
+            entry.counted++;
+            entry.value += r.value;
+        }
+        return [...map.values()];
+    }, [products, varianceRows]);
+
+    const startSession = () => {
+        setSession({ id: generateId(), startedAt: new Date().toISOString(), counts: {} });
+        showToast('Sayım başlatıldı');
+    };
+
+    const cancelSession = () => {
+        if (!confirm('Sayım iptal edilsin mi? Girilen tüm adetler silinecek.')) return;
+        stopScanner();
+        setSession(null);
+    };
+
+    const handlePrint = (s: CountSession, rows: VarianceRow[], posted: boolean) => {
+        if (!printVarianceReport(s, rows, posted, hasPermission('costs.view'))) showToast('Yazdırma penceresi açılamadı!', 'error');
+    };
+
+    const handleBarcodeSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!barcodeInput.trim()) return;
+        registerBarcode(barcodeInput);
+        setBarcodeInput('');
+    };
+
+    // Each difference becomes a 'count' stock movement, so the ledger explains the new numbers.
+    // Posted rows leave the session one by one: after a failure, posting again only does the rest.
+    const handlePost = async () => {
+        if (!session) return;
+        const diffs = varianceRows.filter(r => r.difference !== 0);
+        if (varianceRows.length === 0) { showToast('Henüz sayılan ürün yok!', 'error'); return; }
+        if (!confirm(`${diffs.length} üründe fark stoklara işlenecek. Devam edilsin mi?`)) return;
+        setPosting(true);
+        try {
+            let updatedProducts = products;
+            for (const r of diffs) {
+                const updated = await api.changeProductStock(r.product.id, r.difference, {
+                    reason: 'count', referenceId: session.id, note: 'Stok sayımı',
+                });
+                // Queued offline: show the count until the replay brings the stored stock
+                const next = updated ?? { ...r.product, stock: r.counted };
+                updatedProducts = updatedProducts.map(p => p.id === next.id ? next : p);
+                setProducts(updatedProducts);
+                setCount(r.product.id, null);
+            }
+            setPostedReport({ session, rows: varianceRows });
+            stopScanner();
+            setSession(null);
+            showToast('Sayım stoklara işlendi!');
+        } catch {
+            showToast('Sayım işlenirken hata oluştu!', 'error');
+        } finally {
+            setPosting(false);
+        }
+    };
+
+    if (!session) {
+        return (
+            <div className="flex-1 overflow-y-auto p-6 scrollbar-thin">
+                <div className="max-w-lg mx-auto mt-16 text-center bg-surface-dark border border-slate-700/50 rounded-2xl p-10">
+                    <span className="material-symbols-outlined text-6xl text-primary mb-4 block">fact_check</span>
+                    <h2 className="text-2xl font-bold text-white mb-2">Stok Sayımı</h2>
+                    <p className="text-slate-400 text-sm mb-6">
+                        Rafları barkod okutarak veya adet girerek sayın; sistem stoğuyla farklar sayım sonunda stok hareketi olarak işlenir.
+                    </p>
+                    {postedReport && (
+                        <div className="mb-6 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30 flex items-center justify-between gap-3 text-left">
+                            <p className="text-sm text-emerald-300">Son sayım ({formatDateTime(postedReport.session.startedAt)}) stoklara işlendi.</p>
+                            <button onClick={() => handlePrint(postedReport.session, postedReport.rows, true)} className="px-3 py-1.5 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 rounded-lg text-xs font-medium flex items-center gap-1 shrink-0">
+                                <span className="material-symbols-outlined text-base">print</span>Raporu Yazdır
+                            </button>
+                        </div>
+                    )}
+                    <button onClick={startSession} className="px-6 py-2.5 bg-primary hover:bg-primary-hover text-white rounded-xl text-sm font-bold shadow-lg shadow-primary/25 inline-flex items-center gap-2">
+                        <span className="material-symbols-outlined">play_arrow</span>Sayım Başlat
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const countedCount = varianceRows.length;
+    const diffCount = varianceRows.filter(r => r.difference !== 0).length;
+    const totalValue = varianceRows.reduce((s, r) => s + r.value, 0);
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+            <div className="flex flex-col lg:flex-row lg:justify-between lg:items-center gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-white">Stok Sayımı</h2>
+                    <p className="text-slate-400 text-sm mt-1">Başlangıç: {formatDateTime(session.startedAt)}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => setShowScanner(true)} className="px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 text-amber-400 rounded-lg text-sm font-medium flex items-center gap-2">
+                        <span className="material-symbols-outlined text-lg">barcode_scanner</span>Kamera ile Tara
+                    </button>
+                    <button onClick={() => handlePrint(session, varianceRows, false)} className="px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-lg">print</span>Fark Raporu
+                    </button>
+                    <button onClick={cancelSession} className="px-4 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm flex items-center gap-2">
+                        <span className="material-symbols-outlined text-lg">close</span>İptal
+                    </button>
+                    <button onClick={handlePost} disabled={posting} className="px-6 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm font-medium shadow-lg shadow-primary/25 flex items-center gap-2 disabled:opacity-50">
+                        <span className="material-symbols-outlined text-lg">done_all</span>{posting ? 'İşleniyor...' : 'Sayımı Tamamla'}
+                    </button>
+                </div>
+            </div>
+
+            {/* KPI Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {[
+                    { label: 'Sayılan Ürün', value: `${countedCount} / ${products.length}`, icon: 'inventory', color: 'text-blue-400' },
+                    { label: 'Farklı Ürün', value: diffCount, icon: 'difference', color: diffCount > 0 ? 'text-red-400' : 'text-emerald-400' },
+                    { label: 'Net Fark Tutarı', value: fc(totalValue), icon: 'payments', color: totalValue < 0 ? 'text-red-400' : 'text-emerald-400' },
+                ].map(card => (
+                    <div key={card.label} className="glass-panel p-5 rounded-xl flex flex-col justify-between h-28 relative overflow-hidden">
+                        <div className="absolute right-0 top-0 p-4 opacity-10"><span className={`material-symbols-outlined text-6xl ${card.color}`}>{card.icon}</span></div>
+                        <p className="text-slate-400 text-sm">{card.label}</p>
+                        <h3 className={`text-2xl font-bold ${card.color}`}>{card.value}</h3>
+                    </div>
+                ))}
+            </div>
+
+            {/* Category summary */}
+            <div className="flex gap-3 overflow-x-auto pb-1 scrollbar-thin">
+                {categorySummary.map(c => (
+                    <div key={c.name} className="min-w-[170px] bg-surface-dark border border-slate-700/50 rounded-xl p-3">
+                        <p className="text-sm font-medium text-white truncate">{c.name}</p>
+                        <p className="text-xs text-slate-400">{c.counted} / {c.total} sayıldı</p>
+                        <p className={`text-sm font-bold mt-1 ${c.value < 0 ? 'text-red-400' : c.value > 0 ? 'text-emerald-400' : 'text-slate-300'}`}>{fc(c.value)}</p>
+                    </div>
+                ))}
+            </div>
+
+            {/* Filters + barcode entry */}
+            <div className="flex flex-col md:flex-row gap-3 bg-surface-dark border border-slate-700/50 p-4 rounded-xl">
+                <form onSubmit={handleBarcodeSubmit} className="relative md:w-64">
+                    <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-lg">barcode</span>
+                    <input type="text" value={barcodeInput} onChange={e => setBarcodeInput(e.target.value)} autoFocus
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-10 pr-4 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" placeholder="Barkod okut + Enter" />
+                </form>
+                <input type="text" value={search} onChange={e => setSearch(e.target.value)} placeholder="Ürün ara..."
+                    className="md:w-56 bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white placeholder:text-slate-500 focus:border-primary outline-none" />
+                <select value={catFilter} onChange={e => setCatFilter(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none">
+                    <option value="all">Tüm Kategoriler</option>
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <select value={viewFilter} onChange={e => setViewFilter(e.target.value as typeof viewFilter)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white focus:border-primary outline-none">
+                    <option value="all">Tümü</option><option value="counted">Sayılanlar</option>
+                    <option value="uncounted">Sayılmayanlar</option><option value="diff">Farklı Olanlar</option>
+                </select>
+            </div>
+
+            {/* Count table */}
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl overflow-x-auto">
+                <table className="w-full text-left min-w-[760px]">
+                    <thead><tr className="bg-slate-800/50 border-b border-slate-700 text-xs uppercase text-slate-400 font-semibold tracking-wider">
+                        <th className="p-4">Ürün</th><th className="p-4">Kategori</th><th className="p-4">Barkod</th>
+                        <th className="p-4 text-right">Sistem</th><th className="p-4 w-40">Sayılan</th>
+                        <th className="p-4 text-right">Fark</th><th className="p-4 text-right">Fark Tutarı</th>
+                    </tr></thead>
+                    <tbody className="divide-y divide-slate-700/50 text-sm">
+                        {visibleProducts.length === 0 ? (
+                            <tr><td colSpan={7} className="text-center py-12 text-slate-400">Gösterilecek ürün yok</td></tr>
+                        ) : visibleProducts.map(p => {
+                            const counted = session.counts[p.id];
+                            const diff = counted === undefined ? null : counted - p.stock;
+                            return (
+                                <tr key={p.id} className="hover:bg-slate-800 transition-colors">
+                                    <td className="p-4 font-medium text-white">{p.name}</td>
+                                    <td className="p-4 text-slate-400">{p.categoryName}</td>
+                                    <td className="p-4 text-slate-400 font-mono text-xs">{p.barcode || '—'}</td>
+                                    <td className="p-4 text-right text-slate-300">{p.stock}</td>
+                                    <td className="p-4">
+                                        <div className="flex items-center gap-1">
+                                            <input type="number" min={0} value={counted ?? ''} placeholder="—"
+                                                onChange={e => setCount(p.id, e.target.value === '' ? null : Number(e.target.value))}
+                                                className="w-20 bg-slate-800 border border-slate-700 rounded-lg py-1 px-2 text-sm text-white focus:border-primary outline-none" />
+                                            <button onClick={() => setCount(p.id, (counted || 0) + 1)} className="p-1 rounded hover:bg-slate-700 text-slate-400"><span className="material-symbols-outlined text-base">add</span></button>
+                                        </div>
+                                    </td>
+                                    <td className={`p-4 text-right font-medium ${diff === null ? 'text-slate-500' : diff < 0 ? 'text-red-400' : diff > 0 ? 'text-emerald-400' : 'text-slate-300'}`}>
+                                        {diff === null ? '—' : diff > 0 ? `+${diff}` : diff}
+                                    </td>
+                                    <td className="p-4 text-right text-slate-300">{diff === null ? '—' : fc(diff * p.purchasePrice)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {showScanner && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[70]" onClick={stopScanner}>
+                    <div className="bg-surface-dark border border-slate-700 rounded-2xl w-[95vw] md:w-full md:max-w-md animate-fade-in" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+                            <div className="flex items-center gap-2">
+                                <span className="material-symbols-outlined text-amber-400">photo_camera</span>
+                                <h3 className="text-lg font-bold text-white">Sayım Tarayıcı</h3>
+                            </div>
+                            <button onClick={stopScanner} className="p-1 rounded-lg hover:bg-surface-hover text-slate-400"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <div className="p-4">
+                            <p className="text-sm text-slate-400 mb-3">Her okutma bir adet sayılır. Bitince pencereyi kapatın.</p>
+                            <div id="count-scanner-region" className="rounded-lg overflow-hidden bg-black" style={{ minHeight: 280 }}></div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
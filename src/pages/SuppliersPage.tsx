@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
 import type { Supplier, RepairRecord } from '../types';
-import { formatDate } from '../utils/helpers';
+import { formatDate, getRepairSupplierCosts } from '../utils/helpers';
 import { useFormatPrice } from '../components/PriceVisibility';
 import { useToast } from '../components/Toast';
 import * as api from '../utils/api';
@@ -24,14 +24,14 @@ export default function SuppliersPage({ suppliers, setSuppliers, repairs }: Supp
         address: '', city: '', notes: '', paymentTerms: 'pesin', currency: 'TRY'
     });
 
-    // Compute supplier debts from repair records
+    // Compute supplier debts from parts ordered for repairs
     const supplierDebts = useMemo(() => {
-        const map: Record<string, { total: number; repairs: RepairRecord[] }> = {};
+        const map: Record<string, { total: number; repairs: { repair: RepairRecord; amount: number }[] }> = {};
         repairs.forEach(r => {
-            if (r.supplierId && r.partsCost > 0) {
-                if (!map[r.supplierId]) map[r.supplierId] = { total: 0, repairs: [] };
-                map[r.supplierId].total += r.partsCost;
-                map[r.supplierId].repairs.push(r);
+            for (const { supplierId, amount } of getRepairSupplierCosts(r)) {
+                if (!map[supplierId]) map[supplierId] = { total: 0, repairs: [] };
+                map[supplierId].total += amount;
+                map[supplierId].repairs.push({ repair: r, amount });
             }
         });
         return map;
@@ -168,8 +168,8 @@ export default function SuppliersPage({ suppliers, setSuppliers, repairs }: Supp
                                     {supplierRepairs.length === 0 ? (
                                         <p className="text-sm text-slate-400 text-center py-8">Bu tedarikçiye ait tamir kaydı yok</p>
                                     ) : supplierRepairs
-                                        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-                                        .map(r => (
+                                        .sort((a, b) => new Date(b.repair.createdAt).getTime() - new Date(a.repair.createdAt).getTime())
+                                        .map(({ repair: r, amount }) => (
                                             <div key={r.id} className="flex items-start gap-3 p-3 rounded-lg bg-slate-800/50">
                                                 <div className="w-8 h-8 rounded-full flex items-center justify-center text-red-400 bg-slate-700/50 flex-shrink-0">
                                                     <span className="material-symbols-outlined text-base">build</span>
@@ -177,7 +177,7 @@ export default function SuppliersPage({ suppliers, setSuppliers, repairs }: Supp
                                                 <div className="flex-1 min-w-0">
                                                     <div className="flex justify-between">
                                                         <span className="text-sm font-medium text-white">{r.deviceInfo}</span>
-                                                        <span className="text-sm font-medium text-red-400">+{fp(r.partsCost)}</span>
+                                                        <span className="text-sm font-medium text-red-400">+{fp(amount)}</span>
                                                     </div>
                                                     <div className="flex gap-2 mt-1">
                                                         <span className="text-xs text-slate-400">{formatDate(r.createdAt)}</span>
@@ -0,0 +1,185 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { TrashEntity, TrashItem } from '../types';
+import { formatDateTime, getRecordLabel } from '../utils/helpers';
+import { useToast } from '../components/Toast';
+import { useFormatPrice } from '../components/PriceVisibility';
+import * as api from '../utils/api';
+import { TRASH_ENTITIES, getTrashDaysLeft, getTrashEntityInfo, loadTrashRetentionDays, saveTrashRetentionDays } from '../utils/trash';
+
+interface TrashPageProps {
+    // Reloads the panel data after records came back from the trash
+    onChanged: () => void;
+}
+
+// Money field of each trashable record type, for the list only
+function getRecordAmount(record: TrashItem['record']): number | null {
+    for (const key of ['totalPrice', 'salePrice', 'repairCost', 'amount', 'total']) {
+        if (typeof record[key] === 'number') return record[key] as number;
+    }
+    return null;
+}
+
+export default function TrashPage({ onChanged }: TrashPageProps) {
+    const { showToast } = useToast();
+    const fp = useFormatPrice();
+    const [items, setItems] = useState<TrashItem[] | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [retentionDays, setRetentionDays] = useState(loadTrashRetentionDays);
+    const [retentionDraft, setRetentionDraft] = useState(String(retentionDays));
+    const [entityFilter, setEntityFilter] = useState<TrashEntity | 'all'>('all');
+    const [busy, setBusy] = useState<string | null>(null);
+
+    // Expired records are purged each time the trash is opened
+    useEffect(() => {
+        let cancelled = false;
+        api.purgeExpiredTrash(retentionDays)
+            .then(purged => { if (purged > 0 && !cancelled) showToast(`${purged} kayıt saklama süresi dolduğu için kalıcı silindi`, 'warning'); })
+            .catch(() => { })
+            .then(() => api.getTrash())
+            .then(data => { if (!cancelled) setItems(data); })
+            .catch(() => {
+                if (cancelled) return;
+                setItems([]);
+                showToast('Çöp kutusu yüklenemedi', 'error');
+            });
+        return () => { cancelled = true; };
+    }, [reloadKey, retentionDays, showToast]);
+
+    const counts = useMemo(() => {
+        const map: Partial<Record<TrashEntity, number>> = {};
+        (items || []).forEach(t => { map[t.entity] = (map[t.entity] || 0) + 1; });
+        return map;
+    }, [items]);
+
+    const filtered = useMemo(() => (items || []).filter(t => entityFilter === 'all' || t.entity === entityFilter), [items, entityFilter]);
+
+    const keyOf = (t: TrashItem) => `${t.entity}:${t.record.id}`;
+
+    const handleRestore = async (t: TrashItem) => {
+        if (t.entity === 'repairs' && !confirm('Silinirken stoğa dönen parçalar stoktan tekrar düşülecek. Geri yüklensin mi?')) return;
+        setBusy(keyOf(t));
+        try {
+            await api.restoreFromTrash(t.entity, t.record.id, t.record);
+            setItems((items || []).filter(i => keyOf(i) !== keyOf(t)));
+            showToast('Kayıt geri yüklendi!');
+            onChanged();
+        } catch (err) {
+            showToast(err instanceof api.InsufficientStockError ? err.message : 'Geri yüklenemedi!', 'error');
+        }
+        finally { setBusy(null); }
+    };
+
+    const handlePurge = async (t: TrashItem) => {
+        if (!confirm(`"${getRecordLabel(t.record) || t.record.id}" kalıcı olarak silinsin mi? Bu işlem geri alınamaz.`)) return;
+        setBusy(keyOf(t));
+        try {
+            await api.purgeFromTrash(t.entity, t.record.id, t.record);
+            setItems((items || []).filter(i => keyOf(i) !== keyOf(t)));
+            showToast('Kalıcı olarak silindi!');
+        } catch { showToast('Silinemedi!', 'error'); }
+        finally { setBusy(null); }
+    };
+
+    const handleEmpty = async () => {
+        if (filtered.length === 0) return;
+        if (!confirm(`${filtered.length} kayıt kalıcı olarak silinsin mi? Bu işlem geri alınamaz.`)) return;
+        setBusy('all');
+        try {
+            for (const t of filtered) await api.purgeFromTrash(t.entity, t.record.id, t.record);
+            showToast('Çöp kutusu boşaltıldı!');
+        } catch { showToast('Bazı kayıtlar silinemedi!', 'error'); }
+        finally {
+            setBusy(null);
+            setReloadKey(k => k + 1);
+        }
+    };
+
+    const handleSaveRetention = () => {
+        const days = Math.round(Number(retentionDraft));
+        if (!(days >= 1)) { showToast('Geçerli bir gün sayısı girin!', 'error'); return; }
+        if (days < retentionDays && !confirm(`${days} günden eski kayıtlar hemen kalıcı olarak silinecek. Devam edilsin mi?`)) return;
+        saveTrashRetentionDays(days);
+        setRetentionDays(days);
+        showToast('Saklama süresi kaydedildi!');
+    };
+
+    return (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+            <div className="flex justify-between items-center">
+                <div><h2 className="text-2xl font-bold text-white">Çöp Kutusu</h2><p className="text-slate-400 text-sm mt-1">Silinen kayıtlar {retentionDays} gün sonra kalıcı olarak silinir</p></div>
+                <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1">
+                        <span className="text-xs text-slate-400">Saklama</span>
+                        <input type="number" min={1} value={retentionDraft} onChange={e => setRetentionDraft(e.target.value)}
+                            className="w-14 bg-transparent text-sm text-white text-right outline-none" />
+                        <span className="text-xs text-slate-400">gün</span>
+                        <button onClick={handleSaveRetention} disabled={retentionDraft === String(retentionDays)} className="ml-1 p-1 rounded text-primary hover:bg-primary/10 disabled:opacity-30">
+                            <span className="material-symbols-outlined text-base">check</span>
+                        </button>
+                    </div>
+                    <button onClick={handleEmpty} disabled={filtered.length === 0 || busy !== null} className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg text-sm font-medium shadow-lg shadow-red-500/25 flex items-center gap-2 disabled:opacity-50">
+                        <span className="material-symbols-outlined text-lg">delete_forever</span>{entityFilter === 'all' ? 'Çöpü Boşalt' : 'Seçilenleri Boşalt'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button onClick={() => setEntityFilter('all')} className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${entityFilter === 'all' ? 'bg-primary text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700'}`}>
+                    Tümü ({items?.length || 0})
+                </button>
+                {TRASH_ENTITIES.map(e => (
+                    <button key={e.id} onClick={() => setEntityFilter(e.id)} className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all flex items-center gap-1 ${entityFilter === e.id ? 'bg-primary text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700'}`}>
+                        <span className="material-symbols-outlined text-sm">{e.icon}</span>{e.label} ({counts[e.id] || 0})
+                    </button>
+                ))}
+            </div>
+
+            <div className="bg-surface-dark border border-slate-700/50 rounded-xl overflow-x-auto">
+                <table className="w-full text-left min-w-[800px]">
+                    <thead><tr className="bg-slate-800/50 border-b border-slate-700 text-xs uppercase text-slate-400 font-semibold tracking-wider">
+                        <th className="p-4">Kayıt</th><th className="p-4 text-right">Tutar</th><th className="p-4">Silen</th>
+                        <th className="p-4">Silinme</th><th className="p-4">Kalan</th><th className="p-4 text-center">İşlemler</th>
+                    </tr></thead>
+                    <tbody className="divide-y divide-slate-700/50 text-sm">
+                        {items === null ? (
+                            <tr><td colSpan={6} className="text-center py-16">
+                                <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary border-t-transparent mx-auto"></div>
+                            </td></tr>
+                        ) : filtered.length === 0 ? (
+                            <tr><td colSpan={6} className="text-center py-16 text-slate-400">
+                                <span className="material-symbols-outlined text-6xl mb-4 block">delete</span><p>Çöp kutusu boş</p>
+                            </td></tr>
+                        ) : filtered.map(t => {
+                            const info = getTrashEntityInfo(t.entity);
+                            const amount = getRecordAmount(t.record);
+                            const daysLeft = t.record.deletedAt ? getTrashDaysLeft(t.record.deletedAt, retentionDays) : retentionDays;
+                            const isBusy = busy === keyOf(t) || busy === 'all';
+                            return (
+                                <tr key={keyOf(t)} className="hover:bg-surface-hover/30 transition-colors">
+                                    <td className="p-4">
+                                        <p className="text-white font-medium truncate max-w-xs">{getRecordLabel(t.record) || t.record.id}</p>
+                                        <p className="text-xs text-slate-500 flex items-center gap-1"><span className="material-symbols-outlined text-sm">{info.icon}</span>{info.label}</p>
+                                    </td>
+                                    <td className="p-4 text-right text-white">{amount !== null ? fp(amount) : '—'}</td>
+                                    <td className="p-4 text-slate-300">{t.record.deletedBy || '—'}</td>
+                                    <td className="p-4 text-slate-400 whitespace-nowrap">{t.record.deletedAt ? formatDateTime(t.record.deletedAt) : '—'}</td>
+                                    <td className="p-4"><span className={`text-xs font-medium ${daysLeft <= 3 ? 'text-red-400' : 'text-slate-400'}`}>{daysLeft} gün</span></td>
+                                    <td className="p-4">
+                                        <div className="flex items-center justify-center gap-1">
+                                            <button onClick={() => handleRestore(t)} disabled={isBusy} title="Geri yükle" className="p-1.5 rounded-lg text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50">
+                                                <span className="material-symbols-outlined text-lg">restore_from_trash</span>
+                                            </button>
+                                            <button onClick={() => handlePurge(t)} disabled={isBusy} title="Kalıcı sil" className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/10 disabled:opacity-50">
+                                                <span className="material-symbols-outlined text-lg">delete_forever</span>
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,12 @@
 // ── KV Store Types (camelCase) ──
 
+// Deleting moves a record to the trash: it keeps its row with these set and is
+// left out of every list until restored (null again) or purged.
+export interface SoftDeleted {
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -7,7 +14,7 @@ export interface Category {
   color?: string;
 }
 
-export interface Product {
+export interface Product extends SoftDeleted {
   id: string;
   name: string;
   categoryId: string;
@@ -29,7 +36,7 @@ export interface SaleItem {
   profit: number;
 }
 
-export interface Sale {
+export interface Sale extends SoftDeleted {
   id: string;
   items: SaleItem[];
   totalPrice: number;
@@ -38,16 +45,47 @@ export interface Sale {
   paymentMethod: string;
   paymentDetails?: Record<string, number>;
   customerInfo?: { name: string; phone: string };
+  // Customer the record belongs to; the name/phone above stay as typed at the time
+  customerId?: string;
+  // Return documents: quantities, totals and profit are negative and
+  // paymentMethod is how the money went back to the customer
+  returnOf?: string;
+  returnReason?: string;
+}
+
+// Returned by checkout when a sale asks for more than is on the shelf
+export interface StockShortage {
+  productId: string;
+  productName: string;
+  requested: number;
+  available: number;
 }
 
-export interface RepairRecord {
+export type StockMovementReason = 'sale' | 'purchase' | 'return' | 'adjustment' | 'count' | 'repair_part';
+
+// One row per change to Product.stock; summing deltas gives the expected stock
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  delta: number;
+  reason: StockMovementReason;
+  referenceId?: string;
+  note?: string;
+  user: string;
+  createdAt: string;
+}
+
+export interface RepairRecord extends SoftDeleted {
   id: string;
   customerName: string;
   customerPhone: string;
+  customerId?: string;
   deviceInfo: string;
   imei: string;
   problemDescription: string;
   repairCost: number;
+  // Sum of parts[]; kept on the record for older entries that have no parts list
   partsCost: number;
   profit: number;
   status: 'in_progress' | 'completed' | 'delivered' | 'waiting_parts' | 'cancelled';
@@ -55,13 +93,82 @@ export interface RepairRecord {
   paymentDetails?: Record<string, number>;
   prePayment: number;
   technicianNotes: string;
+  // Assigned StaffMember (name kept for display after the member is removed)
+  technicianId?: string;
+  technicianName?: string;
   supplierId?: string;
   supplierName?: string;
+  parts?: RepairPart[];
+  // Type id from REPAIR_TYPES; warrantyDays is copied from the type's default when saved
+  repairType?: string;
+  warrantyDays?: number;
+  // Set on "garanti dönüşü" repairs: the earlier repair this one is covered by
+  warrantyOf?: string;
+  // Promised ready date, shown on the public tracking page
+  estimatedAt?: string;
+  // Printed on the intake ticket and device label (QR)
+  trackingCode?: string;
+  statusHistory?: RepairStatusEvent[];
+  notifications?: RepairNotification[];
+  // Device condition recorded at intake; photos are compressed JPEG data URLs
+  intakeChecklist?: RepairChecklistItem[];
+  intakePhotos?: string[];
   createdAt: string;
   deliveredAt?: string;
 }
 
-export interface PhoneSale {
+// One intake check; label and kind are copied from the shop's checklist when the repair is opened
+export interface RepairChecklistItem {
+  id: string;
+  label: string;
+  kind: 'condition' | 'yesno';
+  // true = sağlam / evet, false = hasarlı / hayır, undefined = not checked
+  value?: boolean;
+  note?: string;
+}
+
+// WhatsApp message sent (or attempted) for a repair
+export interface RepairNotification {
+  status: RepairRecord['status'];
+  to: string;
+  message: string;
+  at: string;
+  ok: boolean;
+  error?: string;
+  user: string;
+}
+
+// The only repair fields the public tracking page is allowed to see
+export interface RepairTrackingInfo {
+  trackingCode: string;
+  deviceInfo: string;
+  status: RepairRecord['status'];
+  estimatedAt?: string;
+  remaining: number;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+// A part fitted during a repair: taken from inventory (productId) or ordered from a supplier for this job
+export interface RepairPart {
+  productId?: string;
+  name: string;
+  quantity: number;
+  unitCost: number;
+  supplierId?: string;
+  supplierName?: string;
+}
+
+// One entry per status change; the intake entry has from: null
+export interface RepairStatusEvent {
+  from: RepairRecord['status'] | null;
+  to: RepairRecord['status'];
+  at: string;
+  note?: string;
+  user: string;
+}
+
+export interface PhoneSale extends SoftDeleted {
   id: string;
   brand: string;
   model: string;
@@ -71,13 +178,14 @@ export interface PhoneSale {
   profit: number;
   customerName?: string;
   customerPhone?: string;
+  customerId?: string;
   notes?: string;
   date: string;
   paymentMethod: string;
   paymentDetails?: Record<string, number>;
 }
 
-export interface Expense {
+export interface Expense extends SoftDeleted {
   id: string;
   name: string;
   category: string;
@@ -134,7 +242,7 @@ export interface Supplier {
   createdAt: string;
 }
 
-export interface Purchase {
+export interface Purchase extends SoftDeleted {
   id: string;
   supplierId: string;
   purchaseDate: string;
@@ -176,6 +284,23 @@ export interface CariHareket {
   createdAt: string;
 }
 
+// Customer-side counterpart of CariHareket. bakiyeEtkisi > 0 means the
+// customer owes us more, < 0 that we owe them (or they paid off debt).
+export interface MusteriHareket {
+  id: string;
+  customerId: string;
+  islemTarihi: string;
+  islemTipi: 'borc' | 'alacak' | 'tahsilat' | 'odeme';
+  miktar: number;
+  aciklama: string;
+  // Related sale / repair / phone sale
+  ilgiliId?: string;
+  ilgiliTip?: 'sale' | 'repair' | 'phoneSale';
+  bakiyeEtkisi: number;
+  user?: string;
+  createdAt: string;
+}
+
 export interface Payment {
   id: string;
   purchaseId: string;
@@ -188,14 +313,73 @@ export interface Payment {
   createdAt: string;
 }
 
-export interface Customer {
+export interface Customer extends SoftDeleted {
   id: string;
   name: string;
   phone: string;
   email: string;
   address: string;
   notes: string;
+  // Opening balance from before the movement ledger; never changed any more,
+  // the current balance is this plus the customer's MusteriHareket rows
   debt: number;
   credit: number;
+  // Customer asked not to receive repair status messages
+  notificationsOptOut?: boolean;
+  createdAt: string;
+}
+
+export type StaffRole = 'owner' | 'cashier' | 'technician';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  phone: string;
+  // Login name; members without one can be assigned work but can't sign in
+  username?: string;
+  // Inactive members stay on old records but can't be assigned new work or sign in
+  active: boolean;
   createdAt: string;
 }
+
+// Issued by the backend at login; on Supabase the token is the Auth access
+// token sent with every request, short-lived and renewed with refreshToken
+export interface AuthSession {
+  token: string;
+  userId: string;
+  name: string;
+  role: StaffRole;
+  expiresAt: string;
+  refreshToken?: string;
+  tokenExpiresAt?: string;
+}
+
+// Entity collections the audit log can point at (DataBackend repository names)
+export type AuditEntity =
+  | 'categories' | 'products' | 'sales' | 'repairs' | 'phoneSales' | 'phoneStocks' | 'expenses'
+  | 'customerRequests' | 'suppliers' | 'purchases' | 'purchaseItems' | 'cariHareketler'
+  | 'payments' | 'customers' | 'musteriHareketler' | 'reminders' | 'stockMovements' | 'staff';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// One row per mutation made through api.ts; snapshots are the full records
+export interface AuditEntry {
+  id: string;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  user: string;
+  userId?: string;
+  createdAt: string;
+}
+
+// Entities whose delete moves the record to the trash (see SoftDeleted)
+export type TrashEntity = Extract<AuditEntity, 'sales' | 'repairs' | 'phoneSales' | 'products' | 'customers' | 'purchases' | 'expenses'>;
+
+export interface TrashItem {
+  entity: TrashEntity;
+  record: { id: string; deletedAt?: string | null; deletedBy?: string | null } & Record<string, unknown>;
+}
@@ -0,0 +1,66 @@
+import type { AuthSession, StaffRole } from '../types';
+
+// ── Session + role permissions ──
+// The backend issues the session at login (see DataBackend.login) and it is
+// kept in localStorage. Roles decide here what the UI offers; Supabase checks
+// them again for every request made with the session's access token (see
+// supabase/migrations), the local backend only keeps them in the browser.
+
+const SESSION_KEY = 'session';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Fired when the backend rejects the stored token; App returns to the login screen
+export const SESSION_EXPIRED_EVENT = 'auth:expired';
+
+export function getSession(): AuthSession | null {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        if (!raw) return null;
+        const session: AuthSession = JSON.parse(raw);
+        if (new Date(session.expiresAt) <= new Date()) {
+            localStorage.removeItem(SESSION_KEY);
+            return null;
+        }
+        return session;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(session: AuthSession) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+    localStorage.removeItem(SESSION_KEY);
+}
+
+export function expireSession() {
+    clearSession();
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+}
+
+export type Permission = 'sales.delete' | 'costs.view' | 'staff.manage';
+
+// Sidebar views each role may open; owners see everything
+const ROLE_VIEWS: Record<StaffRole, string[] | 'all'> = {
+    owner: 'all',
+    cashier: ['sales', 'products', 'stockCount', 'repairs', 'phoneSales', 'customers', 'requests', 'calculator', 'reminders'],
+    technician: ['repairs', 'products', 'requests', 'calculator'],
+};
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+    owner: ['sales.delete', 'costs.view', 'staff.manage'],
+    cashier: [],
+    technician: [],
+};
+
+export function canAccessView(role: StaffRole, view: string): boolean {
+    const views = ROLE_VIEWS[role];
+    return views === 'all' || views.includes(view);
+}
+
+export function hasPermission(permission: Permission, session = getSession()): boolean {
+    return !!session && ROLE_PERMISSIONS[session.role].includes(permission);
+}
@@ -0,0 +1,94 @@
+import type { Customer } from '../types';
+import { phoneKey } from './phone';
+
+// ── Duplicate customers ──
+// The same person often ends up as "Mehmet Yılmaz" and "mehmet yilmaz ", or
+// with the phone typed as +90 / 0 / spaced. Customers sharing a normalized
+// name, phone or email form one candidate group; merging keeps one of them.
+
+export type DuplicateReason = 'name' | 'phone' | 'email';
+
+export interface DuplicateGroup {
+    customers: Customer[];
+    reasons: DuplicateReason[];
+}
+
+const TURKISH_FOLD: Record<string, string> = { ı: 'i', İ: 'i', ş: 's', ğ: 'g', ü: 'u', ö: 'o', ç: 'c' };
+
+// Lowercase, Turkish letters folded to ASCII, whitespace collapsed
+export function normalizeCustomerName(name: string): string {
+    return (name || '')
+        .toLocaleLowerCase('tr')
+        .replace(/[ıİşğüöç]/g, ch => TURKISH_FOLD[ch])
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function normalizeCustomerEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+}
+
+export function getDuplicateReasonLabel(reason: DuplicateReason): string {
+    return reason === 'name' ? 'İsim' : reason === 'phone' ? 'Telefon' : 'E-posta';
+}
+
+export function findDuplicateCustomers(customers: Customer[]): DuplicateGroup[] {
+    // Union-find over customer indexes, joined by any shared key
+    const parent = customers.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+    const links: [number, number, DuplicateReason][] = [];
+
+    const keys: [DuplicateReason, (c: Customer) => string][] = [
+        ['name', c => normalizeCustomerName(c.name)],
+        ['phone', c => phoneKey(c.phone)],
+        ['email', c => normalizeCustomerEmail(c.email)],
+    ];
+    for (const [reason, keyOf] of keys) {
+        const firstByKey = new Map<string, number>();
+        customers.forEach((c, i) => {
+            const key = keyOf(c);
+            if (!key) return;
+            const first = firstByKey.get(key);
+            if (first === undefined) firstByKey.set(key, i);
+            else links.push([first, i, reason]);
+        });
+    }
+
+    for (const [a, b] of links) parent[root(a)] = root(b);
+    for (const [a, , reason] of links) {
+        const r = root(a);
+        if (!reasonsByRoot.has(r)) reasonsByRoot.set(r, new Set());
+        reasonsByRoot.get(r)!.add(reason);
+    }
+
+    const groups = new Map<number, Customer[]>();
+    customers.forEach((c, i) => {
+        const r = root(i);
+        if (!reasonsByRoot.has(r)) return;
+        if (!groups.has(r)) groups.set(r, []);
+        groups.get(r)!.push(c);
+    });
+    return [...groups.entries()].map(([r, group]) => ({
+        // Oldest first: the default survivor
+        customers: group.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || '')),
+        reasons: [...reasonsByRoot.get(r)!],
+    }));
+}
+
+// Survivor's fields with the gaps filled from the others; opening debt/credit
+// add up since the duplicates' ledger rows move over as well
+export function mergeCustomerFields(survivor: Customer, others: Customer[]): Customer {
+    const all = [survivor, ...others];
+    const notes = [...new Set(all.map(c => (c.notes || '').trim()).filter(Boolean))];
+    return {
+        ...survivor,
+        phone: all.find(c => c.phone?.trim())?.phone || '',
+        email: all.find(c => c.email?.trim())?.email || '',
+        address: all.find(c => c.address?.trim())?.address || '',
+        notes: notes.join('\n'),
+        debt: all.reduce((s, c) => s + (c.debt || 0), 0),
+        credit: all.reduce((s, c) => s + (c.credit || 0), 0),
+        notificationsOptOut: all.some(c => c.notificationsOptOut) || undefined,
+    };
+}
@@ -0,0 +1,55 @@
+import type { Customer, MusteriHareket } from '../types';
+
+// ── Customer ledger (müşteri cari hareketleri) ──
+// Every debt, credit, collection and payment is its own MusteriHareket row; a
+// customer's balance is the legacy opening balance (Customer.debt − credit)
+// plus the sum of bakiyeEtkisi. Positive = the customer owes us.
+
+export const MUSTERI_HAREKET_TIPLERI: { id: MusteriHareket['islemTipi']; label: string; desc: string; color: string; sign: 1 | -1 }[] = [
+    { id: 'borc', label: 'Borç Ekle', desc: 'Müşteri bize borçlandı', color: 'red', sign: 1 },
+    { id: 'alacak', label: 'Alacak Ekle', desc: 'Biz müşteriye borçlandık', color: 'emerald', sign: -1 },
+    { id: 'tahsilat', label: 'Tahsilat', desc: 'Borç ödemesi aldık', color: 'blue', sign: -1 },
+    { id: 'odeme', label: 'Ödeme', desc: 'Alacak ödemesi yaptık', color: 'amber', sign: 1 },
+];
+
+export function getHareketTipiInfo(tip: MusteriHareket['islemTipi']) {
+    return MUSTERI_HAREKET_TIPLERI.find(t => t.id === tip) || MUSTERI_HAREKET_TIPLERI[0];
+}
+
+export function getBakiyeEtkisi(tip: MusteriHareket['islemTipi'], miktar: number): number {
+    return getHareketTipiInfo(tip).sign * miktar;
+}
+
+export function getOpeningBalance(c: Pick<Customer, 'debt' | 'credit'>): number {
+    return (c.debt || 0) - (c.credit || 0);
+}
+
+// Net balance per customer id (opening balance included)
+export function computeCustomerBalances(customers: Customer[], hareketler: MusteriHareket[]): Map<string, number> {
+    const balances = new Map<string, number>(customers.map(c => [c.id, getOpeningBalance(c)]));
+    for (const h of hareketler) {
+        if (balances.has(h.customerId)) balances.set(h.customerId, balances.get(h.customerId)! + h.bakiyeEtkisi);
+    }
+    return balances;
+}
+
+export interface StatementRow {
+    hareket: MusteriHareket | null; // null: opening balance row
+    date: string;
+    balance: number;
+}
+
+// Oldest first, each row carrying the running balance after it
+export function buildCustomerStatement(c: Customer, hareketler: MusteriHareket[]): StatementRow[] {
+    const rows: StatementRow[] = [];
+    let balance = getOpeningBalance(c);
+    if (balance !== 0) rows.push({ hareket: null, date: c.createdAt, balance });
+    const own = hareketler
+        .filter(h => h.customerId === c.id)
+        .sort((a, b) => a.islemTarihi.localeCompare(b.islemTarihi) || a.createdAt.localeCompare(b.createdAt));
+    for (const h of own) {
+        balance += h.bakiyeEtkisi;
+        rows.push({ hareket: h, date: h.islemTarihi, balance });
+    }
+    return rows;
+}
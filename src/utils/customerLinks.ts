@@ -0,0 +1,41 @@
+import type { Customer, PhoneSale, RepairRecord, Sale } from '../types';
+import { isSamePhone } from './phone';
+
+// ── Customer links ──
+// Sales, repairs and phone sales point at their customer through customerId,
+// set when CustomerSelector is used. Older records only have the typed name and
+// phone; proposeCustomerLinks suggests a customer for each so the backfill can
+// be reviewed before anything is written.
+
+export type CustomerLinkEntity = 'sales' | 'repairs' | 'phoneSales';
+
+export type LinkableRecord = Sale | RepairRecord | PhoneSale;
+
+export interface CustomerLinkProposal {
+    entity: CustomerLinkEntity;
+    record: LinkableRecord;
+    label: string;
+    date: string;
+    name: string;
+    phone: string;
+    matchedBy: 'phone' | 'name';
+    // More than one means the reviewer has to pick
+    candidates: Customer[];
+}
+
+export function proposeCustomerLinks(customers: Customer[], records: { sales: Sale[]; repairs: RepairRecord[]; phoneSales: PhoneSale[] }): CustomerLinkProposal[] {
+    const proposals: CustomerLinkProposal[] = [];
+    // Name/phone as typed on the record: phone matches win, then the exact name
+    const propose = (entity: CustomerLinkEntity, record: LinkableRecord, label: string, date: string, name: string, phone: string) => {
+        if (record.customerId || (!name.trim() && !phone.trim())) return;
+        const byPhone = customers.filter(c => isSamePhone(c.phone, phone));
+        const byName = name.trim() ? customers.filter(c => c.name.toLowerCase() === name.trim().toLowerCase()) : [];
+        if (byPhone.length > 0) proposals.push({ entity, record, label, date, name, phone, matchedBy: 'phone', candidates: byPhone });
+        else if (byName.length > 0) proposals.push({ entity, record, label, date, name, phone, matchedBy: 'name', candidates: byName });
+    };
+
+    records.sales.forEach(s => propose('sales', s, `Satış · ${s.items.map(i => i.productName).join(', ')}`, s.date, s.customerInfo?.name || '', s.customerInfo?.phone || ''));
+    records.repairs.forEach(r => propose('repairs', r, `Tamir · ${r.deviceInfo}`, r.createdAt, r.customerName, r.customerPhone));
+    records.phoneSales.forEach(ps => propose('phoneSales', ps, `Telefon · ${ps.brand} ${ps.model}`, ps.date, ps.customerName || '', ps.customerPhone || ''));
+    return proposals.sort((a, b) => b.date.localeCompare(a.date));
+}
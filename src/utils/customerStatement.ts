@@ -0,0 +1,164 @@
+import type { Customer, MusteriHareket, PhoneSale, RepairRecord, Sale } from '../types';
+import { formatCurrency, formatDate, getPaymentMethodLabel, isReturnSale } from './helpers';
+import { escapeHtml, openPrintWindow } from './print';
+import { loadShopInfo } from './receipt';
+import { getHareketTipiInfo, getOpeningBalance } from './customerLedger';
+import { formatPhone } from './phone';
+
+// ── Customer account statement (hesap ekstresi) ──
+// Sales, delivered repairs and phone sales are paid on the spot, so they show
+// up on both sides and leave the balance alone; what the customer owes comes
+// from the ledger (MusteriHareket). Balance > 0 = the customer owes us.
+
+export interface StatementLine {
+    date: string;
+    description: string;
+    borc: number;
+    alacak: number;
+    balance: number;
+}
+
+export interface AccountStatement {
+    customer: Customer;
+    from: string;
+    to: string;
+    opening: number;
+    closing: number;
+    totalBorc: number;
+    totalAlacak: number;
+    lines: StatementLine[];
+}
+
+// The customer's own records; matching them to the customer is up to the caller
+export interface StatementRecords {
+    sales: Sale[];
+    repairs: RepairRecord[];
+    phoneSales: PhoneSale[];
+    hareketler: MusteriHareket[];
+}
+
+// from / to are date-input values (YYYY-MM-DD), both days included
+export function buildAccountStatement(customer: Customer, records: StatementRecords, from: string, to: string): AccountStatement {
+    const start = new Date(`${from}T00:00:00`).getTime();
+    const end = new Date(`${to}T23:59:59.999`).getTime();
+    const inRange = (date: string) => {
+        const t = new Date(date).getTime();
+        return t >= start && t <= end;
+    };
+
+    const own = records.hareketler.filter(h => h.customerId === customer.id);
+    const opening = getOpeningBalance(customer) + own
+        .filter(h => new Date(h.islemTarihi).getTime() < start)
+        .reduce((s, h) => s + h.bakiyeEtkisi, 0);
+
+    const entries: Omit<StatementLine, 'balance'>[] = [];
+    const paidOnSpot = (date: string, description: string, amount: number) =>
+        entries.push({ date, description, borc: Math.abs(amount), alacak: Math.abs(amount) });
+
+    records.sales.filter(s => inRange(s.date)).forEach(s => paidOnSpot(s.date,
+        `${isReturnSale(s) ? 'İade' : 'Satış'}: ${s.items.map(i => i.productName).join(', ')} (${getPaymentMethodLabel(s.paymentMethod)})`, s.totalPrice));
+    records.repairs.filter(r => r.status === 'delivered' && inRange(r.deliveredAt || r.createdAt)).forEach(r => paidOnSpot(r.deliveredAt || r.createdAt,
+        `Tamir: ${r.deviceInfo}`, r.repairCost));
+    records.phoneSales.filter(ps => inRange(ps.date)).forEach(ps => paidOnSpot(ps.date,
+        `Telefon: ${ps.brand} ${ps.model} (${getPaymentMethodLabel(ps.paymentMethod)})`, ps.salePrice));
+    own.filter(h => inRange(h.islemTarihi)).forEach(h => entries.push({
+        date: h.islemTarihi,
+        description: `${getHareketTipiInfo(h.islemTipi).label.replace(' Ekle', '')}: ${h.aciklama}`,
+        borc: Math.max(0, h.bakiyeEtkisi),
+        alacak: Math.max(0, -h.bakiyeEtkisi),
+    }));
+
+    let balance = opening;
+    const lines = entries
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(e => {
+            balance += e.borc - e.alacak;
+            return { ...e, balance };
+        });
+
+    return {
+        customer, from, to, opening, closing: balance, lines,
+        totalBorc: lines.reduce((s, l) => s + l.borc, 0),
+        totalAlacak: lines.reduce((s, l) => s + l.alacak, 0),
+    };
+}
+
+export function formatStatementBalance(balance: number): string {
+    if (balance === 0) return formatCurrency(0);
+    return `${formatCurrency(Math.abs(balance))} ${balance > 0 ? '(B)' : '(A)'}`;
+}
+
+const STATEMENT_STYLES = `
+    .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; border-bottom: 2px solid #111; padding-bottom: 8px; }
+    .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 12px; }
+    .summary div { border: 1px solid #ddd; border-radius: 4px; padding: 6px 8px; }
+    .summary b { display: block; font-size: 13px; }
+    tr.total td { font-weight: bold; border-top: 2px solid #111; }
+    .note { margin-top: 16px; font-size: 11px; }
+`;
+
+/** Opens the statement for printing / "Save as PDF". Returns false when a popup blocker stopped it. */
+export function printAccountStatement(st: AccountStatement): boolean {
+    const shop = loadShopInfo();
+    const c = st.customer;
+    return openPrintWindow(`Ekstre-${c.name}-${st.from}-${st.to}`, `
+<div class="header">
+    <div>
+        <h1>${escapeHtml(shop.name)}</h1>
+        ${shop.address ? `<div class="muted">${escapeHtml(shop.address)}</div>` : ''}
+        ${shop.phone ? `<div class="muted">Tel: ${escapeHtml(shop.phone)}</div>` : ''}
+    </div>
+    <div class="right">
+        <h2>Hesap Ekstresi</h2>
+        <div>${escapeHtml(formatDate(st.from))} – ${escapeHtml(formatDate(st.to))}</div>
+        <div class="muted">Düzenlenme: ${escapeHtml(formatDate(new Date().toISOString()))}</div>
+    </div>
+</div>
+<div style="margin-top: 8px">
+    <b>${escapeHtml(c.name)}</b>
+    ${c.phone ? `<div class="muted">${escapeHtml(formatPhone(c.phone))}</div>` : ''}
+    ${c.address ? `<div class="muted">${escapeHtml(c.address)}</div>` : ''}
+</div>
+<div class="summary">
+    <div>Devir Bakiyesi<b>${escapeHtml(formatStatementBalance(st.opening))}</b></div>
+    <div>Dönem Borç<b>${escapeHtml(formatCurrency(st.totalBorc))}</b></div>
+    <div>Dönem Alacak<b>${escapeHtml(formatCurrency(st.totalAlacak))}</b></div>
+    <div>Kapanış Bakiyesi<b>${escapeHtml(formatStatementBalance(st.closing))}</b></div>
+</div>
+<table>
+    <thead><tr><th>Tarih</th><th>Açıklama</th><th class="right">Borç</th><th class="right">Alacak</th><th class="right">Bakiye</th></tr></thead>
+    <tbody>
+        <tr><td>${escapeHtml(formatDate(st.from))}</td><td>Devir</td><td></td><td></td><td class="right">${escapeHtml(formatStatementBalance(st.opening))}</td></tr>
+        ${st.lines.map(l => `<tr>
+            <td>${escapeHtml(formatDate(l.date))}</td>
+            <td>${escapeHtml(l.description)}</td>
+            <td class="right">${l.borc ? escapeHtml(formatCurrency(l.borc)) : ''}</td>
+            <td class="right">${l.alacak ? escapeHtml(formatCurrency(l.alacak)) : ''}</td>
+            <td class="right">${escapeHtml(formatStatementBalance(l.balance))}</td>
+        </tr>`).join('')}
+        <tr class="total"><td colspan="2">Toplam</td>
+            <td class="right">${escapeHtml(formatCurrency(st.totalBorc))}</td>
+            <td class="right">${escapeHtml(formatCurrency(st.totalAlacak))}</td>
+            <td class="right">${escapeHtml(formatStatementBalance(st.closing))}</td></tr>
+    </tbody>
+</table>
+<div class="note muted">(B) borç bakiyesi — müşterinin ödemesi gereken tutar, (A) alacak bakiyesi — müşteriye ait tutar.</div>`, STATEMENT_STYLES);
+}
+
+// Short WhatsApp version: totals only, the full list goes out as the PDF
+export function renderStatementSummary(st: AccountStatement): string {
+    const shop = loadShopInfo();
+    const closing = st.closing > 0
+        ? `${formatCurrency(st.closing)} borç bakiyeniz bulunmaktadır.`
+        : st.closing < 0 ? `${formatCurrency(-st.closing)} alacak bakiyeniz bulunmaktadır.` : 'Bakiyeniz bulunmamaktadır.';
+    return [
+        `Sayın ${st.customer.name},`,
+        `${shop.name} hesap ekstreniz (${formatDate(st.from)} – ${formatDate(st.to)}):`,
+        `• Devir bakiyesi: ${formatStatementBalance(st.opening)}`,
+        `• Dönem borç: ${formatCurrency(st.totalBorc)}`,
+        `• Dönem alacak / ödeme: ${formatCurrency(st.totalAlacak)}`,
+        `• ${st.lines.length} işlem`,
+        closing,
+        shop.phone ? `Bilgi için: ${shop.phone}` : '',
+    ].filter(Boolean).join('\n');
+}
@@ -1,3 +1,6 @@
+import type { RepairPart, RepairRecord, RepairStatusEvent } from '../types';
+import { getSession } from './auth';
+
 export function formatCurrency(amount: number): string {
     return new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY' }).format(amount);
 }
@@ -50,6 +53,18 @@ export function getPaymentMethodLabel(method: string) {
     return map[method] || method;
 }
 
+export function getStockMovementReasonInfo(reason: string) {
+    const map: Record<string, { label: string; icon: string; color: string }> = {
+        sale: { label: 'Satış', icon: 'shopping_cart', color: 'bg-blue-500/20 text-blue-400' },
+        purchase: { label: 'Alış', icon: 'local_shipping', color: 'bg-emerald-500/20 text-emerald-400' },
+        return: { label: 'İade', icon: 'undo', color: 'bg-purple-500/20 text-purple-400' },
+        adjustment: { label: 'Düzeltme', icon: 'edit', color: 'bg-slate-500/20 text-slate-300' },
+        count: { label: 'Sayım', icon: 'fact_check', color: 'bg-amber-500/20 text-amber-400' },
+        repair_part: { label: 'Tamir Parçası', icon: 'build', color: 'bg-orange-500/20 text-orange-400' },
+    };
+    return map[reason] || map.adjustment;
+}
+
 export function getPurchaseStatusInfo(status: string) {
     const map: Record<string, { label: string; color: string }> = {
         odenmedi: { label: 'Ödenmedi', color: 'bg-red-500/20 text-red-400' },
@@ -62,3 +77,140 @@ export function getPurchaseStatusInfo(status: string) {
 export function generateId(): string {
     return Date.now().toString();
 }
+
+// Short code printed on repair tickets; no 0/O or 1/I so it can be read over the phone
+const TRACKING_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generateTrackingCode(): string {
+    let code = '';
+    for (let i = 0; i < 6; i++) code += TRACKING_ALPHABET[Math.floor(Math.random() * TRACKING_ALPHABET.length)];
+    return code;
+}
+
+// Accepts a bare code or a scanned URL carrying ?takip=CODE
+export function parseTrackingCode(text: string): string {
+    const match = text.match(/[?&]takip=([A-Za-z0-9]+)/);
+    return (match ? match[1] : text).trim().toUpperCase();
+}
+
+export function isReturnSale(sale: { returnOf?: string }): boolean {
+    return !!sale.returnOf;
+}
+
+// Units already taken back per product for one sale, from its return documents
+export function getReturnedQuantities(sales: { returnOf?: string; items: { productId: string; productName: string; quantity: number }[] }[], saleId: string): Record<string, number> {
+    const returned: Record<string, number> = {};
+    for (const s of sales) {
+        if (s.returnOf !== saleId) continue;
+        for (const i of s.items) {
+            const key = i.productId || i.productName;
+            returned[key] = (returned[key] || 0) + Math.abs(i.quantity);
+        }
+    }
+    return returned;
+}
+
+export function getCurrentUserName(): string {
+    return getSession()?.name || 'Admin';
+}
+
+// Expected stock per product according to the movement ledger
+export function computeLedgerStock(movements: { productId: string; delta: number }[]): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const m of movements) totals.set(m.productId, (totals.get(m.productId) || 0) + m.delta);
+    return totals;
+}
+
+// Applies a status transition and records it in the repair's history
+export function changeRepairStatus(r: RepairRecord, to: RepairRecord['status'], note?: string): RepairRecord {
+    const event: RepairStatusEvent = { from: r.status, to, at: new Date().toISOString(), user: getCurrentUserName() };
+    if (note) event.note = note;
+    return {
+        ...r,
+        status: to,
+        statusHistory: [...(r.statusHistory || []), event],
+        deliveredAt: to === 'delivered' ? event.at : r.deliveredAt,
+    };
+}
+
+const TERMINAL_REPAIR_STATUSES: RepairRecord['status'][] = ['delivered', 'cancelled'];
+
+// Milliseconds spent in each status; the open status counts up to `now`.
+// Records from before status history existed count from createdAt in their current status.
+export function getRepairStatusDurations(r: RepairRecord, now = Date.now()): Partial<Record<RepairRecord['status'], number>> {
+    const durations: Partial<Record<RepairRecord['status'], number>> = {};
+    const events = r.statusHistory || [];
+    let status = events.length ? (events[0].from ?? events[0].to) : r.status;
+    let since = new Date(r.createdAt).getTime();
+    for (const e of events) {
+        const at = new Date(e.at).getTime();
+        if (e.from !== null) durations[status] = (durations[status] || 0) + Math.max(0, at - since);
+        status = e.to;
+        since = at;
+    }
+    if (!TERMINAL_REPAIR_STATUSES.includes(status)) durations[status] = (durations[status] || 0) + Math.max(0, now - since);
+    return durations;
+}
+
+// Intake to hand-over, or null while the device is still in the shop
+export function getRepairTurnaround(r: RepairRecord): number | null {
+    if (!r.deliveredAt) return null;
+    return Math.max(0, new Date(r.deliveredAt).getTime() - new Date(r.createdAt).getTime());
+}
+
+export function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes} dk`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} sa ${minutes % 60} dk`;
+    return `${Math.floor(hours / 24)} gün ${hours % 24} sa`;
+}
+
+export function getRepairPartsCost(parts: RepairPart[]): number {
+    return parts.reduce((sum, p) => sum + p.quantity * p.unitCost, 0);
+}
+
+// Units taken from each inventory product; diffed against the previous list when a repair is edited
+export function getRepairPartQuantities(parts: RepairPart[] = []): Map<string, number> {
+    const totals = new Map<string, number>();
+    for (const p of parts) {
+        if (p.productId) totals.set(p.productId, (totals.get(p.productId) || 0) + p.quantity);
+    }
+    return totals;
+}
+
+// What a repair owes each supplier. Inventory parts were already paid for through
+// purchases, so only parts ordered for the job count. Records without a parts list
+// fall back to the old single supplier + partsCost pair.
+export function getRepairSupplierCosts(r: RepairRecord): { supplierId: string; supplierName: string; amount: number }[] {
+    if (!r.parts) {
+        return r.supplierId && r.partsCost > 0 ? [{ supplierId: r.supplierId, supplierName: r.supplierName || '', amount: r.partsCost }] : [];
+    }
+    const bySupplier = new Map<string, { supplierId: string; supplierName: string; amount: number }>();
+    for (const p of r.parts) {
+        if (p.productId || !p.supplierId) continue;
+        const entry = bySupplier.get(p.supplierId) || { supplierId: p.supplierId, supplierName: p.supplierName || '', amount: 0 };
+        entry.amount += p.quantity * p.unitCost;
+        bySupplier.set(p.supplierId, entry);
+    }
+    return [...bySupplier.values()].filter(e => e.amount > 0);
+}
+
+// A short human-readable name for any stored record (audit log, trash);
+// empty when nothing better than the id is available
+export function getRecordLabel(record: Record<string, unknown>): string {
+    for (const key of ['name', 'productName', 'deviceInfo', 'title', 'invoiceNumber']) {
+        const value = record[key];
+        if (typeof value === 'string' && value) return value;
+    }
+    if (record.brand || record.model) return `${record.brand || ''} ${record.model || ''}`.trim();
+    const items = record.items as { productName?: string }[] | undefined;
+    if (Array.isArray(items) && items.length > 0) {
+        return `${items[0].productName || ''}${items.length > 1 ? ` +${items.length - 1}` : ''}`;
+    }
+    for (const key of ['customerName', 'description']) {
+        const value = record[key];
+        if (typeof value === 'string' && value) return value;
+    }
+    return '';
+}
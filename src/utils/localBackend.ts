@@ -0,0 +1,523 @@
+import type { AuthSession, Customer, Product, Purchase, PurchaseItem, RepairRecord, Sale, StaffMember, StockMovement, StockShortage, Supplier } from '../types';
+import type { Reminder } from '../pages/RemindersPage';
+import type { BackendConfig, CustomerLinkedEntity, DataBackend, EntityRepository } from './backend';
+import { filterRecords, requestedQuantities, repairPartDeltas, repairPartNote, planCustomerMerge, InsufficientStockError, matchesTrackingRequest, toRepairTrackingInfo } from './backend';
+import { getCurrentUserName } from './helpers';
+import { hasPermission } from './auth';
+
+// ── Local (offline) backend ──
+// Everything lives in the browser: IndexedDB when available, otherwise a plain
+// in-memory map (private windows, old WebViews). IDs are generated here the way
+// the server would, and update() upserts because pages create records with a
+// client-side generateId() and save them through the update path.
+
+const STORE_NAMES = [
+    'categories', 'products', 'sales', 'repairs', 'phoneSales', 'phoneStocks', 'expenses',
+    'customerRequests', 'suppliers', 'purchases', 'purchaseItems', 'cariHareketler',
+    'payments', 'customers', 'reminders', 'stockMovements', 'staff', 'credentials',
+    'auditLog', 'musteriHareketler',
+] as const;
+
+type StoreName = typeof STORE_NAMES[number];
+type StoredRecord = { id: string } & Record<string, unknown>;
+
+interface RecordTransaction {
+    getAll(store: StoreName): Promise<StoredRecord[]>;
+    get(store: StoreName, id: string): Promise<StoredRecord | null>;
+    put(store: StoreName, record: StoredRecord): Promise<void>;
+}
+
+interface RecordStore {
+    getAll(store: StoreName): Promise<StoredRecord[]>;
+    get(store: StoreName, id: string): Promise<StoredRecord | null>;
+    put(store: StoreName, record: StoredRecord): Promise<void>;
+    delete(store: StoreName, id: string): Promise<void>;
+    // All writes made through tx land together, or none do if fn throws
+    transaction<T>(stores: StoreName[], fn: (tx: RecordTransaction) => Promise<T>): Promise<T>;
+}
+
+// ── IndexedDB store ──
+
+// Bump whenever STORE_NAMES grows so onupgradeneeded creates the new stores
+const DB_VERSION = 6;
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function createIndexedDbStore(dbName: string): RecordStore {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const open = () => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const req = indexedDB.open(dbName, DB_VERSION);
+                req.onupgradeneeded = () => {
+                    for (const name of STORE_NAMES) {
+                        if (!req.result.objectStoreNames.contains(name)) {
+                            req.result.createObjectStore(name, { keyPath: 'id' });
+                        }
+                    }
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return dbPromise;
+    };
+
+    const run = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await open();
+        return requestToPromise(fn(db.transaction(store, mode).objectStore(store)));
+    };
+
+    return {
+        async getAll(store) {
+            return run(store, 'readonly', s => s.getAll() as IDBRequest<StoredRecord[]>);
+        },
+        async get(store, id) {
+            const row = await run(store, 'readonly', s => s.get(id) as IDBRequest<StoredRecord | undefined>);
+            return row || null;
+        },
+        async put(store, record) {
+            await run(store, 'readwrite', s => s.put(record));
+        },
+        async delete(store, id) {
+            await run(store, 'readwrite', s => s.delete(id));
+        },
+        async transaction(stores, fn) {
+            const db = await open();
+            const tx = db.transaction(stores, 'readwrite');
+            const done = new Promise<void>((resolve, reject) => {
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+                tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+            });
+            let result: Awaited<ReturnType<typeof fn>>;
+            try {
+                // Only IndexedDB requests may be awaited in fn, or the transaction auto-commits early
+                result = await fn({
+                    async getAll(name) {
+                        return requestToPromise(tx.objectStore(name).getAll() as IDBRequest<StoredRecord[]>);
+                    },
+                    async get(name, id) {
+                        return (await requestToPromise(tx.objectStore(name).get(id) as IDBRequest<StoredRecord | undefined>)) || null;
+                    },
+                    async put(name, record) {
+                        await requestToPromise(tx.objectStore(name).put(record));
+                    },
+                });
+            } catch (err) {
+                done.catch(() => { });
+                try { tx.abort(); } catch { /* already finished */ }
+                throw err;
+            }
+            await done;
+            return result;
+        },
+    };
+}
+
+// ── In-memory store ──
+
+function createMemoryStore(): RecordStore {
+    const stores = new Map<StoreName, Map<string, StoredRecord>>();
+    const table = (store: StoreName) => {
+        if (!stores.has(store)) stores.set(store, new Map());
+        return stores.get(store)!;
+    };
+    return {
+        async getAll(store) { return [...table(store).values()].map(r => ({ ...r })); },
+        async get(store, id) {
+            const row = table(store).get(id);
+            return row ? { ...row } : null;
+        },
+        async put(store, record) { table(store).set(record.id, { ...record }); },
+        async delete(store, id) { table(store).delete(id); },
+        async transaction(_stores, fn) {
+            // Writes are staged and applied only once fn has succeeded
+            const stagedIn = new Map<StoreName, Map<string, StoredRecord>>();
+            const result = await fn({
+                async getAll(store) {
+                    const rows = new Map(table(store));
+                    for (const [id, row] of stagedIn.get(store) || []) rows.set(id, row);
+                    return [...rows.values()].map(r => ({ ...r }));
+                },
+                async get(store, id) {
+                    const row = stagedIn.get(store)?.get(id) || table(store).get(id);
+                    return row ? { ...row } : null;
+                },
+                async put(store, record) {
+                    if (!stagedIn.has(store)) stagedIn.set(store, new Map());
+                    stagedIn.get(store)!.set(record.id, { ...record });
+                },
+            });
+            for (const [store, rows] of stagedIn) {
+                for (const row of rows.values()) table(store).set(row.id, row);
+            }
+            return result;
+        },
+    };
+}
+
+function generateLocalId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// A fresh row as localRepo.create() would store it
+function newRow(data: object): StoredRecord {
+    return { ...data, id: generateLocalId(), createdAt: new Date().toISOString() };
+}
+
+// ── Local accounts ──
+// Password hashes (PBKDF2 via WebCrypto) sit in their own store keyed by staff
+// id, so they never travel with the staff list.
+
+interface LocalCredential {
+    id: string;
+    username: string;
+    salt: string;
+    hash: string;
+}
+
+const SESSION_HOURS = 12;
+const PBKDF2_ITERATIONS = 100_000;
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+    return Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function randomHex(length: number): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(length)));
+}
+
+async function hashPassword(password: string, saltHex: string): Promise<string> {
+    const salt = new Uint8Array((saltHex.match(/../g) || []).map(h => parseInt(h, 16)));
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, key, 256);
+    return toHex(bits);
+}
+
+interface LocalTableOptions<T> {
+    // Newest first by default, like the REST tables
+    sortBy?: keyof T & string;
+    sortDir?: 'asc' | 'desc';
+    defaults?: Partial<T>;
+    // Joined relations that must never be persisted on the row itself
+    omit?: (keyof T & string)[];
+}
+
+export function createLocalBackend(config: BackendConfig): DataBackend {
+    const store = typeof indexedDB !== 'undefined' ? createIndexedDbStore(config.localDbName) : createMemoryStore();
+
+    function localRepo<T extends { id: string }>(name: StoreName, options: LocalTableOptions<T> = {}): EntityRepository<T> {
+        const sortBy = options.sortBy || 'createdAt';
+        const dir = options.sortDir === 'asc' ? 1 : -1;
+
+        const clean = (data: Partial<T>) => {
+            const row = { ...data } as Record<string, unknown>;
+            for (const key of options.omit || []) delete row[key];
+            return row;
+        };
+
+        const repo: EntityRepository<T> = {
+            async list(filter) {
+                const rows = (await store.getAll(name)) as unknown as T[];
+                const sorted = rows.sort((a, b) =>
+                    String((a as Record<string, unknown>)[sortBy] ?? '').localeCompare(String((b as Record<string, unknown>)[sortBy] ?? '')) * dir);
+                return filterRecords(sorted, filter);
+            },
+            async get(id) {
+                return (await store.get(name, id)) as unknown as T | null;
+            },
+            async create(data) {
+                const row = {
+                    ...options.defaults,
+                    ...clean(data),
+                    id: generateLocalId(),
+                    createdAt: new Date().toISOString(),
+                } as StoredRecord;
+                await store.put(name, row);
+                return row as unknown as T;
+            },
+            async createMany(items) {
+                const created: T[] = [];
+                for (const item of items) {
+                    const row = await repo.create(item);
+                    if (row) created.push(row);
+                }
+                return created;
+            },
+            async update(id, data) {
+                const existing = await store.get(name, id);
+                const row = {
+                    ...(existing || { ...options.defaults, createdAt: new Date().toISOString() }),
+                    ...clean(data),
+                    id,
+                } as StoredRecord;
+                await store.put(name, row);
+                return row as unknown as T;
+            },
+            async delete(id) {
+                await store.delete(name, id);
+            },
+            async restore(record) {
+                await store.put(name, record as unknown as StoredRecord);
+                return record;
+            },
+        };
+        return repo;
+    }
+
+    // Serialises read-check-write sequences (checkout) within this tab
+    let lock: Promise<unknown> = Promise.resolve();
+    const exclusive = <T>(fn: () => Promise<T>) => {
+        const run = lock.then(fn);
+        lock = run.catch(() => { });
+        return run;
+    };
+
+    const suppliers = localRepo<Supplier>('suppliers');
+    const products = localRepo<Product>('products');
+    const sales = localRepo<Sale>('sales');
+    const repairs = localRepo<RepairRecord>('repairs');
+    const stockMovements = localRepo<StockMovement>('stockMovements');
+    const staff = localRepo<StaffMember>('staff', { sortBy: 'name', sortDir: 'asc' });
+    const credentials = localRepo<LocalCredential>('credentials');
+
+    const findCredential = async (username: string) => {
+        const key = username.trim().toLowerCase();
+        return (await credentials.list()).find(c => c.username.toLowerCase() === key);
+    };
+
+    const writeCredentials = async (staffId: string, username: string, password: string) => {
+        const taken = await findCredential(username);
+        if (taken && taken.id !== staffId) throw new Error('Bu kullanıcı adı kullanılıyor');
+        const salt = randomHex(16);
+        await credentials.update(staffId, { username: username.trim(), salt, hash: await hashPassword(password, salt) });
+        await staff.update(staffId, { username: username.trim() });
+    };
+
+    const createSession = (member: StaffMember): AuthSession => ({
+        token: randomHex(32),
+        userId: member.id,
+        name: member.name,
+        role: member.role,
+        expiresAt: new Date(Date.now() + SESSION_HOURS * 3600000).toISOString(),
+    });
+    const purchaseItems = localRepo<PurchaseItem>('purchaseItems');
+    const purchaseRows = localRepo<Purchase>('purchases', { omit: ['supplier', 'items'] });
+
+    // Mirror the PostgREST embed: purchases come back with supplier + items
+    const withRelations = async (rows: Purchase[]) => {
+        const [allSuppliers, allItems] = await Promise.all([suppliers.list(), purchaseItems.list()]);
+        return rows.map(p => ({
+            ...p,
+            supplier: allSuppliers.find(s => s.id === p.supplierId),
+            items: allItems.filter(i => i.purchaseId === p.id),
+        }));
+    };
+
+    return {
+        kind: 'local',
+        categories: localRepo('categories'),
+        products,
+        sales,
+        repairs,
+        phoneSales: localRepo('phoneSales'),
+        expenses: localRepo('expenses'),
+        customerRequests: localRepo('customerRequests'),
+        phoneStocks: localRepo('phoneStocks'),
+        suppliers,
+        purchases: {
+            ...purchaseRows,
+            async list(filter) {
+                return withRelations(await purchaseRows.list(filter));
+            },
+            async get(id) {
+                const row = await purchaseRows.get(id);
+                return row ? (await withRelations([row]))[0] : null;
+            },
+        },
+        purchaseItems,
+        cariHareketler: localRepo('cariHareketler', { sortBy: 'islemTarihi' }),
+        payments: localRepo('payments'),
+        customers: localRepo('customers'),
+        musteriHareketler: localRepo('musteriHareketler', { sortBy: 'islemTarihi' }),
+        stockMovements,
+        staff,
+        auditLog: localRepo('auditLog'),
+        reminders: localRepo<Reminder>('reminders', {
+            sortBy: 'remindAt',
+            sortDir: 'asc',
+            defaults: {
+                description: '', repeatType: 'none', phoneNumber: '', isSent: false,
+                isCompleted: false, priority: 'medium', category: 'genel',
+            },
+        }),
+
+        async adjustSupplierBalance(supplierId, addAmount) {
+            const supplier = await suppliers.get(supplierId);
+            if (!supplier) return;
+            await suppliers.update(supplierId, { balance: (supplier.balance || 0) + addAmount });
+        },
+
+        async updateProductStock(productId, stock, purchasePrice) {
+            // PATCH semantics — never creates a product
+            const product = await products.get(productId);
+            if (!product) return;
+            const changes: Partial<Product> = { stock };
+            if (purchasePrice !== undefined) changes.purchasePrice = purchasePrice;
+            await products.update(productId, changes);
+        },
+
+        checkout(sale) {
+            // Sale, stock and movements are written in one IndexedDB transaction
+            return exclusive(() => store.transaction(['sales', 'products', 'stockMovements'], async tx => {
+                const requested = requestedQuantities(sale);
+                const shortages: StockShortage[] = [];
+                const stockUpdates: { product: Product; quantity: number }[] = [];
+                for (const [productId, { productName, quantity }] of requested) {
+                    const product = await tx.get('products', productId) as unknown as Product | null;
+                    if (!product) continue;
+                    if (product.stock < quantity) {
+                        shortages.push({ productId, productName: product.name || productName, requested: quantity, available: product.stock });
+                    }
+                    stockUpdates.push({ product, quantity });
+                }
+                if (shortages.length > 0) throw new InsufficientStockError(shortages);
+
+                const created = newRow(sale);
+                await tx.put('sales', created);
+                for (const { product, quantity } of stockUpdates) {
+                    await tx.put('products', { ...product, stock: product.stock - quantity } as unknown as StoredRecord);
+                    await tx.put('stockMovements', newRow({
+                        productId: product.id, productName: product.name, delta: -quantity,
+                        reason: 'sale', referenceId: created.id, user: getCurrentUserName(),
+                    }));
+                }
+                return created as unknown as Sale;
+            }));
+        },
+
+        processReturn(ret) {
+            return exclusive(() => store.transaction(['sales', 'products', 'stockMovements'], async tx => {
+                const created = newRow(ret);
+                await tx.put('sales', created);
+                for (const [productId, { quantity }] of requestedQuantities(ret)) {
+                    const product = await tx.get('products', productId) as unknown as Product | null;
+                    if (!product) continue;
+                    // Return quantities are stored negative; the shelf gets them back
+                    const units = Math.abs(quantity);
+                    await tx.put('products', { ...product, stock: product.stock + units } as unknown as StoredRecord);
+                    await tx.put('stockMovements', newRow({
+                        productId, productName: product.name, delta: units,
+                        reason: 'return', referenceId: created.id, user: getCurrentUserName(),
+                    }));
+                }
+                return created as unknown as Sale;
+            }));
+        },
+
+        adjustStock(productId, delta, movement, changes = {}) {
+            return exclusive(() => store.transaction(['products', 'stockMovements'], async tx => {
+                const before = await tx.get('products', productId) as unknown as Product | null;
+                if (!before) return null;
+                const after = { ...before, ...changes, id: productId, stock: before.stock + delta } as Product;
+                await tx.put('products', after as unknown as StoredRecord);
+                if (delta !== 0) {
+                    await tx.put('stockMovements', newRow({
+                        ...movement, productId, productName: after.name, delta, user: getCurrentUserName(),
+                    }));
+                }
+                return { before, after };
+            }));
+        },
+
+        mergeCustomers(merged, duplicateIds) {
+            const linkedStores: CustomerLinkedEntity[] = ['sales', 'repairs', 'phoneSales', 'musteriHareketler'];
+            return exclusive(() => store.transaction(['customers', ...linkedStores], async tx => {
+                const customers: Customer[] = [];
+                for (const id of [merged.id, ...duplicateIds]) {
+                    const row = await tx.get('customers', id);
+                    if (row) customers.push(row as unknown as Customer);
+                }
+                const linked = [];
+                for (const entity of linkedStores) {
+                    linked.push({ entity, rows: await tx.getAll(entity) as { id: string; customerId?: string }[] });
+                }
+                const changes = planCustomerMerge(merged, customers, duplicateIds, linked, getCurrentUserName());
+                for (const change of changes) await tx.put(change.entity, change.after);
+                return changes;
+            }));
+        },
+
+        saveRepair(id, data) {
+            return exclusive(() => store.transaction(['repairs', 'products', 'stockMovements'], async tx => {
+                const before = await tx.get('repairs', id) as unknown as RepairRecord | null;
+                const after = { ...(before || { createdAt: new Date().toISOString() }), ...data, id } as RepairRecord;
+                const shortages: StockShortage[] = [];
+                const stockUpdates: { product: Product; delta: number }[] = [];
+                for (const [productId, delta] of repairPartDeltas(before, after)) {
+                    const product = await tx.get('products', productId) as unknown as Product | null;
+                    if (!product) continue;
+                    if (product.stock + delta < 0) {
+                        shortages.push({ productId, productName: product.name, requested: -delta, available: product.stock });
+                    }
+                    stockUpdates.push({ product, delta });
+                }
+                if (shortages.length > 0) throw new InsufficientStockError(shortages);
+
+                const note = repairPartNote(before, after);
+                for (const { product, delta } of stockUpdates) {
+                    await tx.put('products', { ...product, stock: product.stock + delta } as unknown as StoredRecord);
+                    await tx.put('stockMovements', newRow({
+                        productId: product.id, productName: product.name, delta,
+                        reason: 'repair_part', referenceId: id, note, user: getCurrentUserName(),
+                    }));
+                }
+                await tx.put('repairs', after as unknown as StoredRecord);
+                return { before, after };
+            }));
+        },
+
+        async trackRepair(trackingCode, phoneLast4) {
+            const match = (await repairs.list()).find(r => matchesTrackingRequest(r, trackingCode, phoneLast4));
+            return match ? toRepairTrackingInfo(match) : null;
+        },
+
+        async login(username, password) {
+            const credential = await findCredential(username);
+            if (!credential || await hashPassword(password, credential.salt) !== credential.hash) return null;
+            const member = await staff.get(credential.id);
+            return member?.active ? createSession(member) : null;
+        },
+
+        async logout() {
+            // Nothing to revoke: local tokens only live in this browser's session
+        },
+
+        async needsSetup() {
+            return (await credentials.list()).length === 0;
+        },
+
+        setupOwner(name, username, password) {
+            return exclusive(async () => {
+                if ((await credentials.list()).length > 0) throw new Error('Yönetici hesabı zaten oluşturulmuş');
+                const member = await staff.create({ name: name.trim(), role: 'owner', phone: '', active: true, createdAt: new Date().toISOString() });
+                await writeCredentials(member!.id, username, password);
+                return createSession(member!);
+            });
+        },
+
+        async setStaffCredentials(staffId, username, password) {
+            if (!hasPermission('staff.manage')) throw new Error('Bu işlem için yetkiniz yok');
+            if (!await staff.get(staffId)) throw new Error('Personel bulunamadı');
+            await exclusive(() => writeCredentials(staffId, username, password));
+        },
+    };
+}
@@ -0,0 +1,235 @@
+// ── Offline write queue ──
+// Mutations that fail because the network is down are stored in localStorage
+// and replayed in order once requests go through again. While anything is
+// pending, new mutations are queued behind it so the server sees the same
+// order the shop did. A replay that the server rejects becomes a conflict the
+// user has to retry or discard.
+// The queue belongs to one data source: switching between Supabase and a
+// local sandbox leaves the other one's pending writes where they are. The
+// local backend has no network to lose, so its calls are never queued.
+
+import { readBackendConfig } from './backend';
+
+export interface QueuedMutation {
+    id: string;
+    op: string;
+    label: string;
+    args: unknown[];
+    // id handed back to the page; remapped to the server id after replay
+    optimisticId?: string;
+    queuedAt: string;
+}
+
+export interface QueueConflict extends QueuedMutation {
+    error: string;
+    failedAt: string;
+}
+
+export interface QueueState {
+    pending: QueuedMutation[];
+    conflicts: QueueConflict[];
+    syncing: boolean;
+}
+
+type Operation = (...args: never[]) => Promise<unknown>;
+
+const REPLAY_INTERVAL_MS = 15000;
+
+// e.g. offlineQueue:supabase:https://….supabase.co / offlineQueue:local:stoktakip-local
+function backendScope(): string {
+    const config = readBackendConfig();
+    return `${config.kind}:${config.kind === 'local' ? config.localDbName : config.supabaseUrl}`;
+}
+
+const QUEUE_KEY = `offlineQueue:${backendScope()}`;
+const QUEUE_ENABLED = readBackendConfig().kind !== 'local';
+const CONFLICTS_KEY = `offlineConflicts:${backendScope()}`;
+
+const operations = new Map<string, Operation>();
+const listeners = new Set<() => void>();
+
+function load<T>(key: string): T[] {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Queues saved before they were scoped are taken over by the source active now
+for (const [legacy, key] of [['offlineQueue', QUEUE_KEY], ['offlineConflicts', CONFLICTS_KEY]]) {
+    const raw = localStorage.getItem(legacy);
+    if (raw === null) continue;
+    if (localStorage.getItem(key) === null) localStorage.setItem(key, raw);
+    localStorage.removeItem(legacy);
+}
+
+let state: QueueState = {
+    pending: load<QueuedMutation>(QUEUE_KEY),
+    conflicts: load<QueueConflict>(CONFLICTS_KEY),
+    syncing: false,
+};
+
+function setState(next: Partial<QueueState>) {
+    state = { ...state, ...next };
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(state.pending));
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(state.conflicts));
+    listeners.forEach(l => l());
+}
+
+export function getQueueState(): QueueState {
+    return state;
+}
+
+export function subscribeQueue(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+// Only a request that never reached the server counts, whatever navigator.onLine
+// says: a rejection (stock, validation, permission) would fail the same way on
+// every replay.
+export function isNetworkError(err: unknown): boolean {
+    // fetch() rejects with a TypeError ("Failed to fetch", "NetworkError…", "Load failed")
+    return err instanceof TypeError && /fetch|network|load failed/i.test(err.message);
+}
+
+function tempId() {
+    return `tmp-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// True for the temporary id of a record that is still waiting in the queue
+export function isPendingId(id?: string): boolean {
+    return !!id && id.startsWith('tmp-');
+}
+
+// What the page gets back while the write waits in the queue: the record it
+// sent, with a temporary id when the server would have generated one.
+function optimisticResult(args: unknown[]): { result: unknown; optimisticId?: string } {
+    const [first, second] = args;
+    if (Array.isArray(first)) return { result: first };
+    if (first && typeof first === 'object') {
+        const record = first as { id?: string };
+        const id = record.id && record.id.length > 5 ? record.id : tempId();
+        return { result: { ...record, id }, optimisticId: id };
+    }
+    if (typeof first === 'string' && second && typeof second === 'object') {
+        return { result: { ...second, id: first } };
+    }
+    return { result: undefined };
+}
+
+function replaceId(value: unknown, from: string, to: string): unknown {
+    if (value === from) return to;
+    if (Array.isArray(value)) return value.map(v => replaceId(v, from, to));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replaceId(v, from, to)]));
+    }
+    return value;
+}
+
+/**
+ * Wraps a mutating API call so it is queued instead of failing when offline.
+ * `op` must be unique — it is how the call is found again after a reload.
+ */
+export function queueable<A extends unknown[], R>(op: string, label: string, fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    operations.set(op, fn as unknown as Operation);
+
+    const enqueue = (args: A) => {
+        const { result, optimisticId } = optimisticResult(args);
+        const entry: QueuedMutation = {
+            id: tempId(), op, label, args, optimisticId, queuedAt: new Date().toISOString(),
+        };
+        setState({ pending: [...state.pending, entry] });
+        return result as R;
+    };
+
+    if (!QUEUE_ENABLED) return fn;
+
+    return async (...args: A) => {
+        if (state.pending.length > 0) return enqueue(args);
+        try {
+            return await fn(...args);
+        } catch (err) {
+            if (isNetworkError(err)) return enqueue(args);
+            throw err;
+        }
+    };
+}
+
+let flushPromise: Promise<boolean> | null = null;
+
+/** Replays pending mutations in order. Resolves true if the queue was drained. */
+export function flushQueue(): Promise<boolean> {
+    if (!flushPromise) {
+        flushPromise = replay().finally(() => {
+            flushPromise = null;
+            setState({ syncing: false });
+        });
+    }
+    return flushPromise;
+}
+
+async function replay(): Promise<boolean> {
+    if (state.pending.length === 0) return true;
+    setState({ syncing: true });
+
+    while (state.pending.length > 0) {
+        const [entry, ...rest] = state.pending;
+        const run = operations.get(entry.op);
+        try {
+            if (!run) throw new Error(`Bilinmeyen işlem: ${entry.op}`);
+            const result = await run(...(entry.args as never[]));
+            const serverId = (result as { id?: string } | null)?.id;
+            let remaining = rest;
+            if (entry.optimisticId && serverId && serverId !== entry.optimisticId) {
+                const from = entry.optimisticId;
+                remaining = rest.map(e => ({ ...e, args: replaceId(e.args, from, serverId) as unknown[] }));
+            }
+            setState({ pending: remaining });
+        } catch (err) {
+            if (isNetworkError(err)) return false;
+            const conflict: QueueConflict = {
+                ...entry,
+                error: err instanceof Error ? err.message : String(err),
+                failedAt: new Date().toISOString(),
+            };
+            setState({ pending: rest, conflicts: [...state.conflicts, conflict] });
+        }
+    }
+    return true;
+}
+
+export function retryConflict(id: string) {
+    const conflict = state.conflicts.find(c => c.id === id);
+    if (!conflict) return flushQueue();
+    const entry: QueuedMutation = {
+        id: conflict.id, op: conflict.op, label: conflict.label, args: conflict.args,
+        optimisticId: conflict.optimisticId, queuedAt: conflict.queuedAt,
+    };
+    setState({
+        conflicts: state.conflicts.filter(c => c.id !== id),
+        pending: [...state.pending, entry],
+    });
+    return flushQueue();
+}
+
+export function discardConflict(id: string) {
+    setState({ conflicts: state.conflicts.filter(c => c.id !== id) });
+}
+
+/** Replays whenever the browser reports it is back online, and periodically as a fallback. */
+export function startQueueReplay(onDrained: () => void) {
+    const tick = () => {
+        if (state.pending.length === 0) return;
+        flushQueue().then(drained => { if (drained) onDrained(); });
+    };
+    window.addEventListener('online', tick);
+    const timer = window.setInterval(tick, REPLAY_INTERVAL_MS);
+    tick();
+    return () => {
+        window.removeEventListener('online', tick);
+        window.clearInterval(timer);
+    };
+}
@@ -0,0 +1,72 @@
+// ── Phone numbers ──
+// Phones are typed the way the customer says them: 0532 123 45 67,
+// +90 (532) 123 4567, 5321234567 … They are stored as E.164 (+905321234567),
+// shown as 0532 123 45 67 and compared / sent to WhatsApp in E.164 form.
+// Numbers entered before this may still be free text; those are kept as typed.
+
+export type PhoneKind = 'mobile' | 'landline' | 'international';
+
+export interface ParsedPhone {
+    e164: string;
+    kind: PhoneKind;
+}
+
+// Turkish numbers are 10 digits after the 0 / +90 prefix: 5xx mobile,
+// 2xx–4xx geographic, 8xx nationwide (850 …)
+const TR_NATIONAL = /^[23458]\d{9}$/;
+
+export function parsePhone(input: string): ParsedPhone | null {
+    const raw = (input || '').trim();
+    let digits = raw.replace(/\D/g, '');
+    if (!digits) return null;
+    const explicitCountry = raw.startsWith('+') || digits.startsWith('00');
+    if (digits.startsWith('00')) digits = digits.slice(2);
+
+    if (explicitCountry && !digits.startsWith('90')) {
+        // Foreign number: only the E.164 length can be checked
+        return digits.length >= 8 && digits.length <= 15 ? { e164: `+${digits}`, kind: 'international' } : null;
+    }
+    if (digits.length === 12 && digits.startsWith('90')) digits = digits.slice(2);
+    else if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+    if (!TR_NATIONAL.test(digits)) return null;
+    return { e164: `+90${digits}`, kind: digits.startsWith('5') ? 'mobile' : 'landline' };
+}
+
+export function toE164(input: string): string | null {
+    return parsePhone(input)?.e164 ?? null;
+}
+
+// What gets stored: E.164 when the number parses, otherwise the text as typed
+export function normalizePhone(input: string): string {
+    return toE164(input) || (input || '').trim();
+}
+
+/** Inline validation message for a phone field; an empty optional field is fine. */
+export function getPhoneError(input: string, required = false): string | null {
+    if (!(input || '').trim()) return required ? 'Telefon numarası zorunlu' : null;
+    return parsePhone(input) ? null : 'Geçersiz telefon numarası (örn. 0532 123 45 67)';
+}
+
+// 0532 123 45 67 / 0212 345 67 89; unparseable legacy text is shown as typed
+export function formatPhone(input: string): string {
+    const parsed = parsePhone(input);
+    if (!parsed) return (input || '').trim();
+    if (parsed.kind === 'international') return parsed.e164;
+    const n = parsed.e164.slice(3);
+    return `0${n.slice(0, 3)} ${n.slice(3, 6)} ${n.slice(6, 8)} ${n.slice(8)}`;
+}
+
+// Comparison key: E.164, or the bare digits of numbers that do not parse
+export function phoneKey(input: string): string {
+    return toE164(input) || (input || '').replace(/\D/g, '');
+}
+
+export function isSamePhone(a: string, b: string): boolean {
+    const ka = phoneKey(a);
+    return !!ka && ka === phoneKey(b);
+}
+
+// Last four digits, as asked on the public repair tracking page
+export function getPhoneLast4(input: string): string {
+    return (input || '').replace(/\D/g, '').slice(-4);
+}
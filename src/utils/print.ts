@@ -0,0 +1,57 @@
+import QRCode from 'qrcode';
+
+// ── Printing helpers ──
+// Documents are rendered as standalone HTML in a new window so the app's dark
+// Tailwind theme never leaks onto paper.
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const BASE_STYLES = `
+    * { box-sizing: border-box; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 24px; font-size: 12px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    h2 { font-size: 14px; margin: 16px 0 6px; }
+    .muted { color: #666; }
+    table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+    th { background: #f3f3f3; font-size: 11px; text-transform: uppercase; }
+    .right { text-align: right; }
+    .neg { color: #b91c1c; }
+    .pos { color: #047857; }
+    @media print { body { margin: 0; } .no-print { display: none; } }
+`;
+
+/** Opens a print-ready window. Returns false when a popup blocker stopped it. */
+export function openPrintWindow(title: string, bodyHtml: string, extraStyles = ''): boolean {
+    const win = window.open('', '_blank', 'width=900,height=700');
+    if (!win) return false;
+    win.document.write(`<!DOCTYPE html><html lang="tr"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>${BASE_STYLES}${extraStyles}</style></head><body>${bodyHtml}
+<script>window.onload = function () { window.focus(); window.print(); };</script></body></html>`);
+    win.document.close();
+    return true;
+}
+
+/**
+ * Renders a QR code as inline SVG. Built synchronously from the module matrix so
+ * callers can still open the print window inside the click handler.
+ */
+export function qrCodeSvg(text: string, sizeMm: number): string {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const quiet = 2;
+    const dim = modules.size + quiet * 2;
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (modules.get(row, col)) path += `M${col + quiet} ${row + quiet}h1v1h-1z`;
+        }
+    }
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" width="${sizeMm}mm" height="${sizeMm}mm" shape-rendering="crispEdges"><rect width="${dim}" height="${dim}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
@@ -0,0 +1,106 @@
+import type { Sale } from '../types';
+import { formatCurrency, formatDateTime, getPaymentMethodLabel, isReturnSale } from './helpers';
+import { escapeHtml, openPrintWindow } from './print';
+import { formatPhone } from './phone';
+import { isPendingId } from './offlineQueue';
+
+// ── Sale receipts (fiş) ──
+// Sized for 58mm / 80mm thermal rolls. There is no PDF generator: the PDF
+// button opens the same print window, where the browser's "PDF olarak kaydet"
+// target uses the window title as the file name.
+
+export type ReceiptPaper = 58 | 80;
+
+export interface ShopInfo {
+    name: string;
+    phone: string;
+    address: string;
+    footer: string;
+}
+
+const SHOP_KEY = 'receiptShop';
+const PAPER_KEY = 'receiptPaper';
+
+// Build-time defaults (VITE_SHOP_*) also reach customers' browsers on the public tracking page
+const DEFAULT_SHOP: ShopInfo = {
+    name: import.meta.env.VITE_SHOP_NAME || 'TECHNOCEP',
+    phone: import.meta.env.VITE_SHOP_PHONE || '',
+    address: import.meta.env.VITE_SHOP_ADDRESS || '',
+    footer: 'Bizi tercih ettiğiniz için teşekkürler!',
+};
+
+export function loadShopInfo(): ShopInfo {
+    try {
+        const raw = localStorage.getItem(SHOP_KEY);
+        return raw ? { ...DEFAULT_SHOP, ...JSON.parse(raw) } : DEFAULT_SHOP;
+    } catch {
+        return DEFAULT_SHOP;
+    }
+}
+
+export function saveShopInfo(shop: ShopInfo) {
+    localStorage.setItem(SHOP_KEY, JSON.stringify(shop));
+}
+
+export function loadReceiptPaper(): ReceiptPaper {
+    return localStorage.getItem(PAPER_KEY) === '58' ? 58 : 80;
+}
+
+export function saveReceiptPaper(paper: ReceiptPaper) {
+    localStorage.setItem(PAPER_KEY, String(paper));
+}
+
+// Sales have no running counter; a short slice of the id is what staff read out.
+// A sale still waiting in the offline queue has no real id yet.
+export function getSaleNumber(sale: Pick<Sale, 'id'>): string {
+    if (isPendingId(sale.id)) return 'BEKLEMEDE';
+    return sale.id.replace(/-/g, '').slice(0, 8).toUpperCase();
+}
+
+const receiptStyles = (paper: ReceiptPaper) => `
+    @page { size: ${paper}mm auto; margin: 0; }
+    body { width: ${paper}mm; margin: 0 auto; padding: 3mm; font-family: 'Courier New', monospace; font-size: ${paper === 58 ? 10 : 11}px; }
+    .center { text-align: center; }
+    .shop { font-size: ${paper === 58 ? 14 : 16}px; font-weight: bold; }
+    .sep { border-top: 1px dashed #000; margin: 6px 0; }
+    .row { display: flex; justify-content: space-between; gap: 6px; }
+    .item { margin-bottom: 3px; }
+    .total { font-size: ${paper === 58 ? 12 : 14}px; font-weight: bold; }
+`;
+
+function renderReceipt(sale: Sale, shop: ShopInfo): string {
+    const isReturn = isReturnSale(sale);
+    const payments = Object.entries(sale.paymentDetails || { [sale.paymentMethod]: sale.totalPrice })
+        .filter(([, amount]) => amount !== 0);
+
+    return `
+<div class="center">
+    <div class="shop">${escapeHtml(shop.name)}</div>
+    ${shop.address ? `<div>${escapeHtml(shop.address)}</div>` : ''}
+    ${shop.phone ? `<div>Tel: ${escapeHtml(shop.phone)}</div>` : ''}
+</div>
+<div class="sep"></div>
+<div class="center"><b>${isReturn ? 'İADE FİŞİ' : 'SATIŞ FİŞİ'}</b></div>
+<div class="row"><span>Fiş No</span><span>${escapeHtml(getSaleNumber(sale))}</span></div>
+<div class="row"><span>Tarih</span><span>${escapeHtml(formatDateTime(sale.date))}</span></div>
+${sale.returnOf ? `<div class="row"><span>İade Edilen</span><span>${escapeHtml(getSaleNumber({ id: sale.returnOf }))}</span></div>` : ''}
+${sale.customerInfo?.name ? `<div class="row"><span>Müşteri</span><span>${escapeHtml(sale.customerInfo.name)}</span></div>` : ''}
+${sale.customerInfo?.phone ? `<div class="row"><span>Telefon</span><span>${escapeHtml(formatPhone(sale.customerInfo.phone))}</span></div>` : ''}
+<div class="sep"></div>
+${sale.items.map(i => `<div class="item">
+    <div>${escapeHtml(i.productName)}</div>
+    <div class="row"><span>${i.quantity} x ${escapeHtml(formatCurrency(i.salePrice))}</span><span>${escapeHtml(formatCurrency(i.salePrice * i.quantity))}</span></div>
+</div>`).join('')}
+<div class="sep"></div>
+<div class="row total"><span>TOPLAM</span><span>${escapeHtml(formatCurrency(sale.totalPrice))}</span></div>
+${payments.map(([method, amount]) => `<div class="row"><span>${escapeHtml(getPaymentMethodLabel(method))}</span><span>${escapeHtml(formatCurrency(amount))}</span></div>`).join('')}
+${sale.returnReason ? `<div class="row"><span>İade Nedeni</span><span>${escapeHtml(sale.returnReason)}</span></div>` : ''}
+<div class="sep"></div>
+${shop.footer ? `<div class="center">${escapeHtml(shop.footer)}</div>` : ''}
+<div class="center muted">Mali değeri yoktur</div>`;
+}
+
+/** Opens the receipt in a print window. Returns false when a popup blocker stopped it. */
+export function printSaleReceipt(sale: Sale, paper: ReceiptPaper, shop: ShopInfo = loadShopInfo()): boolean {
+    return openPrintWindow(`Fis-${getSaleNumber(sale)}`, renderReceipt(sale, shop), receiptStyles(paper));
+}
@@ -0,0 +1,71 @@
+import type { RepairChecklistItem } from '../types';
+
+// ── Repair intake checklist + condition photos ──
+// The shop edits the checklist on RepairsPage (kept in localStorage); each
+// repair stores its own filled-in copy so later list changes don't rewrite history.
+
+export type ChecklistTemplate = Pick<RepairChecklistItem, 'id' | 'label' | 'kind'>[];
+
+const CHECKLIST_KEY = 'repairIntakeChecklist';
+
+export const DEFAULT_INTAKE_CHECKLIST: ChecklistTemplate = [
+    { id: 'screen', label: 'Ekran', kind: 'condition' },
+    { id: 'camera', label: 'Kamera', kind: 'condition' },
+    { id: 'buttons', label: 'Tuşlar', kind: 'condition' },
+    { id: 'faceid', label: 'Face ID / Parmak İzi', kind: 'condition' },
+    { id: 'water', label: 'Sıvı Teması', kind: 'yesno' },
+    { id: 'accessories', label: 'Aksesuar Teslim Alındı', kind: 'yesno' },
+    { id: 'passcode', label: 'Ekran Şifresi Verildi', kind: 'yesno' },
+];
+
+// Photos live inside the repair record, so they are kept small and few
+export const MAX_INTAKE_PHOTOS = 6;
+const PHOTO_MAX_SIDE = 1024;
+const PHOTO_QUALITY = 0.6;
+
+export function loadIntakeChecklist(): ChecklistTemplate {
+    try {
+        const raw = localStorage.getItem(CHECKLIST_KEY);
+        return raw ? JSON.parse(raw) : DEFAULT_INTAKE_CHECKLIST;
+    } catch {
+        return DEFAULT_INTAKE_CHECKLIST;
+    }
+}
+
+export function saveIntakeChecklist(items: ChecklistTemplate) {
+    localStorage.setItem(CHECKLIST_KEY, JSON.stringify(items));
+}
+
+export function createIntakeChecklist(template: ChecklistTemplate): RepairChecklistItem[] {
+    return template.map(t => ({ id: t.id, label: t.label, kind: t.kind }));
+}
+
+export function getChecklistValueLabel(item: Pick<RepairChecklistItem, 'kind' | 'value'>): string {
+    if (item.value === undefined) return '—';
+    if (item.kind === 'yesno') return item.value ? 'Evet' : 'Hayır';
+    return item.value ? 'Sağlam' : 'Hasarlı';
+}
+
+/** Downscales a camera/gallery image to a JPEG data URL small enough to store on the record. */
+export function compressPhoto(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            const scale = Math.min(1, PHOTO_MAX_SIDE / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(img.width * scale);
+            canvas.height = Math.round(img.height * scale);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) { reject(new Error('Fotoğraf işlenemedi')); return; }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Fotoğraf okunamadı'));
+        };
+        img.src = url;
+    });
+}
@@ -0,0 +1,70 @@
+import type { Customer, RepairRecord } from '../types';
+import { formatCurrency, getRepairStatusInfo } from './helpers';
+import { isSamePhone } from './phone';
+
+// ── Repair status messages ──
+// One template per status, edited on RepairsPage and kept in localStorage next
+// to the WhatsApp credentials. Placeholders are replaced by renderRepairMessage.
+
+export interface RepairTemplate {
+    enabled: boolean;
+    text: string;
+}
+
+export type RepairTemplates = Record<RepairRecord['status'], RepairTemplate>;
+
+const TEMPLATES_KEY = 'repairNotifyTemplates';
+
+export const TEMPLATE_PLACEHOLDERS: { key: string; label: string }[] = [
+    { key: '{musteri}', label: 'Müşteri adı' },
+    { key: '{cihaz}', label: 'Cihaz' },
+    { key: '{durum}', label: 'Yeni durum' },
+    { key: '{kod}', label: 'Takip kodu' },
+    { key: '{ucret}', label: 'Tamir ücreti' },
+    { key: '{onodeme}', label: 'Ön ödeme' },
+    { key: '{kalan}', label: 'Kalan ödeme' },
+];
+
+export const DEFAULT_REPAIR_TEMPLATES: RepairTemplates = {
+    in_progress: { enabled: false, text: 'Sayın {musteri}, {cihaz} cihazınız servisimize alındı. Takip kodunuz: {kod}' },
+    waiting_parts: { enabled: false, text: 'Sayın {musteri}, {cihaz} cihazınız için parça bekleniyor. Gelişmeleri size bildireceğiz.' },
+    completed: { enabled: true, text: 'Sayın {musteri}, {cihaz} cihazınız hazır! Kalan ödeme: {kalan}. Takip kodu: {kod}' },
+    delivered: { enabled: false, text: 'Sayın {musteri}, {cihaz} cihazınızı teslim aldığınız için teşekkür ederiz.' },
+    cancelled: { enabled: false, text: 'Sayın {musteri}, {cihaz} cihazınızın tamiri iptal edildi. Cihazınızı teslim alabilirsiniz.' },
+};
+
+export function loadRepairTemplates(): RepairTemplates {
+    try {
+        const raw = localStorage.getItem(TEMPLATES_KEY);
+        return raw ? { ...DEFAULT_REPAIR_TEMPLATES, ...JSON.parse(raw) } : DEFAULT_REPAIR_TEMPLATES;
+    } catch {
+        return DEFAULT_REPAIR_TEMPLATES;
+    }
+}
+
+export function saveRepairTemplates(templates: RepairTemplates) {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function renderRepairMessage(text: string, r: RepairRecord): string {
+    const values: Record<string, string> = {
+        '{musteri}': r.customerName,
+        '{cihaz}': r.deviceInfo,
+        '{durum}': getRepairStatusInfo(r.status).label,
+        '{kod}': r.trackingCode || '',
+        '{ucret}': formatCurrency(r.repairCost),
+        '{onodeme}': formatCurrency(r.prePayment || 0),
+        '{kalan}': formatCurrency(Math.max(0, r.repairCost - (r.prePayment || 0))),
+    };
+    return text.replace(/\{[a-z]+\}/g, key => values[key] ?? key);
+}
+
+// Linked repairs carry customerId; older ones only the name and phone, so match on those
+export function findRepairCustomer(customers: Customer[], r: RepairRecord): Customer | undefined {
+    if (r.customerId) {
+        const linked = customers.find(c => c.id === r.customerId);
+        if (linked) return linked;
+    }
+    return customers.find(c => isSamePhone(c.phone, r.customerPhone))
+        || customers.find(c => c.name.trim().toLowerCase() === r.customerName.trim().toLowerCase());
+}
@@ -0,0 +1,99 @@
+import type { RepairRecord } from '../types';
+import { formatCurrency, formatDate, formatDateTime } from './helpers';
+import { escapeHtml, openPrintWindow, qrCodeSvg } from './print';
+import { loadShopInfo } from './receipt';
+import { formatPhone } from './phone';
+import { getChecklistValueLabel } from './repairIntake';
+
+// ── Repair intake ticket + device label ──
+// The customer keeps the ticket; the label goes on the device. Both carry the
+// tracking code as text and QR so either can be scanned back in RepairsPage.
+// The ticket's QR is a tracking link, so the customer can also open it on a phone.
+
+const REPAIR_TERMS = [
+    'Cihaz teslim alınırken yukarıdaki arıza ve durum bilgileri müşteri ile birlikte kontrol edilmiştir.',
+    'Tahmini ücret arıza tespitine göre değişebilir; ek maliyetler için müşteriden onay alınır.',
+    'Cihazdaki veriler müşterinin sorumluluğundadır. Yedek alınmamış verilerin kaybından işletme sorumlu değildir.',
+    'Tamiri tamamlanan ve 90 gün içinde teslim alınmayan cihazlardan işletme sorumlu değildir.',
+    'Cihaz teslim alınırken bu fişin ibrazı gereklidir.',
+];
+
+const INTAKE_STYLES = `
+    .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; border-bottom: 2px solid #111; padding-bottom: 8px; }
+    .code { font-family: 'Courier New', monospace; font-size: 20px; font-weight: bold; letter-spacing: 2px; }
+    .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 4px 24px; margin-top: 12px; }
+    .field b { display: inline-block; min-width: 110px; }
+    .box { border: 1px solid #ccc; border-radius: 4px; padding: 8px; margin-top: 6px; min-height: 48px; white-space: pre-wrap; }
+    ol { padding-left: 18px; margin: 4px 0; font-size: 11px; }
+    .photos { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px; }
+    .photos img { width: 30mm; height: 30mm; object-fit: cover; border: 1px solid #ccc; border-radius: 4px; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 48px; }
+    .signatures div { width: 40%; border-top: 1px solid #111; padding-top: 4px; text-align: center; }
+`;
+
+const LABEL_STYLES = `
+    @page { size: 50mm 30mm; margin: 0; }
+    body { width: 50mm; height: 30mm; margin: 0; padding: 1.5mm; font-size: 8px; display: flex; gap: 1.5mm; overflow: hidden; }
+    .info { flex: 1; min-width: 0; }
+    .code { font-family: 'Courier New', monospace; font-size: 12px; font-weight: bold; letter-spacing: 1px; }
+    .line { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+`;
+
+// Public tracking page of this deployment (see RepairTrackingPage)
+export function getTrackingUrl(code: string): string {
+    return `${window.location.origin}${window.location.pathname}?takip=${encodeURIComponent(code)}`;
+}
+
+/** Opens the intake ticket for the customer. Returns false when a popup blocker stopped it. */
+export function printRepairIntake(repair: RepairRecord): boolean {
+    const shop = loadShopInfo();
+    const code = repair.trackingCode || '';
+    return openPrintWindow(`Tamir-${code}`, `
+<div class="header">
+    <div>
+        <h1>${escapeHtml(shop.name)}</h1>
+        ${shop.address ? `<div class="muted">${escapeHtml(shop.address)}</div>` : ''}
+        ${shop.phone ? `<div class="muted">Tel: ${escapeHtml(shop.phone)}</div>` : ''}
+        <h2>Teknik Servis Kabul Formu</h2>
+        <div>Takip Kodu: <span class="code">${escapeHtml(code)}</span></div>
+        <div class="muted">Kabul: ${escapeHtml(formatDateTime(repair.createdAt))}</div>
+        ${repair.estimatedAt ? `<div class="muted">Tahmini Teslim: ${escapeHtml(formatDate(repair.estimatedAt))}</div>` : ''}
+    </div>
+    ${code ? qrCodeSvg(getTrackingUrl(code), 28) : ''}
+</div>
+<div class="grid">
+    <div class="field"><b>Müşteri</b> ${escapeHtml(repair.customerName)}</div>
+    <div class="field"><b>Telefon</b> ${escapeHtml(formatPhone(repair.customerPhone))}</div>
+    <div class="field"><b>Cihaz</b> ${escapeHtml(repair.deviceInfo)}</div>
+    <div class="field"><b>IMEI / Seri No</b> ${escapeHtml(repair.imei || '—')}</div>
+    <div class="field"><b>Tahmini Ücret</b> ${escapeHtml(formatCurrency(repair.repairCost))}</div>
+    <div class="field"><b>Ön Ödeme</b> ${escapeHtml(formatCurrency(repair.prePayment || 0))}</div>
+</div>
+<h2>Arıza Açıklaması</h2>
+<div class="box">${escapeHtml(repair.problemDescription || '—')}</div>
+${(repair.intakeChecklist || []).length ? `<h2>Cihaz Kabul Kontrolü</h2>
+<table><tbody>${repair.intakeChecklist!.map(c => `<tr><td>${escapeHtml(c.label)}</td><td><b>${escapeHtml(getChecklistValueLabel(c))}</b></td><td class="muted">${escapeHtml(c.note || '')}</td></tr>`).join('')}</tbody></table>` : ''}
+${(repair.intakePhotos || []).length ? `<h2>Kabul Fotoğrafları</h2>
+<div class="photos">${repair.intakePhotos!.map(src => `<img src="${escapeHtml(src)}" alt="">`).join('')}</div>` : ''}
+<h2>Şartlar</h2>
+<ol>${REPAIR_TERMS.map(t => `<li>${escapeHtml(t)}</li>`).join('')}</ol>
+${code ? `<div class="muted">Cihazınızın durumunu QR kodu okutarak ya da takip kodu ve telefonunuzun son 4 hanesiyle öğrenebilirsiniz.</div>` : ''}
+<div class="signatures">
+    <div>Teslim Eden (Müşteri)<br><span class="muted">${escapeHtml(repair.customerName)}</span></div>
+    <div>Teslim Alan<br><span class="muted">${escapeHtml(shop.name)}</span></div>
+</div>`, INTAKE_STYLES);
+}
+
+/** Opens the small device label (50×30mm). Returns false when a popup blocker stopped it. */
+export function printRepairLabel(repair: RepairRecord): boolean {
+    const code = repair.trackingCode || '';
+    return openPrintWindow(`Etiket-${code}`, `
+${code ? qrCodeSvg(code, 26) : ''}
+<div class="info">
+    <div class="code">${escapeHtml(code)}</div>
+    <div class="line"><b>${escapeHtml(repair.customerName)}</b></div>
+    <div class="line">${escapeHtml(formatPhone(repair.customerPhone))}</div>
+    <div class="line">${escapeHtml(repair.deviceInfo)}</div>
+    <div class="line">${escapeHtml(formatDateTime(repair.createdAt))}</div>
+</div>`, LABEL_STYLES);
+}
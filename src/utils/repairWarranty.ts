@@ -0,0 +1,63 @@
+import type { RepairRecord } from '../types';
+import { isSamePhone, phoneKey } from './phone';
+
+// ── Repair warranty ──
+// Each repair type has a default warranty period (days, from delivery). The
+// shop can change the defaults; each record keeps the days it was saved with.
+
+export const WARRANTY_RETURN_TYPE = 'warranty_return';
+
+export const REPAIR_TYPES: { id: string; label: string; warrantyDays: number }[] = [
+    { id: 'screen', label: 'Ekran Değişimi', warrantyDays: 90 },
+    { id: 'battery', label: 'Batarya Değişimi', warrantyDays: 180 },
+    { id: 'charging', label: 'Şarj Soketi', warrantyDays: 90 },
+    { id: 'board', label: 'Anakart Onarımı', warrantyDays: 30 },
+    { id: 'software', label: 'Yazılım', warrantyDays: 15 },
+    { id: 'other', label: 'Diğer', warrantyDays: 30 },
+    { id: WARRANTY_RETURN_TYPE, label: 'Garanti Dönüşü', warrantyDays: 0 },
+];
+
+const WARRANTY_DAYS_KEY = 'repairWarrantyDays';
+
+export function loadWarrantyDays(): Record<string, number> {
+    const defaults = Object.fromEntries(REPAIR_TYPES.map(t => [t.id, t.warrantyDays]));
+    try {
+        const raw = localStorage.getItem(WARRANTY_DAYS_KEY);
+        return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+    } catch {
+        return defaults;
+    }
+}
+
+export function saveWarrantyDays(days: Record<string, number>) {
+    localStorage.setItem(WARRANTY_DAYS_KEY, JSON.stringify(days));
+}
+
+export function getRepairTypeLabel(type?: string): string {
+    return REPAIR_TYPES.find(t => t.id === type)?.label || 'Diğer';
+}
+
+export function isWarrantyReturn(r: Pick<RepairRecord, 'repairType'>): boolean {
+    return r.repairType === WARRANTY_RETURN_TYPE;
+}
+
+// Warranty starts at hand-over; null until the device is delivered or when there is none
+export function getWarrantyExpiry(r: RepairRecord): Date | null {
+    if (!r.deliveredAt || !r.warrantyDays) return null;
+    const expiry = new Date(r.deliveredAt);
+    expiry.setDate(expiry.getDate() + r.warrantyDays);
+    return expiry;
+}
+
+export function isUnderWarranty(r: RepairRecord, at = new Date()): boolean {
+    const expiry = getWarrantyExpiry(r);
+    return r.status === 'delivered' && !!expiry && expiry >= at;
+}
+
+// Delivered repairs still under warranty for the same device (IMEI) or, without an IMEI, the same phone number
+export function findWarrantyRepairs(repairs: RepairRecord[], imei: string, phone: string, excludeId?: string): RepairRecord[] {
+    const imeiKey = imei.trim();
+    if (!imeiKey && !phoneKey(phone)) return [];
+    return repairs.filter(r => r.id !== excludeId && !isWarrantyReturn(r) && isUnderWarranty(r)
+        && (imeiKey ? r.imei?.trim() === imeiKey : isSamePhone(r.customerPhone, phone)));
+}
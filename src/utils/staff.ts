@@ -0,0 +1,26 @@
+import type { StaffMember, StaffRole } from '../types';
+import { getSession } from './auth';
+
+// ── Staff ──
+// Members are managed on StaffPage; a member with a username is also a login
+// account (see auth.ts for what each role may do).
+
+export const STAFF_ROLES: { id: StaffRole; label: string; color: string }[] = [
+    { id: 'owner', label: 'Yönetici', color: 'bg-primary/20 text-primary' },
+    { id: 'cashier', label: 'Kasiyer', color: 'bg-emerald-500/20 text-emerald-400' },
+    { id: 'technician', label: 'Teknisyen', color: 'bg-amber-500/20 text-amber-400' },
+];
+
+export function getStaffRoleInfo(role: StaffRole) {
+    return STAFF_ROLES.find(r => r.id === role) || STAFF_ROLES[0];
+}
+
+// Active members who can be assigned repairs
+export function getTechnicians(staff: StaffMember[]): StaffMember[] {
+    return staff.filter(m => m.active && m.role === 'technician');
+}
+
+export function getCurrentStaffMember(staff: StaffMember[]): StaffMember | undefined {
+    const userId = getSession()?.userId;
+    return userId ? staff.find(m => m.id === userId) : undefined;
+}
@@ -0,0 +1,557 @@
+import type { Supplier, PurchaseItem, Purchase, CariHareket, Customer, MusteriHareket, PhoneSale, RepairTrackingInfo, Product, Sale, StockMovement, StockShortage, RepairRecord, StaffMember, AuthSession } from '../types';
+import type { Reminder } from '../pages/RemindersPage';
+import type { BackendConfig, DataBackend, EntityRepository } from './backend';
+import { filterRecords, requestedQuantities, repairPartDeltas, repairPartNote, planCustomerMerge, InsufficientStockError } from './backend';
+import { expireSession, getSession, hasPermission, saveSession } from './auth';
+import { getCurrentUserName } from './helpers';
+
+// ── snake_case <-> camelCase mappers ──
+
+function snakeToCamel(obj: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(obj)) {
+        const camelKey = key.replace(/_([a-z])/g, (_, l) => l.toUpperCase());
+        result[camelKey] = obj[key];
+    }
+    return result;
+}
+
+function camelToSnake(obj: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(obj)) {
+        const snakeKey = key.replace(/[A-Z]/g, l => `_${l.toLowerCase()}`);
+        result[snakeKey] = obj[key];
+    }
+    return result;
+}
+
+// ── Reminder row mapping ──
+
+function reminderFromDb(row: Record<string, unknown>): Reminder {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        description: (row.description as string) || '',
+        remindAt: row.remind_at as string,
+        repeatType: (row.repeat_type as Reminder['repeatType']) || 'none',
+        phoneNumber: (row.phone_number as string) || '',
+        isSent: (row.is_sent as boolean) || false,
+        isCompleted: (row.is_completed as boolean) || false,
+        priority: (row.priority as Reminder['priority']) || 'medium',
+        category: (row.category as string) || 'genel',
+        createdAt: row.created_at as string,
+    };
+}
+
+function reminderToDb(r: Partial<Reminder>): Record<string, unknown> {
+    const obj: Record<string, unknown> = {};
+    if (r.title !== undefined) obj.title = r.title;
+    if (r.description !== undefined) obj.description = r.description;
+    if (r.remindAt !== undefined) obj.remind_at = new Date(r.remindAt).toISOString();
+    if (r.repeatType !== undefined) obj.repeat_type = r.repeatType;
+    if (r.phoneNumber !== undefined) obj.phone_number = r.phoneNumber;
+    if (r.isSent !== undefined) obj.is_sent = r.isSent;
+    if (r.isCompleted !== undefined) obj.is_completed = r.isCompleted;
+    if (r.priority !== undefined) obj.priority = r.priority;
+    if (r.category !== undefined) obj.category = r.category;
+    return obj;
+}
+
+function purchaseFromDb(d: Record<string, unknown>): Purchase {
+    const mapped = snakeToCamel(d) as unknown as Purchase;
+    if (d.supplier) mapped.supplier = snakeToCamel(d.supplier as Record<string, unknown>) as unknown as Supplier;
+    if (d.items && Array.isArray(d.items)) {
+        mapped.items = (d.items as Record<string, unknown>[]).map(i => snakeToCamel(i) as unknown as PurchaseItem);
+    }
+    return mapped;
+}
+
+interface RestTableOptions<T> {
+    select?: string;
+    order?: string;
+    // snake_case keys never sent on writes (joined relations etc.)
+    omit?: string[];
+    fromDb?: (row: Record<string, unknown>) => T;
+    toDb?: (data: Partial<T>) => Record<string, unknown>;
+}
+
+// Staff log in through Supabase Auth with <username>@STAFF_EMAIL_DOMAIN; the
+// addresses are never mailed. set_staff_login in supabase/migrations uses the
+// same domain.
+const STAFF_EMAIL_DOMAIN = 'technocep.local';
+const SESSION_HOURS = 12;
+// Renew the access token this long before it runs out
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+const staffEmail = (username: string) => `${username.trim().toLowerCase()}@${STAFF_EMAIL_DOMAIN}`;
+
+// Supabase Auth token response: { access_token, refresh_token, expires_in, user: { id } }
+interface AuthTokens {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
+    user: { id: string };
+}
+
+// Messages raised by the functions in supabase/migrations are meant for the user
+function raisedMessage(errorBody: string): string | null {
+    try {
+        const body = JSON.parse(errorBody);
+        return body?.code === 'P0001' ? body.message : null;
+    } catch {
+        return null;
+    }
+}
+
+function tokenFields(tokens: AuthTokens): Pick<AuthSession, 'token' | 'refreshToken' | 'tokenExpiresAt'> {
+    return {
+        token: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        tokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+    };
+}
+
+function sessionFromAuth(member: StaffMember, tokens: AuthTokens): AuthSession {
+    return {
+        ...tokenFields(tokens),
+        userId: member.id,
+        name: member.name,
+        role: member.role,
+        expiresAt: new Date(Date.now() + SESSION_HOURS * 3600000).toISOString(),
+    };
+}
+
+// ── Supabase implementation ──
+// Most KV-style entities live behind the Edge Function; the relational ones
+// (phone stocks, suppliers, purchases, customers …) go straight to PostgREST.
+// Trashed rows keep deleted_at / deleted_by set. Staff accounts are Supabase
+// Auth users. The account functions, the tables added for staff and the
+// ledgers, and the trash columns are in supabase/migrations.
+
+export function createSupabaseBackend(config: BackendConfig): DataBackend {
+    const { supabaseUrl, supabaseAnonKey } = config;
+    const edgeFunctionUrl = `${supabaseUrl}/functions/v1/${config.edgeFunction}`;
+
+    // ── Edge Function REST helpers ──
+    // The Edge Function uses RESTful endpoints, NOT a KV action body format.
+    // GET  /endpoint       → list all
+    // POST /endpoint       → create (returns { data: {...} })
+    // PUT  /endpoint/:id   → update (returns { data: {...} })
+    // DELETE /endpoint/:id → delete
+    //   (PUT on an unknown id creates the record, which is also how restores work)
+    // Signed-in requests carry the session's Supabase Auth access token, which
+    // the Edge Function gateway and PostgREST both verify; the anon key is only
+    // for the public calls (login, setup check, tracking). A 401 on a request
+    // that carried a session ends it.
+
+    async function authFetch(path: string, body: unknown, token = supabaseAnonKey) {
+        const res = await fetch(`${supabaseUrl}/auth/v1${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'apikey': supabaseAnonKey, 'Authorization': `Bearer ${token}` },
+            body: JSON.stringify(body),
+        });
+        const text = await res.text();
+        return { ok: res.ok, status: res.status, data: text ? JSON.parse(text) : null };
+    }
+
+    let refreshing: Promise<string> | null = null;
+
+    async function refreshToken(session: AuthSession): Promise<string> {
+        const res = await authFetch('/token?grant_type=refresh_token', { refresh_token: session.refreshToken });
+        if (!res.ok) {
+            // Revoked or used up: back to the login screen
+            if (res.status === 400 || res.status === 401) expireSession();
+            throw new Error(`Auth Error: ${res.status}`);
+        }
+        const renewed: AuthSession = { ...session, ...tokenFields(res.data) };
+        saveSession(renewed);
+        return renewed.token;
+    }
+
+    async function accessToken(): Promise<string | null> {
+        const session = getSession();
+        if (!session?.token) return null;
+        const expiresAt = session.tokenExpiresAt ? new Date(session.tokenExpiresAt).getTime() : Infinity;
+        if (!session.refreshToken || expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return session.token;
+        // Parallel requests share one refresh: the refresh token is single-use
+        refreshing ??= refreshToken(session).finally(() => { refreshing = null; });
+        return refreshing;
+    }
+
+    async function edgeFetch(endpoint: string, options: RequestInit = {}) {
+        const token = await accessToken();
+        const res = await fetch(`${edgeFunctionUrl}${endpoint}`, {
+            ...options,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token || supabaseAnonKey}`,
+                ...options.headers,
+            },
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            if (res.status === 401 && token) expireSession();
+            console.warn(`Edge Error ${res.status} on ${endpoint}:`, text);
+            throw new Error(`Edge Error: ${res.status}`);
+        }
+        return res.json();
+    }
+
+    // ── Supabase REST helpers ──
+
+    async function dbFetch(path: string, options?: RequestInit) {
+        const token = await accessToken();
+        const res = await fetch(`${supabaseUrl}/rest/v1${path}`, {
+            ...options,
+            headers: {
+                'Content-Type': 'application/json',
+                'apikey': supabaseAnonKey,
+                'Authorization': `Bearer ${token || supabaseAnonKey}`,
+                'Prefer': 'return=representation',
+                ...options?.headers,
+            },
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            if (res.status === 401 && token) expireSession();
+            throw new Error(raisedMessage(text) || `DB Error ${res.status}: ${text}`);
+        }
+        const text = await res.text();
+        return text ? JSON.parse(text) : null;
+    }
+
+    function edgeRepo<T extends { id: string }>(endpoint: string): EntityRepository<T> {
+        const repo: EntityRepository<T> = {
+            async list(filter) {
+                const result = await edgeFetch(endpoint);
+                return filterRecords((result.data || []) as T[], filter);
+            },
+            async get(id) {
+                const all = await repo.list();
+                return all.find(r => r.id === id) || null;
+            },
+            async create(data) {
+                const result = await edgeFetch(endpoint, { method: 'POST', body: JSON.stringify(data) });
+                return result.data ?? null;
+            },
+            async createMany(items) {
+                const created: T[] = [];
+                for (const item of items) {
+                    const r = await repo.create(item);
+                    if (r) created.push(r);
+                }
+                return created;
+            },
+            async update(id, data) {
+                const result = await edgeFetch(`${endpoint}/${id}`, { method: 'PUT', body: JSON.stringify(data) });
+                return result.data ?? null;
+            },
+            async delete(id) {
+                await edgeFetch(`${endpoint}/${id}`, { method: 'DELETE' });
+            },
+            async restore(record) {
+                return repo.update(record.id, record);
+            },
+        };
+        return repo;
+    }
+
+    function restRepo<T extends { id: string }>(table: string, options: RestTableOptions<T> = {}): EntityRepository<T> {
+        const select = options.select || '*';
+        const order = options.order || 'created_at.desc';
+        const fromDb = options.fromDb || ((row: Record<string, unknown>) => snakeToCamel(row) as unknown as T);
+        const toDb = (data: Partial<T>) => {
+            const payload = options.toDb ? options.toDb(data) : camelToSnake(data as Record<string, unknown>);
+            delete payload['id'];
+            delete payload['created_at'];
+            for (const key of options.omit || []) delete payload[key];
+            return payload;
+        };
+        const firstRow = (res: unknown) => {
+            const row = Array.isArray(res) ? res[0] : res;
+            return row ? fromDb(row as Record<string, unknown>) : null;
+        };
+
+        return {
+            async list(filter) {
+                const where = filter
+                    ? Object.entries(camelToSnake(filter as Record<string, unknown>)).map(([k, v]) => `&${k}=eq.${v}`).join('')
+                    : '';
+                const data = await dbFetch(`/${table}?select=${select}${where}&order=${order}`);
+                return (data || []).map(fromDb);
+            },
+            async get(id) {
+                const data = await dbFetch(`/${table}?select=${select}&id=eq.${id}`);
+                return firstRow(data);
+            },
+            async create(data) {
+                const res = await dbFetch(`/${table}`, { method: 'POST', body: JSON.stringify(toDb(data)) });
+                return firstRow(res);
+            },
+            async createMany(items) {
+                const res = await dbFetch(`/${table}`, { method: 'POST', body: JSON.stringify(items.map(toDb)) });
+                return (res || []).map(fromDb);
+            },
+            async update(id, data) {
+                const res = await dbFetch(`/${table}?id=eq.${id}`, { method: 'PATCH', body: JSON.stringify(toDb(data)) });
+                return firstRow(res);
+            },
+            async delete(id) {
+                await dbFetch(`/${table}?id=eq.${id}`, { method: 'DELETE' });
+            },
+            async restore(record) {
+                // Plain insert, but keeping the original id and timestamp
+                const payload = { ...toDb(record), id: record.id, created_at: (record as { createdAt?: string }).createdAt };
+                const res = await dbFetch(`/${table}`, { method: 'POST', body: JSON.stringify(payload) });
+                return firstRow(res);
+            },
+        };
+    }
+
+    const cariHareketler = restRepo<CariHareket>('cari_hareketler', { order: 'islem_tarihi.desc' });
+    const products = edgeRepo<Product>('/products');
+    const sales = edgeRepo<Sale>('/sales');
+    const stockMovements = restRepo<StockMovement>('stock_movements');
+    const repairs = edgeRepo<RepairRecord>('/repairs');
+    const phoneSales = edgeRepo<PhoneSale>('/phone-sales');
+    const customers = restRepo<Customer>('customers');
+    const musteriHareketler = restRepo<MusteriHareket>('musteri_hareketler', { order: 'islem_tarihi.desc' });
+
+    // Staff row of a freshly signed-in user, read with that user's own token
+    async function staffForUser(tokens: AuthTokens): Promise<StaffMember | null> {
+        const rows = await dbFetch(`/staff?select=*&auth_user_id=eq.${tokens.user.id}`, {
+            headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+        });
+        return rows?.[0] ? snakeToCamel(rows[0]) as unknown as StaffMember : null;
+    }
+
+    // New Auth user for a staff login; needs "Confirm email" off (see supabase/migrations)
+    async function signUp(username: string, password: string): Promise<AuthTokens> {
+        const res = await authFetch('/signup', { email: staffEmail(username), password });
+        if (res.status === 422) throw new Error('Bu kullanıcı adı kullanılıyor');
+        if (!res.ok) throw new Error(`Auth Error: ${res.status}`);
+        if (!res.data?.access_token) throw new Error('Supabase Auth ayarlarında "Confirm email" kapatılmalı');
+        return res.data as AuthTokens;
+    }
+
+    return {
+        kind: 'supabase',
+        categories: edgeRepo('/categories'),
+        products,
+        sales,
+        repairs,
+        phoneSales,
+        expenses: edgeRepo('/expenses'),
+        customerRequests: edgeRepo('/customer-requests'),
+        stockMovements,
+        staff: restRepo('staff', { order: 'name.asc' }),
+        auditLog: restRepo('audit_log'),
+        phoneStocks: restRepo('phone_stocks'),
+        suppliers: restRepo('suppliers'),
+        purchases: restRepo('purchases', {
+            select: '*,supplier:suppliers(*),items:purchase_items(*)',
+            omit: ['supplier', 'items'],
+            fromDb: purchaseFromDb,
+        }),
+        purchaseItems: restRepo('purchase_items'),
+        cariHareketler: {
+            ...cariHareketler,
+            // Use edge function to bypass RLS
+            async create(data) {
+                const payload = camelToSnake(data as Record<string, unknown>);
+                delete payload['created_at'];
+                delete payload['id'];
+                const result = await edgeFetch('/cari-hareket', { method: 'POST', body: JSON.stringify(payload) });
+                return result?.data ? snakeToCamel(result.data) as unknown as CariHareket : null;
+            },
+        },
+        payments: restRepo('payments'),
+        customers,
+        musteriHareketler,
+        reminders: restRepo<Reminder>('reminders', { order: 'remind_at.asc', fromDb: reminderFromDb, toDb: reminderToDb }),
+
+        async adjustSupplierBalance(supplierId, addAmount) {
+            // Use edge function to bypass RLS
+            await edgeFetch('/supplier-balance', {
+                method: 'POST',
+                body: JSON.stringify({ supplier_id: supplierId, add_amount: addAmount }),
+            });
+        },
+
+        // Products also live in the Supabase products table (purchase receipts)
+        async updateProductStock(productId, stock, purchasePrice) {
+            const body: Record<string, unknown> = { stock };
+            if (purchasePrice !== undefined) body.purchase_price = purchasePrice;
+            await dbFetch(`/products?id=eq.${productId}`, { method: 'PATCH', body: JSON.stringify(body) });
+        },
+
+        // The Edge Function has no checkout route, so the sale and the stock
+        // updates are separate requests. Stock is checked against a fresh
+        // product list right before writing; two tills selling the last unit
+        // at the same moment can still both succeed.
+        async checkout(sale) {
+            const current = await products.list();
+            const shortages: StockShortage[] = [];
+            const stockUpdates: { product: Product; quantity: number }[] = [];
+            for (const [productId, { productName, quantity }] of requestedQuantities(sale)) {
+                const product = current.find(p => p.id === productId);
+                if (!product) continue;
+                if (product.stock < quantity) {
+                    shortages.push({ productId, productName: product.name || productName, requested: quantity, available: product.stock });
+                }
+                stockUpdates.push({ product, quantity });
+            }
+            if (shortages.length > 0) throw new InsufficientStockError(shortages);
+
+            const created = await sales.create(sale);
+            for (const { product, quantity } of stockUpdates) {
+                await products.update(product.id, { ...product, stock: product.stock - quantity });
+                await stockMovements.create({
+                    productId: product.id, productName: product.name, delta: -quantity,
+                    reason: 'sale', referenceId: created?.id, user: getCurrentUserName(),
+                });
+            }
+            return created!;
+        },
+
+        async processReturn(ret) {
+            const created = await sales.create(ret);
+            const current = await products.list();
+            for (const [productId, { quantity }] of requestedQuantities(ret)) {
+                const product = current.find(p => p.id === productId);
+                if (!product) continue;
+                // Return quantities are stored negative; the shelf gets them back
+                const units = Math.abs(quantity);
+                await products.update(productId, { ...product, stock: product.stock + units });
+                await stockMovements.create({
+                    productId, productName: product.name, delta: units,
+                    reason: 'return', referenceId: created?.id, user: getCurrentUserName(),
+                });
+            }
+            return created!;
+        },
+
+        // Same caveat as checkout: read fresh right before writing, but the product
+        // and the movement are separate requests
+        async adjustStock(productId, delta, movement, changes = {}) {
+            const before = (await products.list()).find(p => p.id === productId);
+            if (!before) return null;
+            const after = { ...before, ...changes, id: productId, stock: before.stock + delta };
+            const saved = (await products.update(productId, after)) ?? after;
+            if (delta !== 0) {
+                await stockMovements.create({
+                    ...movement, productId, productName: saved.name, delta, user: getCurrentUserName(),
+                });
+            }
+            return { before, after: saved };
+        },
+
+        // merge_customers (supabase/migrations) does the writes in one database
+        // transaction, under the same rules as planCustomerMerge; the snapshots
+        // read beforehand only describe the change for the audit log
+        async mergeCustomers(merged, duplicateIds) {
+            const [customerRows, saleRows, repairRows, phoneSaleRows, hareketRows] = await Promise.all([
+                customers.list(), sales.list(), repairs.list(), phoneSales.list(), musteriHareketler.list(),
+            ]);
+            const changes = planCustomerMerge(merged, customerRows, duplicateIds, [
+                { entity: 'sales', rows: saleRows },
+                { entity: 'repairs', rows: repairRows },
+                { entity: 'phoneSales', rows: phoneSaleRows },
+                { entity: 'musteriHareketler', rows: hareketRows },
+            ], getCurrentUserName());
+            await dbFetch('/rpc/merge_customers', {
+                method: 'POST',
+                body: JSON.stringify({ p_survivor: merged, p_duplicate_ids: duplicateIds, p_user: getCurrentUserName() }),
+            });
+            return changes;
+        },
+
+        // Same caveat as checkout: the repair and the part stock are separate requests
+        async saveRepair(id, data) {
+            const before = await repairs.get(id);
+            const after = { ...(before || {}), ...data, id } as RepairRecord;
+            const deltas = repairPartDeltas(before, after);
+            const shortages: StockShortage[] = [];
+            const stockUpdates: { product: Product; delta: number }[] = [];
+            if (deltas.size > 0) {
+                const current = await products.list();
+                for (const [productId, delta] of deltas) {
+                    const product = current.find(p => p.id === productId);
+                    if (!product) continue;
+                    if (product.stock + delta < 0) {
+                        shortages.push({ productId, productName: product.name, requested: -delta, available: product.stock });
+                    }
+                    stockUpdates.push({ product, delta });
+                }
+            }
+            if (shortages.length > 0) throw new InsufficientStockError(shortages);
+
+            const saved = (await repairs.update(id, after)) ?? after;
+            const note = repairPartNote(before, after);
+            for (const { product, delta } of stockUpdates) {
+                await products.update(product.id, { ...product, stock: product.stock + delta });
+                await stockMovements.create({
+                    productId: product.id, productName: product.name, delta,
+                    reason: 'repair_part', referenceId: id, note, user: getCurrentUserName(),
+                });
+            }
+            return { before, after: saved };
+        },
+
+        // track_repair (supabase/migrations) reads the Edge Function's store and
+        // returns only the public fields; anon may call it
+        async trackRepair(trackingCode, phoneLast4) {
+            const info = await dbFetch('/rpc/track_repair', {
+                method: 'POST',
+                body: JSON.stringify({ p_tracking_code: trackingCode, p_phone_last4: phoneLast4 }),
+            });
+            return (info as RepairTrackingInfo | null) ?? null;
+        },
+
+        async login(username, password) {
+            const res = await authFetch('/token?grant_type=password', { email: staffEmail(username), password });
+            // 400: wrong username / password
+            if (res.status === 400) return null;
+            if (!res.ok) throw new Error(`Auth Error: ${res.status}`);
+            const tokens = res.data as AuthTokens;
+            const member = await staffForUser(tokens);
+            if (member?.active) return sessionFromAuth(member, tokens);
+            // A sign-up that is no (longer an active) staff member
+            await authFetch('/logout', {}, tokens.access_token).catch(() => { });
+            return null;
+        },
+
+        async logout() {
+            const session = getSession();
+            // Revokes the refresh token; the access token runs out on its own
+            if (session?.token) await authFetch('/logout', {}, session.token);
+        },
+
+        async needsSetup() {
+            return !!(await dbFetch('/rpc/needs_account_setup', { method: 'POST', body: '{}' }));
+        },
+
+        async setupOwner(name, username, password) {
+            const tokens = await signUp(username, password);
+            const member = await dbFetch('/rpc/claim_owner_account', {
+                method: 'POST',
+                body: JSON.stringify({ p_name: name, p_username: username }),
+                headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+            });
+            return sessionFromAuth(snakeToCamel(member) as unknown as StaffMember, tokens);
+        },
+
+        async setStaffCredentials(staffId, username, password) {
+            if (!hasPermission('staff.manage')) throw new Error('Bu işlem için yetkiniz yok');
+            const [row] = await dbFetch(`/staff?select=auth_user_id&id=eq.${staffId}`) || [];
+            if (!row) throw new Error('Personel bulunamadı');
+            // A member without a login gets a new Auth user; an existing one is
+            // renamed / given the new password by set_staff_login
+            const authUserId: string = row.auth_user_id || (await signUp(username, password)).user.id;
+            await dbFetch('/rpc/set_staff_login', {
+                method: 'POST',
+                body: JSON.stringify({ p_staff_id: staffId, p_auth_user_id: authUserId, p_username: username, p_password: row.auth_user_id ? password : null }),
+            });
+        },
+    };
+}
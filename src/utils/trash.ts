@@ -0,0 +1,39 @@
+import type { TrashEntity } from '../types';
+
+// ── Trash ──
+// Deleted sales, repairs, products … keep their row with deletedAt/deletedBy
+// set (see api.ts). They stay restorable for the retention period; the trash
+// view purges anything older for good.
+
+export const TRASH_ENTITIES: { id: TrashEntity; label: string; icon: string }[] = [
+    { id: 'sales', label: 'Satış', icon: 'point_of_sale' },
+    { id: 'repairs', label: 'Tamir', icon: 'build' },
+    { id: 'phoneSales', label: 'Telefon Satışı', icon: 'smartphone' },
+    { id: 'products', label: 'Ürün', icon: 'inventory_2' },
+    { id: 'customers', label: 'Müşteri', icon: 'group' },
+    { id: 'purchases', label: 'Alış', icon: 'shopping_bag' },
+    { id: 'expenses', label: 'Gider', icon: 'trending_down' },
+];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_KEY = 'trashRetentionDays';
+
+export function loadTrashRetentionDays(): number {
+    const days = Number(localStorage.getItem(RETENTION_KEY));
+    return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function saveTrashRetentionDays(days: number) {
+    localStorage.setItem(RETENTION_KEY, String(days));
+}
+
+export function getTrashEntityInfo(entity: TrashEntity) {
+    return TRASH_ENTITIES.find(e => e.id === entity) || TRASH_ENTITIES[0];
+}
+
+// Whole days left before the record is purged (0 or less: due now)
+export function getTrashDaysLeft(deletedAt: string, retentionDays: number, now = Date.now()): number {
+    const purgeAt = new Date(deletedAt).getTime() + retentionDays * 86400000;
+    return Math.ceil((purgeAt - now) / 86400000);
+}
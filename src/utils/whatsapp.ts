@@ -0,0 +1,44 @@
+import { toE164 } from './phone';
+
+// ── WhatsApp (UltraMsg) ──
+// Credentials are entered on RemindersPage and kept in localStorage (wa_*).
+
+export interface WhatsAppConfig {
+    instanceId: string;
+    token: string;
+    defaultPhone: string;
+}
+
+export function getWhatsAppConfig(): WhatsAppConfig {
+    return {
+        instanceId: localStorage.getItem('wa_instance') || '',
+        token: localStorage.getItem('wa_token') || '',
+        defaultPhone: localStorage.getItem('wa_phone') || '',
+    };
+}
+
+export function isWhatsAppConfigured(): boolean {
+    const { instanceId, token } = getWhatsAppConfig();
+    return !!instanceId && !!token;
+}
+
+// UltraMsg wants the international number as bare digits
+function toRecipient(phone: string): string {
+    return (toE164(phone) || phone).replace(/\D/g, '') || phone;
+}
+
+/** Sends a chat message. Throws with UltraMsg's error text when the message was not accepted. */
+export async function sendWhatsAppMessage(to: string, body: string): Promise<void> {
+    const { instanceId, token } = getWhatsAppConfig();
+    if (!instanceId || !token) throw new Error('WhatsApp ayarları eksik');
+    const res = await fetch(`https://api.ultramsg.com/${instanceId}/messages/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token, to: toRecipient(to), body }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || data.error) {
+        const detail = typeof data.error === 'string' ? data.error : JSON.stringify(data.error || res.status);
+        throw new Error(`Gönderilemedi: ${detail}`);
+    }
+}
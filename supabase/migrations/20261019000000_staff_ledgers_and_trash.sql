@@ -0,0 +1,94 @@
+-- Tables and columns the app reads through PostgREST (src/utils/supabaseBackend.ts)
+-- beyond the original schema: the staff list, the stock / customer / audit
+-- ledgers, and the trash columns of the relational tables. Entities kept by the
+-- Edge Function (products, sales, repairs …) carry deletedAt in their JSON.
+--
+-- The policies below open these tables to anon; 20261019000100_staff_accounts.sql
+-- replaces them with signed-in staff access.
+
+-- ── Trash (soft delete) ──
+
+alter table customers
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text,
+    add column if not exists notifications_opt_out boolean;
+
+alter table purchases
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_by text;
+
+-- ── Staff ──
+
+create table if not exists staff (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    role text not null default 'technician' check (role in ('owner', 'cashier', 'technician')),
+    phone text not null default '',
+    username text,
+    active boolean not null default true,
+    created_at timestamptz not null default now()
+);
+
+-- ── Customer ledger (müşteri cari hareketleri) ──
+
+create table if not exists musteri_hareketler (
+    id uuid primary key default gen_random_uuid(),
+    customer_id text not null,
+    islem_tarihi timestamptz not null default now(),
+    islem_tipi text not null check (islem_tipi in ('borc', 'alacak', 'tahsilat', 'odeme')),
+    miktar numeric not null,
+    aciklama text not null default '',
+    ilgili_id text,
+    ilgili_tip text check (ilgili_tip in ('sale', 'repair', 'phoneSale')),
+    bakiye_etkisi numeric not null,
+    "user" text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists musteri_hareketler_customer_id_idx on musteri_hareketler (customer_id);
+
+-- ── Stock ledger ──
+
+create table if not exists stock_movements (
+    id uuid primary key default gen_random_uuid(),
+    product_id text not null,
+    product_name text not null default '',
+    delta integer not null,
+    reason text not null check (reason in ('sale', 'purchase', 'return', 'adjustment', 'count', 'repair_part')),
+    reference_id text,
+    note text,
+    "user" text not null default '',
+    created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_idx on stock_movements (product_id);
+
+-- ── Audit log ──
+
+create table if not exists audit_log (
+    id uuid primary key default gen_random_uuid(),
+    entity text not null,
+    entity_id text not null,
+    action text not null check (action in ('create', 'update', 'delete', 'restore')),
+    before jsonb,
+    after jsonb,
+    "user" text not null default '',
+    user_id text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entity_idx on audit_log (entity, entity_id);
+
+-- ── Access ──
+
+alter table staff enable row level security;
+alter table musteri_hareketler enable row level security;
+alter table stock_movements enable row level security;
+alter table audit_log enable row level security;
+
+create policy "anon full access" on staff for all to anon using (true) with check (true);
+create policy "anon full access" on musteri_hareketler for all to anon using (true) with check (true);
+create policy "anon full access" on stock_movements for all to anon using (true) with check (true);
+-- The audit log is append-only
+create policy "anon read" on audit_log for select to anon using (true);
+create policy "anon insert" on audit_log for insert to anon with check (true);
@@ -0,0 +1,110 @@
+-- Staff accounts on Supabase Auth, replacing the shared login. Every login is an
+-- auth.users row whose email is <username>@technocep.local (STAFF_EMAIL_DOMAIN in
+-- src/utils/supabaseBackend.ts); staff.auth_user_id ties it to the member and
+-- their role. Signed-in requests carry the user's access token, and the tables
+-- below only let active staff through — roles are checked here, not just in the
+-- browser.
+--
+-- Logins are created from the app (owner setup, owner adding a login on the
+-- staff page) through the Auth sign-up endpoint, so in the project's Auth
+-- settings email sign-ups must be enabled and "Confirm email" turned off: the
+-- addresses are not real mailboxes. A bare sign-up without a staff row gets no
+-- access to anything.
+
+create extension if not exists pgcrypto with schema extensions;
+
+alter table staff
+    add column if not exists auth_user_id uuid unique references auth.users (id) on delete set null;
+
+create unique index if not exists staff_username_idx on staff (lower(username));
+
+-- Role of the signed-in user; null for anon, unknown users and inactive staff
+create or replace function current_staff_role() returns text
+language sql stable security definer set search_path = public as $$
+    select role from staff where auth_user_id = auth.uid() and active
+$$;
+
+-- The login screen asks before anyone is signed in: true until the first
+-- owner has claimed an account
+create or replace function needs_account_setup() returns boolean
+language sql stable security definer set search_path = public as $$
+    select not exists (select 1 from staff where auth_user_id is not null)
+$$;
+
+-- First run: the freshly signed-up caller becomes the owner. Fails once any
+-- account exists, so a later sign-up cannot make itself owner.
+create or replace function claim_owner_account(p_name text, p_username text) returns staff
+language plpgsql security definer set search_path = public as $$
+declare
+    member staff;
+begin
+    if auth.uid() is null then
+        raise exception 'Oturum bulunamadı';
+    end if;
+    perform pg_advisory_xact_lock(hashtext('claim_owner_account'));
+    if exists (select 1 from staff where auth_user_id is not null) then
+        raise exception 'Yönetici hesabı zaten oluşturulmuş';
+    end if;
+    insert into staff (name, role, username, auth_user_id)
+        values (trim(p_name), 'owner', lower(trim(p_username)), auth.uid())
+        returning * into member;
+    return member;
+end;
+$$;
+
+-- Owner only: ties a signed-up user to a member, or renames / re-passwords the
+-- login a member already has (p_password null keeps the current one)
+create or replace function set_staff_login(p_staff_id uuid, p_auth_user_id uuid, p_username text, p_password text default null) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+    login text := lower(trim(p_username));
+begin
+    if current_staff_role() is distinct from 'owner' then
+        raise exception 'Bu işlem için yetkiniz yok';
+    end if;
+    if not exists (select 1 from staff where id = p_staff_id) then
+        raise exception 'Personel bulunamadı';
+    end if;
+    if exists (select 1 from staff where auth_user_id = p_auth_user_id and id <> p_staff_id) then
+        raise exception 'Bu hesap başka bir personele bağlı';
+    end if;
+    if exists (select 1 from staff where lower(username) = login and id <> p_staff_id) then
+        raise exception 'Bu kullanıcı adı kullanılıyor';
+    end if;
+
+    update auth.users set
+        email = login || '@technocep.local',
+        encrypted_password = coalesce(extensions.crypt(p_password, extensions.gen_salt('bf')), encrypted_password),
+        updated_at = now()
+    where id = p_auth_user_id;
+    update staff set auth_user_id = p_auth_user_id, username = login where id = p_staff_id;
+end;
+$$;
+
+revoke execute on function claim_owner_account(text, text) from public, anon;
+revoke execute on function set_staff_login(uuid, uuid, text, text) from public, anon;
+grant execute on function needs_account_setup() to anon, authenticated;
+grant execute on function current_staff_role() to authenticated;
+grant execute on function claim_owner_account(text, text) to authenticated;
+grant execute on function set_staff_login(uuid, uuid, text, text) to authenticated;
+
+-- ── Access: signed-in staff instead of anon ──
+
+drop policy if exists "anon full access" on staff;
+drop policy if exists "anon full access" on musteri_hareketler;
+drop policy if exists "anon full access" on stock_movements;
+drop policy if exists "anon read" on audit_log;
+drop policy if exists "anon insert" on audit_log;
+
+create policy "staff read" on staff for select to authenticated using (current_staff_role() is not null);
+create policy "owner write" on staff for all to authenticated
+    using (current_staff_role() = 'owner') with check (current_staff_role() = 'owner');
+
+create policy "staff access" on musteri_hareketler for all to authenticated
+    using (current_staff_role() is not null) with check (current_staff_role() is not null);
+create policy "staff access" on stock_movements for all to authenticated
+    using (current_staff_role() is not null) with check (current_staff_role() is not null);
+
+-- The audit log stays append-only
+create policy "staff read" on audit_log for select to authenticated using (current_staff_role() is not null);
+create policy "staff insert" on audit_log for insert to authenticated with check (current_staff_role() is not null);
@@ -0,0 +1,31 @@
+-- Public repair tracking (RepairTrackingPage). The Edge Function
+-- (make-server-929c4905) keeps repairs as camelCase JSON values in its
+-- kv_store_929c4905 table (key text, value jsonb), which anon cannot read.
+-- This function looks a repair up by its tracking code plus the last four
+-- digits of the customer's phone and returns only the public fields
+-- (RepairTrackingInfo in src/types); null on any mismatch or when the repair
+-- is in the trash. Same rules as toRepairTrackingInfo / matchesTrackingRequest
+-- in src/utils/backend.ts.
+
+create or replace function track_repair(p_tracking_code text, p_phone_last4 text) returns jsonb
+language sql stable security definer set search_path = public as $$
+    select jsonb_strip_nulls(jsonb_build_object(
+        'trackingCode', r.value->>'trackingCode',
+        'deviceInfo', r.value->>'deviceInfo',
+        'status', r.value->>'status',
+        'estimatedAt', r.value->>'estimatedAt',
+        'remaining', greatest(0, coalesce((r.value->>'repairCost')::numeric, 0) - coalesce((r.value->>'prePayment')::numeric, 0)),
+        'updatedAt', coalesce(r.value->'statusHistory'->-1->>'at', r.value->>'createdAt'),
+        'deliveredAt', r.value->>'deliveredAt'
+    ))
+    from kv_store_929c4905 r
+    where r.value ? 'deviceInfo'
+      and r.value->>'trackingCode' = p_tracking_code
+      and coalesce(r.value->>'deletedAt', '') = ''
+      and length(p_phone_last4) = 4
+      and right(regexp_replace(coalesce(r.value->>'customerPhone', ''), '\D', '', 'g'), 4) = p_phone_last4
+    limit 1
+$$;
+
+revoke execute on function track_repair(text, text) from public;
+grant execute on function track_repair(text, text) to anon, authenticated;
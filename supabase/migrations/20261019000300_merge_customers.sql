@@ -0,0 +1,51 @@
+-- Duplicate customer merge in one transaction (DataBackend.mergeCustomers).
+-- Same rules as planCustomerMerge in src/utils/backend.ts: the live
+-- duplicates' sales, repairs and phone sales (JSON values in the Edge
+-- Function's kv_store_929c4905) and their musteri_hareketler rows move to the
+-- survivor; the survivor takes p_survivor's contact fields plus the
+-- duplicates' opening debt / credit; the duplicates are cleared and trashed.
+-- Duplicates already in the trash are skipped, so running the same merge again
+-- only re-saves the survivor's fields.
+
+create or replace function merge_customers(p_survivor jsonb, p_duplicate_ids text[], p_user text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+    survivor_id text := p_survivor->>'id';
+    duplicate_ids text[];
+begin
+    if current_staff_role() is null then
+        raise exception 'Bu işlem için yetkiniz yok';
+    end if;
+    -- Two tablets merging overlapping groups wait for each other here
+    perform 1 from customers where id::text = survivor_id or id::text = any(p_duplicate_ids) for update;
+    if not exists (select 1 from customers where id::text = survivor_id) then
+        raise exception 'Müşteri bulunamadı';
+    end if;
+    duplicate_ids := array(
+        select id::text from customers
+        where id::text = any(p_duplicate_ids) and id::text <> survivor_id and deleted_at is null
+    );
+
+    update kv_store_929c4905 set value = jsonb_set(value, '{customerId}', to_jsonb(survivor_id))
+        where value->>'customerId' = any(duplicate_ids);
+    update musteri_hareketler set customer_id = survivor_id where customer_id = any(duplicate_ids);
+
+    update customers c set
+        name = p_survivor->>'name',
+        phone = coalesce(p_survivor->>'phone', ''),
+        email = coalesce(p_survivor->>'email', ''),
+        address = coalesce(p_survivor->>'address', ''),
+        notes = coalesce(p_survivor->>'notes', ''),
+        notifications_opt_out = (p_survivor->>'notificationsOptOut')::boolean,
+        debt = coalesce(c.debt, 0) + coalesce(d.debt, 0),
+        credit = coalesce(c.credit, 0) + coalesce(d.credit, 0)
+    from (select sum(debt) as debt, sum(credit) as credit from customers where id::text = any(duplicate_ids)) d
+    where c.id::text = survivor_id;
+
+    update customers set debt = 0, credit = 0, deleted_at = now(), deleted_by = p_user
+        where id::text = any(duplicate_ids);
+end;
+$$;
+
+revoke execute on function merge_customers(jsonb, text[], text) from public, anon;
+grant execute on function merge_customers(jsonb, text[], text) to authenticated;